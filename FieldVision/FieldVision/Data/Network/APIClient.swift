@@ -33,8 +33,8 @@ final class APIClient {
         return try await post("/auth/register", body: body)
     }
     
-    func appleSignIn(identityToken: String, name: String?, email: String?) async throws -> AuthResponse {
-        let body = AppleSignInRequest(identityToken: identityToken, name: name, email: email)
+    func appleSignIn(identityToken: String, nonce: String?, name: String?, email: String?) async throws -> AuthResponse {
+        let body = AppleSignInRequest(identityToken: identityToken, nonce: nonce, name: name, email: email)
         return try await post("/auth/apple", body: body)
     }
     
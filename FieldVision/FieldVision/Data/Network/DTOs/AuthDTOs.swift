@@ -13,6 +13,7 @@ struct RegisterRequest: Encodable {
 
 struct AppleSignInRequest: Encodable {
     let identityToken: String
+    let nonce: String?
     let name: String?
     let email: String?
 }
@@ -146,7 +146,7 @@ struct LoginFormView: View {
 
     private var appleSignInButton: some View {
         SignInWithAppleButton(.signIn) { request in
-            request.requestedScopes = [.fullName, .email]
+            authViewModel.prepareAppleSignIn(request)
         } onCompletion: { result in
             Task {
                 await authViewModel.handleAppleSignIn(result)
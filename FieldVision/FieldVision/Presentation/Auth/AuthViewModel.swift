@@ -1,5 +1,6 @@
 import SwiftUI
 import AuthenticationServices
+import CryptoKit
 
 @MainActor
 final class AuthViewModel: ObservableObject {
@@ -19,6 +20,9 @@ final class AuthViewModel: ObservableObject {
     private let apiClient = APIClient.shared
     private let keychainService = KeychainService.shared
 
+    // Apple gets only its hash; the server checks the raw value against the identity token
+    private var appleSignInNonce: String?
+
     init() {
         checkExistingAuth()
     }
@@ -70,7 +74,17 @@ final class AuthViewModel: ObservableObject {
         isLoading = false
     }
 
+    func prepareAppleSignIn(_ request: ASAuthorizationAppleIDRequest) {
+        let nonce = randomNonce()
+        appleSignInNonce = nonce
+        request.requestedScopes = [.fullName, .email]
+        request.nonce = sha256(nonce)
+    }
+
     func handleAppleSignIn(_ result: Result<ASAuthorization, Error>) async {
+        let nonce = appleSignInNonce
+        appleSignInNonce = nil
+
         switch result {
         case .success(let authorization):
             guard let appleIDCredential = authorization.credential as? ASAuthorizationAppleIDCredential,
@@ -91,6 +105,7 @@ final class AuthViewModel: ObservableObject {
             do {
                 let response = try await apiClient.appleSignIn(
                     identityToken: tokenString,
+                    nonce: nonce,
                     name: fullName.isEmpty ? nil : fullName,
                     email: appleIDCredential.email
                 )
@@ -197,6 +212,16 @@ final class AuthViewModel: ObservableObject {
         return true
     }
 
+    private func randomNonce() -> String {
+        var bytes = [UInt8](repeating: 0, count: 32)
+        _ = SecRandomCopyBytes(kSecRandomDefault, bytes.count, &bytes)
+        return bytes.map { String(format: "%02x", $0) }.joined()
+    }
+
+    private func sha256(_ value: String) -> String {
+        SHA256.hash(data: Data(value.utf8)).map { String(format: "%02x", $0) }.joined()
+    }
+
     private func clearInputs() {
         email = ""
         password = ""
@@ -0,0 +1,50 @@
+-- Full-text search columns used by GET /v1/search.
+--
+-- `prisma db push` creates each "searchVector" column as a plain tsvector with
+-- a GIN index. This script swaps them for generated columns so Postgres keeps
+-- the vectors in step with the text they index. Columns that are already
+-- generated are left alone, so it is safe to run after every push. To change
+-- an expression, drop the column and run `prisma db push` + this script again.
+--
+-- Weights: A = names and notes, B = client names and transcriptions, C = addresses.
+
+CREATE OR REPLACE FUNCTION pg_temp.ensure_search_vector(tbl text, expr text) RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = tbl
+      AND column_name = 'searchVector'
+      AND is_generated = 'ALWAYS'
+  ) THEN
+    EXECUTE format('ALTER TABLE %I DROP COLUMN IF EXISTS "searchVector"', tbl);
+    EXECUTE format('ALTER TABLE %I ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (%s) STORED', tbl, expr);
+  END IF;
+
+  -- Same name Prisma gives the @@index, so later pushes see it as unchanged
+  EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I USING GIN ("searchVector")', tbl || '_searchVector_idx', tbl);
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT pg_temp.ensure_search_vector('projects', $$
+  setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("clientName", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("address", '')), 'C')
+$$);
+
+SELECT pg_temp.ensure_search_vector('folders', $$
+  setweight(to_tsvector('english', coalesce("name", '')), 'A')
+$$);
+
+SELECT pg_temp.ensure_search_vector('photos', $$
+  setweight(to_tsvector('english', coalesce("note", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("voiceNoteTranscription", '')), 'B')
+$$);
+
+SELECT pg_temp.ensure_search_vector('voice_notes', $$
+  setweight(to_tsvector('english', coalesce("transcription", '')), 'B')
+$$);
+
+SELECT pg_temp.ensure_search_vector('comments', $$
+  to_tsvector('english', coalesce("text", ''))
+$$);
@@ -6,12 +6,31 @@ import { PrismaClient } from '@prisma/client';
 import { authRoutes } from './routes/auth.js';
 import { projectRoutes } from './routes/projects.js';
 import { photoRoutes } from './routes/photos.js';
+import { uploadRoutes } from './routes/uploads.js';
+import { voiceNoteRoutes } from './routes/voice-notes.js';
+import { annotationRoutes } from './routes/annotations.js';
 import { shareRoutes } from './routes/share.js';
 import { notificationRoutes } from './routes/notifications.js';
 import { searchRoutes } from './routes/search.js';
 import { memberRoutes } from './routes/members.js';
+import { invitationRoutes } from './routes/invitations.js';
+import { tagRoutes } from './routes/tags.js';
+import { photoPairRoutes } from './routes/photo-pairs.js';
+import { reportRoutes } from './routes/reports.js';
+import { reportTemplateRoutes } from './routes/report-templates.js';
 import { teamContactRoutes } from './routes/team-contacts.js';
-import { createPushService } from './services/push.js';
+import { storageRoutes } from './routes/storage.js';
+import { adminRoutes } from './routes/admin.js';
+import { createEmailService, SEND_EMAIL_JOB, SendEmailJobPayload } from './services/email.js';
+import { createPushService, SEND_PUSH_JOB, SendPushJobPayload } from './services/push.js';
+import { createJobQueue } from './services/jobs.js';
+import { createMediaService, PROCESS_PHOTO_JOB, ProcessPhotoPayload } from './services/media.js';
+import {
+  createTranscriptionService,
+  TRANSCRIBE_VOICE_NOTE_JOB,
+  TranscribeVoiceNotePayload,
+} from './services/transcription.js';
+import { createReportService, GENERATE_REPORT_JOB, GenerateReportPayload } from './services/reports.js';
 
 const prisma = new PrismaClient();
 
@@ -34,21 +53,67 @@ fastify.register(multipart, {
   },
 });
 
+const pushService = createPushService(prisma);
+const emailService = createEmailService(prisma);
+const mediaService = createMediaService(prisma);
+const transcriptionService = createTranscriptionService(prisma);
+const reportService = createReportService(prisma);
+
+const jobQueue = createJobQueue(prisma);
+jobQueue.register<ProcessPhotoPayload>(PROCESS_PHOTO_JOB, (payload) => mediaService.processPhoto(payload));
+jobQueue.register<TranscribeVoiceNotePayload>(
+  TRANSCRIBE_VOICE_NOTE_JOB,
+  (payload) => transcriptionService.transcribeVoiceNote(payload),
+  {
+    maxAttempts: 3,
+    onDead: (payload, error) => transcriptionService.markFailed(payload, error),
+  }
+);
+jobQueue.register<SendPushJobPayload>(SEND_PUSH_JOB, ({ userId, notification }) =>
+  pushService.sendToUser(userId, notification)
+);
+jobQueue.register<SendEmailJobPayload>(SEND_EMAIL_JOB, (payload) => emailService.send(payload), {
+  maxAttempts: 5,
+});
+jobQueue.register<GenerateReportPayload>(GENERATE_REPORT_JOB, (payload) => reportService.generateReport(payload), {
+  maxAttempts: 3,
+  onDead: (payload, error) => reportService.markFailed(payload, error),
+});
+
 fastify.decorate('prisma', prisma);
-fastify.decorate('pushService', createPushService(prisma));
+fastify.decorate('pushService', pushService);
+fastify.decorate('jobQueue', jobQueue);
+
+// Set JOBS_WORKER=false on instances that should only enqueue
+fastify.addHook('onReady', async () => {
+  if (process.env.JOBS_WORKER !== 'false') {
+    jobQueue.start();
+  }
+});
 
 fastify.addHook('onClose', async () => {
+  await jobQueue.stop();
   await prisma.$disconnect();
 });
 
 fastify.register(authRoutes, { prefix: '/v1/auth' });
 fastify.register(projectRoutes, { prefix: '/v1/projects' });
 fastify.register(photoRoutes, { prefix: '/v1/photos' });
+fastify.register(uploadRoutes, { prefix: '/v1/photos/uploads' });
+fastify.register(voiceNoteRoutes, { prefix: '/v1/photos' });
+fastify.register(annotationRoutes, { prefix: '/v1/photos' });
 fastify.register(shareRoutes, { prefix: '/v1/share' });
 fastify.register(notificationRoutes, { prefix: '/v1/notifications' });
 fastify.register(searchRoutes, { prefix: '/v1/search' });
 fastify.register(memberRoutes, { prefix: '/v1/projects' });
+fastify.register(invitationRoutes, { prefix: '/v1/invitations' });
+fastify.register(tagRoutes, { prefix: '/v1/projects' });
+fastify.register(photoPairRoutes, { prefix: '/v1/projects' });
+fastify.register(reportRoutes, { prefix: '/v1/projects' });
+fastify.register(reportTemplateRoutes, { prefix: '/v1/report-templates' });
 fastify.register(teamContactRoutes, { prefix: '/v1/team' });
+fastify.register(storageRoutes, { prefix: '/v1/storage' });
+fastify.register(adminRoutes, { prefix: '/v1/admin' });
 
 fastify.get('/health', async () => {
   return { status: 'ok', timestamp: new Date().toISOString() };
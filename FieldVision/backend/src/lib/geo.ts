@@ -0,0 +1,155 @@
+export const EARTH_RADIUS_METERS = 6371000;
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// Photos without a GPS fix are stored at 0,0 until EXIF data fills them in
+export function hasLocation(point: LatLng): boolean {
+  return !(point.latitude === 0 && point.longitude === 0);
+}
+
+// Great-circle (haversine) distance between two points in meters
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+const DEFAULT_RADIUS_METERS = 100;
+const MAX_RADIUS_METERS = 50000;
+
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+/**
+ * Location filter from the near/radius/bbox query parameters. Either or both
+ * may be set; with `near` set results are limited to `radius` meters and
+ * ordered by distance from that point.
+ */
+export interface GeoFilter {
+  box: BoundingBox | null;
+  near: LatLng | null;
+  radius: number | null;
+}
+
+// "lat,lng", e.g. ?near=37.7749,-122.4194
+export function parseLatLng(value: unknown): LatLng | null {
+  const numbers = parseNumberList(value, 2);
+  if (!numbers) return null;
+
+  const [latitude, longitude] = numbers;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+// "west,south,east,north" (the GeoJSON bbox order); west > east crosses the antimeridian
+export function parseBoundingBox(value: unknown): BoundingBox | null {
+  const numbers = parseNumberList(value, 4);
+  if (!numbers) return null;
+
+  const [west, south, east, north] = numbers;
+  if (south > north || Math.abs(south) > 90 || Math.abs(north) > 90) return null;
+  if (Math.abs(west) > 180 || Math.abs(east) > 180) return null;
+  return { west, south, east, north };
+}
+
+// Smallest box holding the circle, so a radius search can use the lat/lng index first
+export function boundingBoxAround(center: LatLng, radiusMeters: number): BoundingBox {
+  const latDelta = radiusMeters / METERS_PER_DEGREE_LATITUDE;
+  const south = Math.max(-90, center.latitude - latDelta);
+  const north = Math.min(90, center.latitude + latDelta);
+
+  const cosLat = Math.cos((Math.max(Math.abs(south), Math.abs(north)) * Math.PI) / 180);
+  const lngDelta = radiusMeters / (METERS_PER_DEGREE_LATITUDE * Math.max(cosLat, 1e-6));
+  if (lngDelta >= 180) {
+    return { west: -180, south, east: 180, north };
+  }
+
+  return {
+    west: wrapLongitude(center.longitude - lngDelta),
+    south,
+    east: wrapLongitude(center.longitude + lngDelta),
+    north,
+  };
+}
+
+/**
+ * Reads ?near=lat,lng&radius=meters and ?bbox=west,south,east,north. Returns
+ * null when neither is given and an error message for malformed values. A
+ * radius without a point is ignored; radius defaults to 100 m, capped at 50 km.
+ */
+export function parseGeoFilter(query: { near?: unknown; radius?: unknown; bbox?: unknown }): GeoFilter | { error: string } | null {
+  const hasNear = query.near !== undefined && query.near !== '';
+  const hasBox = query.bbox !== undefined && query.bbox !== '';
+  if (!hasNear && !hasBox) return null;
+
+  const box = hasBox ? parseBoundingBox(query.bbox) : null;
+  if (hasBox && !box) {
+    return { error: 'bbox must be west,south,east,north in degrees' };
+  }
+
+  if (!hasNear) {
+    return { box, near: null, radius: null };
+  }
+
+  const near = parseLatLng(query.near);
+  if (!near) {
+    return { error: 'near must be latitude,longitude in degrees' };
+  }
+
+  const radius = query.radius === undefined || query.radius === '' ? DEFAULT_RADIUS_METERS : Number(query.radius);
+  if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_RADIUS_METERS) {
+    return { error: `radius must be between 0 and ${MAX_RADIUS_METERS} meters` };
+  }
+
+  return { box, near, radius };
+}
+
+/**
+ * Photo where-clauses for the filter's bbox and the box around its radius.
+ * The radius itself is exact only in SearchService.findPhotosNear, which
+ * measures each candidate. Photos without GPS never match.
+ */
+export function photoGeoFilter(filter: GeoFilter) {
+  const boxes = [filter.box, filter.near && boundingBoxAround(filter.near, filter.radius!)];
+
+  return [
+    ...boxes.filter((box): box is BoundingBox => box !== null).flatMap(boxClauses),
+    { NOT: { latitude: 0, longitude: 0 } },
+  ];
+}
+
+function boxClauses(box: BoundingBox) {
+  return [
+    { latitude: { gte: box.south, lte: box.north } },
+    box.west <= box.east
+      ? { longitude: { gte: box.west, lte: box.east } }
+      : { OR: [{ longitude: { gte: box.west } }, { longitude: { lte: box.east } }] },
+  ];
+}
+
+function parseNumberList(value: unknown, length: number): number[] | null {
+  if (typeof value !== 'string') return null;
+
+  const parts = value.split(',').map((part) => part.trim());
+  if (parts.length !== length || parts.some((part) => part === '')) return null;
+
+  const numbers = parts.map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+function wrapLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180;
+}
@@ -0,0 +1,28 @@
+// Include for a photo's tags, flattened by formatPhotoTags
+export const photoTagsInclude = {
+  include: { tag: { select: { id: true, name: true, color: true } } },
+  orderBy: { tag: { name: 'asc' as const } },
+};
+
+export function formatPhotoTags(tags: { tag: { id: string; name: string; color: string } }[]) {
+  return tags.map((t) => t.tag);
+}
+
+// Splits a comma separated query value ("damage,warranty") into trimmed entries
+export function parseTagList(value: unknown): string[] {
+  if (typeof value !== 'string') return [];
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Photo where-clauses requiring every given tag. Tags may be referenced by id
+ * or by name; names match case-insensitively so "Damage" finds "damage".
+ */
+export function photoTagFilter(tagIds: string[], tagNames: string[]) {
+  return [
+    ...tagIds.map((tagId) => ({ tags: { some: { tagId } } })),
+    ...tagNames.map((name) => ({
+      tags: { some: { tag: { name: { equals: name, mode: 'insensitive' as const } } } },
+    })),
+  ];
+}
@@ -47,6 +47,30 @@ export async function requirePro(request: FastifyRequest, reply: FastifyReply) {
   (request as any).isPro = true;
 }
 
+// Admins are configured by email via ADMIN_EMAILS (comma-separated)
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+  const prisma = (request.server as any).prisma;
+  const userId = (request as any).userId;
+
+  if (!userId) {
+    return reply.status(401).send({ error: 'Authentication required' });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true },
+  });
+
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!user || !adminEmails.includes(user.email.toLowerCase())) {
+    return reply.status(403).send({ error: 'Admin access required' });
+  }
+}
+
 export async function checkSubscriptionLimits(request: FastifyRequest, reply: FastifyReply) {
   const prisma = (request.server as any).prisma;
   const userId = (request as any).userId;
@@ -0,0 +1,80 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+
+const listJobsSchema = z.object({
+  status: z.enum(['PENDING', 'RUNNING', 'COMPLETED', 'DEAD']).optional(),
+  type: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', authenticate);
+  fastify.addHook('preHandler', requireAdmin);
+
+  // GET /v1/admin/jobs - List background jobs, newest first
+  fastify.get('/jobs', async (request: FastifyRequest) => {
+    const { status, type, page, limit } = listJobsSchema.parse(request.query);
+    const prisma = (fastify as any).prisma;
+
+    const where: any = {};
+    if (status) where.status = status;
+    if (type) where.type = type;
+
+    const skip = (page - 1) * limit;
+
+    const [jobs, total] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.job.count({ where }),
+    ]);
+
+    return {
+      data: jobs.map((job: any) => ({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        payload: job.payload,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        runAt: job.runAt,
+        lockedAt: job.lockedAt,
+        lastError: job.lastError,
+        completedAt: job.completedAt,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+      })),
+      page,
+      limit,
+      total,
+      hasMore: skip + jobs.length < total,
+    };
+  });
+
+  // POST /v1/admin/jobs/:id/retry - Requeue a dead job with a fresh set of attempts
+  fastify.post('/jobs/:id/retry', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+
+    const { count } = await prisma.job.updateMany({
+      where: { id, status: 'DEAD' },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        runAt: new Date(),
+        lockedAt: null,
+      },
+    });
+
+    if (count === 0) {
+      return reply.status(404).send({ error: 'Dead job not found' });
+    }
+
+    return { success: true };
+  });
+}
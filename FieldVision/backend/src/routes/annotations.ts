@@ -0,0 +1,193 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth.js';
+
+// Positions and sizes are fractions of the image width/height (0-1); stroke
+// widths and font sizes are fractions of the image width
+const coordinate = z.number().min(0).max(1);
+const color = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+const strokeWidth = z.number().positive().max(0.1);
+
+const boxShape = {
+  x: coordinate,
+  y: coordinate,
+  width: coordinate,
+  height: coordinate,
+  color,
+  strokeWidth,
+};
+
+const shapeSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('arrow'),
+    x1: coordinate,
+    y1: coordinate,
+    x2: coordinate,
+    y2: coordinate,
+    color,
+    strokeWidth,
+  }),
+  z.object({ type: z.literal('rect'), ...boxShape }),
+  z.object({ type: z.literal('ellipse'), ...boxShape }),
+  z.object({
+    type: z.literal('freehand'),
+    points: z.array(z.tuple([coordinate, coordinate])).min(2).max(2000),
+    color,
+    strokeWidth,
+  }),
+  z.object({
+    type: z.literal('text'),
+    x: coordinate,
+    y: coordinate,
+    text: z.string().min(1).max(500),
+    color,
+    fontSize: z.number().positive().max(0.3),
+  }),
+]);
+
+const annotationBodySchema = z.object({
+  shape: shapeSchema,
+});
+
+export async function annotationRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', authenticate);
+
+  // GET /v1/photos/:id/annotations - List annotations in drawing order
+  fastify.get('/:id/annotations', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const isMember = photo.project.members.some((m: any) => m.userId === userId);
+    if (!isMember) {
+      return reply.status(403).send({ error: 'Not authorized to view this photo' });
+    }
+
+    const annotations = await prisma.annotation.findMany({
+      where: { photoId: id },
+      include: { author: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { data: annotations.map(formatAnnotation) };
+  });
+
+  // POST /v1/photos/:id/annotations - Add a shape on top of the photo
+  fastify.post('/:id/annotations', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const body = annotationBodySchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const member = photo.project.members.find((m: any) => m.userId === userId);
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to annotate this photo' });
+    }
+
+    const annotation = await prisma.annotation.create({
+      data: {
+        photoId: id,
+        authorId: userId,
+        shape: body.shape,
+      },
+      include: { author: { select: { id: true, name: true } } },
+    });
+
+    return reply.status(201).send(formatAnnotation(annotation));
+  });
+
+  // PATCH /v1/photos/:id/annotations/:annotationId - Replace a shape (move, resize, recolor)
+  fastify.patch('/:id/annotations/:annotationId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, annotationId } = request.params as { id: string; annotationId: string };
+    const body = annotationBodySchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const result = await findEditableAnnotation(prisma, id, annotationId, userId);
+    if ('error' in result) {
+      return reply.status(result.status).send({ error: result.error });
+    }
+
+    const annotation = await prisma.annotation.update({
+      where: { id: annotationId },
+      data: { shape: body.shape },
+      include: { author: { select: { id: true, name: true } } },
+    });
+
+    return formatAnnotation(annotation);
+  });
+
+  // DELETE /v1/photos/:id/annotations/:annotationId - Remove a shape
+  fastify.delete('/:id/annotations/:annotationId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, annotationId } = request.params as { id: string; annotationId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const result = await findEditableAnnotation(prisma, id, annotationId, userId);
+    if ('error' in result) {
+      return reply.status(result.status).send({ error: result.error });
+    }
+
+    await prisma.annotation.delete({ where: { id: annotationId } });
+
+    return { success: true };
+  });
+}
+
+async function findPhotoWithMembers(prisma: any, id: string) {
+  return prisma.photo.findUnique({
+    where: { id },
+    include: { project: { include: { members: true } } },
+  });
+}
+
+// Authors can edit their own shapes; project admins can edit any
+async function findEditableAnnotation(
+  prisma: any,
+  photoId: string,
+  annotationId: string,
+  userId: string
+): Promise<{ annotation: any } | { status: number; error: string }> {
+  const photo = await findPhotoWithMembers(prisma, photoId);
+  if (!photo) {
+    return { status: 404, error: 'Photo not found' };
+  }
+
+  const annotation = await prisma.annotation.findFirst({
+    where: { id: annotationId, photoId },
+  });
+
+  if (!annotation) {
+    return { status: 404, error: 'Annotation not found' };
+  }
+
+  const member = photo.project.members.find((m: any) => m.userId === userId);
+  const canEdit = member && member.role !== 'VIEWER' && (annotation.authorId === userId || member.role === 'ADMIN');
+  if (!canEdit) {
+    return { status: 403, error: 'Not authorized to change this annotation' };
+  }
+
+  return { annotation };
+}
+
+function formatAnnotation(annotation: any) {
+  return {
+    id: annotation.id,
+    photoId: annotation.photoId,
+    authorId: annotation.author.id,
+    authorName: annotation.author.name,
+    shape: annotation.shape,
+    createdAt: annotation.createdAt,
+    updatedAt: annotation.updatedAt,
+  };
+}
@@ -2,11 +2,18 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { authenticate } from '../middleware/auth.js';
+import { createAccountTokenService } from '../services/account-tokens.js';
+import { AppleIdentity, AppleTokenError, verifyAppleIdentityToken } from '../services/apple-auth.js';
+import { SEND_EMAIL_JOB } from '../services/email.js';
+import { passwordResetEmail, verifyEmailEmail, webUrl } from '../services/email-templates.js';
+import { createInvitationService } from '../services/invitations.js';
 
 const registerSchema = z.object({
   email: z.string().email(),
   password: z.string().min(8),
   name: z.string().min(1),
+  // From the invitation link, in case they sign up with a different address
+  inviteToken: z.string().optional(),
 });
 
 const loginSchema = z.object({
@@ -16,10 +23,17 @@ const loginSchema = z.object({
 
 const appleSignInSchema = z.object({
   identityToken: z.string(),
+  // The raw nonce the app started Sign in with Apple with
+  nonce: z.string().optional(),
   name: z.string().optional(),
   email: z.string().email().optional(),
 });
 
+const appleLinkSchema = z.object({
+  identityToken: z.string(),
+  nonce: z.string().optional(),
+});
+
 const changePasswordSchema = z.object({
   currentPassword: z.string(),
   newPassword: z.string().min(8),
@@ -30,7 +44,46 @@ const updateProfileSchema = z.object({
   email: z.string().email().optional(),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+});
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
 export async function authRoutes(fastify: FastifyInstance) {
+  const invitationService = createInvitationService((fastify as any).prisma);
+  const accountTokenService = createAccountTokenService((fastify as any).prisma);
+
+  async function sendVerificationEmail(user: { id: string; email: string; name: string }) {
+    const token = await accountTokenService.issue(user.id, 'EMAIL_VERIFICATION', user.email);
+
+    await (fastify as any).jobQueue.enqueue(SEND_EMAIL_JOB, {
+      message: {
+        to: user.email,
+        ...verifyEmailEmail({ name: user.name, url: webUrl(`/verify-email?token=${token}`) }),
+      },
+      category: 'account',
+    });
+  }
+
+  // Null when the token is not a genuine, current Apple token for this app
+  async function verifyAppleToken(identityToken: string, nonce?: string): Promise<AppleIdentity | null> {
+    try {
+      return await verifyAppleIdentityToken(identityToken, nonce);
+    } catch (error) {
+      if (!(error instanceof AppleTokenError)) throw error;
+      fastify.log.warn({ reason: error.message }, 'Rejected Apple identity token');
+      return null;
+    }
+  }
+
   fastify.post('/register', async (request: FastifyRequest, reply: FastifyReply) => {
     const body = registerSchema.parse(request.body);
     const prisma = (fastify as any).prisma;
@@ -45,7 +98,7 @@ export async function authRoutes(fastify: FastifyInstance) {
 
     const hashedPassword = await bcrypt.hash(body.password, 12);
 
-    const user = await prisma.user.create({
+    let user = await prisma.user.create({
       data: {
         email: body.email,
         password: hashedPassword,
@@ -53,6 +106,25 @@ export async function authRoutes(fastify: FastifyInstance) {
       },
     });
 
+    const invitations = await invitationService.acceptPendingInvitations(user, body.inviteToken);
+
+    // Signing up from an invitation sent to this address already proves they own it
+    const invitedHere = invitations.some(
+      (invitation) => invitation.token === body.inviteToken && invitation.email === user.email.toLowerCase()
+    );
+
+    if (invitedHere) {
+      user = await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() },
+      });
+
+      // Now the address is verified, team invitations sent to it apply too
+      await invitationService.acceptPendingInvitations(user);
+    } else {
+      await sendVerificationEmail(user);
+    }
+
     const { accessToken, refreshToken } = await generateTokens(fastify, prisma, user.id);
 
     return {
@@ -63,6 +135,7 @@ export async function authRoutes(fastify: FastifyInstance) {
         email: user.email,
         name: user.name,
         avatarUrl: user.avatarUrl,
+        emailVerified: user.emailVerifiedAt !== null,
         createdAt: user.createdAt,
       },
     };
@@ -95,6 +168,7 @@ export async function authRoutes(fastify: FastifyInstance) {
         email: user.email,
         name: user.name,
         avatarUrl: user.avatarUrl,
+        emailVerified: user.emailVerifiedAt !== null,
         createdAt: user.createdAt,
       },
     };
@@ -104,28 +178,57 @@ export async function authRoutes(fastify: FastifyInstance) {
     const body = appleSignInSchema.parse(request.body);
     const prisma = (fastify as any).prisma;
 
-    const appleId = extractAppleIdFromToken(body.identityToken);
-    
-    if (!appleId) {
-      return reply.status(400).send({ error: 'Invalid Apple identity token' });
+    const identity = await verifyAppleToken(body.identityToken, body.nonce);
+
+    if (!identity) {
+      return reply.status(401).send({ error: 'Invalid Apple identity token', code: 'INVALID_APPLE_TOKEN' });
     }
 
     let user = await prisma.user.findUnique({
-      where: { appleId },
+      where: { appleId: identity.appleId },
     });
 
     if (!user) {
-      if (!body.email) {
+      // The token's address is signed by Apple; the one in the body is only what the app says
+      const email = identity.email ?? body.email;
+
+      if (!email) {
         return reply.status(400).send({ error: 'Email required for first sign in' });
       }
 
-      user = await prisma.user.create({
-        data: {
-          appleId,
-          email: body.email,
-          name: body.name || 'Apple User',
-        },
+      const existingUser = await prisma.user.findUnique({
+        where: { email },
       });
+
+      if (existingUser) {
+        // Only join the two when Apple and we have each confirmed the same person owns the address
+        if (!identity.emailVerified || identity.email !== email || !existingUser.emailVerifiedAt || existingUser.appleId) {
+          return reply.status(409).send({
+            error: 'An account with this email already exists. Sign in with your email and password instead.',
+            code: 'ACCOUNT_EXISTS',
+          });
+        }
+
+        user = await prisma.user.update({
+          where: { id: existingUser.id },
+          data: { appleId: identity.appleId },
+        });
+      } else {
+        user = await prisma.user.create({
+          data: {
+            appleId: identity.appleId,
+            email,
+            name: body.name || 'Apple User',
+            emailVerifiedAt: identity.emailVerified && identity.email === email ? new Date() : null,
+          },
+        });
+
+        await invitationService.acceptPendingInvitations(user);
+
+        if (!user.emailVerifiedAt) {
+          await sendVerificationEmail(user);
+        }
+      }
     }
 
     const { accessToken, refreshToken } = await generateTokens(fastify, prisma, user.id);
@@ -138,11 +241,90 @@ export async function authRoutes(fastify: FastifyInstance) {
         email: user.email,
         name: user.name,
         avatarUrl: user.avatarUrl,
+        emailVerified: user.emailVerifiedAt !== null,
         createdAt: user.createdAt,
       },
     };
   });
 
+  // POST /v1/auth/apple/link - Attach an Apple ID to the signed-in account
+  fastify.post('/apple/link', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = appleLinkSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const identity = await verifyAppleToken(body.identityToken, body.nonce);
+
+    if (!identity) {
+      return reply.status(401).send({ error: 'Invalid Apple identity token', code: 'INVALID_APPLE_TOKEN' });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return reply.status(404).send({ error: 'User not found' });
+    }
+
+    if (user.appleId === identity.appleId) {
+      return { success: true, appleLinked: true };
+    }
+
+    if (user.appleId) {
+      return reply.status(409).send({
+        error: 'Your account is already linked to a different Apple ID. Unlink it first.',
+        code: 'APPLE_ALREADY_LINKED',
+      });
+    }
+
+    const linkedUser = await prisma.user.findUnique({
+      where: { appleId: identity.appleId },
+    });
+
+    if (linkedUser) {
+      return reply.status(409).send({
+        error: 'This Apple ID is already used by another account',
+        code: 'APPLE_ID_IN_USE',
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { appleId: identity.appleId },
+    });
+
+    return { success: true, appleLinked: true };
+  });
+
+  // DELETE /v1/auth/apple/link - Detach the Apple ID; the account must still have a password
+  fastify.delete('/apple/link', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return reply.status(404).send({ error: 'User not found' });
+    }
+
+    if (!user.password) {
+      return reply.status(400).send({
+        error: 'Sign in with Apple is the only way into this account. Set a password before unlinking it.',
+        code: 'APPLE_ACCOUNT',
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { appleId: null },
+    });
+
+    return { success: true, appleLinked: false };
+  });
+
   fastify.post('/refresh', async (request: FastifyRequest, reply: FastifyReply) => {
     const { refreshToken: token } = request.body as { refreshToken: string };
     const prisma = (fastify as any).prisma;
@@ -189,6 +371,8 @@ export async function authRoutes(fastify: FastifyInstance) {
         email: true,
         name: true,
         avatarUrl: true,
+        emailVerifiedAt: true,
+        appleId: true,
         subscriptionTier: true,
         subscriptionExpiresAt: true,
         createdAt: true,
@@ -203,8 +387,12 @@ export async function authRoutes(fastify: FastifyInstance) {
     const isPro = user.subscriptionTier !== 'FREE' && 
       (!user.subscriptionExpiresAt || user.subscriptionExpiresAt > new Date());
 
+    const { appleId, ...profile } = user;
+
     return {
-      ...user,
+      ...profile,
+      emailVerified: user.emailVerifiedAt !== null,
+      appleLinked: appleId !== null,
       isPro,
     };
   });
@@ -214,7 +402,18 @@ export async function authRoutes(fastify: FastifyInstance) {
     const prisma = (fastify as any).prisma;
     const userId = (request as any).userId;
 
-    if (body.email) {
+    const currentUser = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true },
+    });
+
+    if (!currentUser) {
+      return reply.status(404).send({ error: 'User not found' });
+    }
+
+    const emailChanged = !!body.email && body.email !== currentUser.email;
+
+    if (emailChanged) {
       const existingUser = await prisma.user.findFirst({
         where: {
           email: body.email,
@@ -231,19 +430,146 @@ export async function authRoutes(fastify: FastifyInstance) {
       where: { id: userId },
       data: {
         ...(body.name && { name: body.name }),
-        ...(body.email && { email: body.email }),
+        // A new address is unverified until its confirmation link is opened
+        ...(emailChanged && { email: body.email, emailVerifiedAt: null }),
       },
       select: {
         id: true,
         email: true,
         name: true,
         avatarUrl: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
       },
     });
 
-    return user;
+    if (emailChanged) {
+      await sendVerificationEmail(user);
+    }
+
+    return {
+      ...user,
+      emailVerified: user.emailVerifiedAt !== null,
+    };
+  });
+
+  // POST /v1/auth/forgot-password - Email a reset link; the response never says whether the account exists
+  fastify.post('/forgot-password', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = forgotPasswordSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+
+    const user = await prisma.user.findUnique({
+      where: { email: body.email },
+    });
+
+    // Apple Sign-In accounts have no password to reset
+    if (user && user.password) {
+      const token = await accountTokenService.issue(user.id, 'PASSWORD_RESET', user.email);
+
+      await (fastify as any).jobQueue.enqueue(SEND_EMAIL_JOB, {
+        message: {
+          to: user.email,
+          ...passwordResetEmail({ name: user.name, url: webUrl(`/reset-password?token=${token}`) }),
+        },
+        category: 'account',
+      });
+    }
+
+    return {
+      success: true,
+      message: 'If an account exists for that email, we have sent a link to reset the password.',
+    };
+  });
+
+  // POST /v1/auth/reset-password - Set a new password from an emailed link
+  fastify.post('/reset-password', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = resetPasswordSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+
+    const token = await accountTokenService.consume(body.token, 'PASSWORD_RESET');
+
+    if (!token) {
+      return reply.status(400).send({
+        error: 'This reset link is invalid or has expired. Please request a new one.',
+        code: 'INVALID_TOKEN',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: token.userId },
+    });
+
+    const hashedPassword = await bcrypt.hash(body.password, 12);
+    const verifiesEmail = user.email === token.email && !user.emailVerifiedAt;
+    const updatedUser = await prisma.user.update({
+      where: { id: token.userId },
+      data: {
+        password: hashedPassword,
+        // The link reached their inbox, which is as good as verifying it
+        ...(verifiesEmail && { emailVerifiedAt: new Date() }),
+      },
+    });
+
+    if (verifiesEmail) {
+      await invitationService.acceptPendingInvitations(updatedUser);
+    }
+
+    // Whoever had the old password is signed out everywhere
+    await prisma.refreshToken.deleteMany({ where: { userId: token.userId } });
+
+    return { success: true, message: 'Password reset successfully. Please sign in with your new password.' };
+  });
+
+  // POST /v1/auth/verify-email - Confirm an address from an emailed link
+  fastify.post('/verify-email', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = verifyEmailSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+
+    const token = await accountTokenService.consume(body.token, 'EMAIL_VERIFICATION');
+
+    // Verifying an address the account has since moved away from would verify the new one unseen
+    const updated = token
+      ? await prisma.user.updateMany({
+          where: { id: token.userId, email: token.email },
+          data: { emailVerifiedAt: new Date() },
+        })
+      : { count: 0 };
+
+    if (updated.count === 0) {
+      return reply.status(400).send({
+        error: 'This verification link is invalid or has expired.',
+        code: 'INVALID_TOKEN',
+      });
+    }
+
+    // Team invitations sent to this address were held until now
+    const user = await prisma.user.findUnique({ where: { id: token!.userId } });
+    await invitationService.acceptPendingInvitations(user);
+
+    return { success: true, email: token!.email };
+  });
+
+  // POST /v1/auth/verify-email/resend - Send a fresh verification link to the current address
+  fastify.post('/verify-email/resend', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return reply.status(404).send({ error: 'User not found' });
+    }
+
+    if (user.emailVerifiedAt) {
+      return reply.status(400).send({ error: 'Email is already verified', code: 'ALREADY_VERIFIED' });
+    }
+
+    await sendVerificationEmail(user);
+
+    return { success: true };
   });
 
   fastify.patch('/password', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
@@ -374,15 +700,3 @@ async function generateTokens(fastify: FastifyInstance, prisma: any, userId: str
 
   return { accessToken, refreshToken };
 }
-
-function extractAppleIdFromToken(identityToken: string): string | null {
-  try {
-    const parts = identityToken.split('.');
-    if (parts.length !== 3) return null;
-    
-    const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-    return payload.sub || null;
-  } catch {
-    return null;
-  }
-}
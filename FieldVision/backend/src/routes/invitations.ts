@@ -0,0 +1,123 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { authenticate } from '../middleware/auth.js';
+import { createInvitationService, formatInvitation, InvitationWithNames } from '../services/invitations.js';
+import { SEND_PUSH_JOB } from '../services/push.js';
+
+export async function invitationRoutes(fastify: FastifyInstance) {
+  const invitationService = createInvitationService((fastify as any).prisma);
+
+  fastify.addHook('preHandler', authenticate);
+
+  // Tells the inviter whether their invitation was taken up
+  async function notifyInviter(invitation: InvitationWithNames, inviteeName: string, accepted: boolean) {
+    const projectName = invitation.project!.name;
+
+    await (fastify as any).jobQueue.enqueue(SEND_PUSH_JOB, {
+      userId: invitation.invitedById,
+      notification: {
+        title: accepted ? 'Invitation Accepted' : 'Invitation Declined',
+        body: accepted
+          ? `${inviteeName} joined "${projectName}"`
+          : `${inviteeName} declined your invitation to "${projectName}"`,
+        data: {
+          type: 'invite_response',
+          projectId: invitation.projectId!,
+          projectName,
+          invitationId: invitation.id,
+        },
+      },
+    });
+  }
+
+  // Invitations go by email, so they wait until the user has shown the address is theirs
+  function sendEmailNotVerified(reply: FastifyReply) {
+    return reply.status(403).send({
+      error: 'Verify your email address to see your invitations',
+      code: 'EMAIL_NOT_VERIFIED',
+    });
+  }
+
+  // GET /v1/invitations - Project invitations waiting on the current user
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, emailVerifiedAt: true },
+    });
+
+    if (!user) {
+      return reply.status(404).send({ error: 'User not found' });
+    }
+
+    if (!user.emailVerifiedAt) {
+      return sendEmailNotVerified(reply);
+    }
+
+    const invitations = await invitationService.listForEmail(user);
+    return invitations.map(formatInvitation);
+  });
+
+  // POST /v1/invitations/:id/accept - Join the project
+  fastify.post('/:id/accept', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, emailVerifiedAt: true, name: true },
+    });
+
+    if (user && !user.emailVerifiedAt) {
+      return sendEmailNotVerified(reply);
+    }
+
+    const invitation = user && (await invitationService.findPendingForEmail(id, user));
+
+    if (!invitation || !invitation.projectId) {
+      return reply.status(404).send({ error: 'Invitation not found or expired' });
+    }
+
+    await invitationService.accept(invitation, userId);
+    await notifyInviter(invitation, user.name, true);
+
+    const member = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId: invitation.projectId, userId } },
+    });
+
+    return {
+      projectId: invitation.projectId,
+      projectName: invitation.project!.name,
+      role: member.role,
+    };
+  });
+
+  // POST /v1/invitations/:id/decline - Turn the invitation down
+  fastify.post('/:id/decline', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, emailVerifiedAt: true, name: true },
+    });
+
+    if (user && !user.emailVerifiedAt) {
+      return sendEmailNotVerified(reply);
+    }
+
+    const invitation = user && (await invitationService.findPendingForEmail(id, user));
+
+    if (!invitation || !invitation.projectId) {
+      return reply.status(404).send({ error: 'Invitation not found or expired' });
+    }
+
+    await invitationService.decline(invitation);
+    await notifyInviter(invitation, user.name, false);
+
+    return { success: true };
+  });
+}
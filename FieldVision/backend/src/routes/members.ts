@@ -1,6 +1,10 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { MemberRole } from '@prisma/client';
 import { z } from 'zod';
 import { authenticate } from '../middleware/auth.js';
+import { SEND_EMAIL_JOB } from '../services/email.js';
+import { createInvitationService, formatInvitation, InvitationWithNames } from '../services/invitations.js';
+import { SEND_PUSH_JOB } from '../services/push.js';
 
 const inviteMemberSchema = z.object({
   email: z.string().email(),
@@ -19,6 +23,48 @@ const bulkInviteSchema = z.object({
 });
 
 export async function memberRoutes(fastify: FastifyInstance) {
+  const invitationService = createInvitationService((fastify as any).prisma);
+
+  async function createInvitation(
+    email: string,
+    role: MemberRole,
+    projectId: string,
+    invitedById: string,
+    inviteeId: string | null
+  ): Promise<InvitationWithNames> {
+    const { invitation, message } = await invitationService.invite({
+      email,
+      projectId,
+      role,
+      invitedById,
+      hasAccount: inviteeId !== null,
+    });
+
+    if (inviteeId) {
+      await (fastify as any).jobQueue.enqueue(SEND_PUSH_JOB, {
+        userId: inviteeId,
+        notification: {
+          title: 'Project Invitation',
+          body: `${invitation.invitedBy.name} invited you to join "${invitation.project!.name}"`,
+          data: {
+            type: 'project_invite',
+            projectId,
+            projectName: invitation.project!.name,
+            invitationId: invitation.id,
+          },
+        },
+      });
+    }
+
+    await (fastify as any).jobQueue.enqueue(SEND_EMAIL_JOB, {
+      message,
+      category: 'invitations',
+      userId: inviteeId ?? undefined,
+    });
+
+    return invitation;
+  }
+
   fastify.addHook('preHandler', authenticate);
 
   fastify.get('/:projectId/members', async (request: FastifyRequest, reply: FastifyReply) => {
@@ -79,71 +125,20 @@ export async function memberRoutes(fastify: FastifyInstance) {
       where: { email: body.email },
     });
 
-    if (!userToInvite) {
-      return reply.status(404).send({
-        error: 'User not found. They need to create an account first.',
-        code: 'USER_NOT_FOUND'
+    if (userToInvite) {
+      const existingMember = await prisma.projectMember.findFirst({
+        where: { projectId, userId: userToInvite.id },
       });
-    }
-
-    const existingMember = await prisma.projectMember.findFirst({
-      where: { projectId, userId: userToInvite.id },
-    });
 
-    if (existingMember) {
-      return reply.status(400).send({ error: 'User is already a member of this project' });
+      if (existingMember) {
+        return reply.status(400).send({ error: 'User is already a member of this project' });
+      }
     }
 
-    const project = await prisma.project.findUnique({
-      where: { id: projectId },
-      select: { name: true },
-    });
+    // They join once they accept; people without an account are emailed a sign-up link
+    const invitation = await createInvitation(body.email, body.role, projectId, userId, userToInvite?.id ?? null);
 
-    const inviter = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { name: true },
-    });
-
-    const newMember = await prisma.projectMember.create({
-      data: {
-        projectId,
-        userId: userToInvite.id,
-        role: body.role,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatarUrl: true,
-          },
-        },
-      },
-    });
-
-    const pushService = (fastify as any).pushService;
-    if (pushService && project && inviter) {
-      await pushService.sendToUser(userToInvite.id, {
-        title: 'Project Invitation',
-        body: `${inviter.name} invited you to join "${project.name}"`,
-        data: {
-          type: 'project_invite',
-          projectId,
-          projectName: project.name,
-        },
-      });
-    }
-
-    return {
-      id: newMember.id,
-      userId: newMember.user.id,
-      name: newMember.user.name,
-      email: newMember.user.email,
-      avatarUrl: newMember.user.avatarUrl,
-      role: newMember.role,
-      invitedAt: newMember.invitedAt,
-    };
+    return reply.status(202).send({ invitation: formatInvitation(invitation) });
   });
 
   fastify.patch('/:projectId/members/:memberId', async (request: FastifyRequest, reply: FastifyReply) => {
@@ -242,6 +237,49 @@ export async function memberRoutes(fastify: FastifyInstance) {
     return { success: true };
   });
 
+  // GET /:projectId/invitations - Pending invitations, shown alongside the members
+  fastify.get('/:projectId/invitations', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const invitations = await invitationService.listForProject(projectId);
+    return invitations.map(formatInvitation);
+  });
+
+  // DELETE /:projectId/invitations/:invitationId - Withdraw a pending invitation
+  fastify.delete('/:projectId/invitations/:invitationId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId, invitationId } = request.params as { projectId: string; invitationId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const adminMember = await prisma.projectMember.findFirst({
+      where: { projectId, userId, role: 'ADMIN' },
+    });
+
+    if (!adminMember) {
+      return reply.status(403).send({ error: 'Only admins can withdraw invitations' });
+    }
+
+    const { count } = await prisma.invitation.deleteMany({
+      where: { id: invitationId, projectId, status: 'PENDING' },
+    });
+
+    if (count === 0) {
+      return reply.status(404).send({ error: 'Invitation not found' });
+    }
+
+    return { success: true };
+  });
+
   // POST /:projectId/members/bulk - Invite multiple members at once
   fastify.post('/:projectId/members/bulk', async (request: FastifyRequest, reply: FastifyReply) => {
     const { projectId } = request.params as { projectId: string };
@@ -258,21 +296,11 @@ export async function memberRoutes(fastify: FastifyInstance) {
       return reply.status(403).send({ error: 'Only admins can invite members' });
     }
 
-    const project = await prisma.project.findUnique({
-      where: { id: projectId },
-      select: { name: true },
-    });
-
-    const inviter = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { name: true },
-    });
-
     const results: Array<{
       email: string;
       success: boolean;
       error?: string;
-      member?: any;
+      invitation?: ReturnType<typeof formatInvitation>;
     }> = [];
 
     for (const invite of body.invites) {
@@ -281,72 +309,27 @@ export async function memberRoutes(fastify: FastifyInstance) {
           where: { email: invite.email },
         });
 
-        if (!userToInvite) {
-          results.push({
-            email: invite.email,
-            success: false,
-            error: 'User not found. They need to create an account first.',
+        if (userToInvite) {
+          const existingMember = await prisma.projectMember.findFirst({
+            where: { projectId, userId: userToInvite.id },
           });
-          continue;
-        }
-
-        const existingMember = await prisma.projectMember.findFirst({
-          where: { projectId, userId: userToInvite.id },
-        });
 
-        if (existingMember) {
-          results.push({
-            email: invite.email,
-            success: false,
-            error: 'User is already a member of this project',
-          });
-          continue;
+          if (existingMember) {
+            results.push({
+              email: invite.email,
+              success: false,
+              error: 'User is already a member of this project',
+            });
+            continue;
+          }
         }
 
-        const newMember = await prisma.projectMember.create({
-          data: {
-            projectId,
-            userId: userToInvite.id,
-            role: invite.role,
-          },
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                avatarUrl: true,
-              },
-            },
-          },
-        });
-
-        // Send push notification
-        const pushService = (fastify as any).pushService;
-        if (pushService && project && inviter) {
-          await pushService.sendToUser(userToInvite.id, {
-            title: 'Project Invitation',
-            body: `${inviter.name} invited you to join "${project.name}"`,
-            data: {
-              type: 'project_invite',
-              projectId,
-              projectName: project.name,
-            },
-          });
-        }
+        const invitation = await createInvitation(invite.email, invite.role, projectId, userId, userToInvite?.id ?? null);
 
         results.push({
           email: invite.email,
           success: true,
-          member: {
-            id: newMember.id,
-            userId: newMember.user.id,
-            name: newMember.user.name,
-            email: newMember.user.email,
-            avatarUrl: newMember.user.avatarUrl,
-            role: newMember.role,
-            invitedAt: newMember.invitedAt,
-          },
+          invitation: formatInvitation(invitation),
         });
       } catch (err) {
         results.push({
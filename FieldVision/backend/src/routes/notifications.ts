@@ -12,6 +12,8 @@ interface PreferencesBody {
   newComments?: boolean;
   projectInvites?: boolean;
   syncComplete?: boolean;
+  emailInvitations?: boolean;
+  emailReports?: boolean;
 }
 
 export async function notificationRoutes(fastify: FastifyInstance) {
@@ -64,6 +66,8 @@ export async function notificationRoutes(fastify: FastifyInstance) {
       newComments: prefs.newComments,
       projectInvites: prefs.projectInvites,
       syncComplete: prefs.syncComplete,
+      emailInvitations: prefs.emailInvitations,
+      emailReports: prefs.emailReports,
     };
   });
 
@@ -71,7 +75,7 @@ export async function notificationRoutes(fastify: FastifyInstance) {
     '/preferences',
     async (request, reply) => {
       const userId = (request.user as { id: string }).id;
-      const { newPhotos, newComments, projectInvites, syncComplete } = request.body;
+      const { newPhotos, newComments, projectInvites, syncComplete, emailInvitations, emailReports } = request.body;
 
       const prefs = await (fastify as any).prisma.notificationPreferences.upsert({
         where: { userId },
@@ -80,6 +84,8 @@ export async function notificationRoutes(fastify: FastifyInstance) {
           ...(newComments !== undefined && { newComments }),
           ...(projectInvites !== undefined && { projectInvites }),
           ...(syncComplete !== undefined && { syncComplete }),
+          ...(emailInvitations !== undefined && { emailInvitations }),
+          ...(emailReports !== undefined && { emailReports }),
         },
         create: {
           userId,
@@ -87,6 +93,8 @@ export async function notificationRoutes(fastify: FastifyInstance) {
           newComments: newComments ?? true,
           projectInvites: projectInvites ?? true,
           syncComplete: syncComplete ?? false,
+          emailInvitations: emailInvitations ?? true,
+          emailReports: emailReports ?? true,
         },
       });
 
@@ -95,6 +103,8 @@ export async function notificationRoutes(fastify: FastifyInstance) {
         newComments: prefs.newComments,
         projectInvites: prefs.projectInvites,
         syncComplete: prefs.syncComplete,
+        emailInvitations: prefs.emailInvitations,
+        emailReports: prefs.emailReports,
       };
     }
   );
@@ -0,0 +1,299 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth.js';
+import { distanceMeters, hasLocation } from '../lib/geo.js';
+
+const createPairSchema = z.object({
+  beforePhotoId: z.string().uuid(),
+  afterPhotoId: z.string().uuid(),
+  label: z.string().trim().max(200).optional(),
+});
+
+const updatePairSchema = z.object({
+  label: z.string().trim().max(200).nullable(),
+});
+
+const suggestionQuerySchema = z.object({
+  // Only suggest partners for this photo; otherwise suggest across the whole project
+  photoId: z.string().uuid().optional(),
+  radius: z.coerce.number().min(1).max(500).default(15),
+  minGapHours: z.coerce.number().min(0).max(24 * 365).default(12),
+  limit: z.coerce.number().min(1).max(50).default(20),
+});
+
+const pairPhotoSelect = {
+  id: true,
+  folderId: true,
+  capturedAt: true,
+  latitude: true,
+  longitude: true,
+  remoteUrl: true,
+  thumbnailUrl: true,
+  previewUrl: true,
+  note: true,
+};
+
+export async function photoPairRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', authenticate);
+
+  // GET /v1/projects/:projectId/photo-pairs - Before/after pairs, newest first
+  fastify.get('/:projectId/photo-pairs', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const pairs = await prisma.photoPair.findMany({
+      where: { projectId },
+      include: {
+        beforePhoto: { select: pairPhotoSelect },
+        afterPhoto: { select: pairPhotoSelect },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return { data: pairs.map(formatPair) };
+  });
+
+  // POST /v1/projects/:projectId/photo-pairs - Link a before photo to an after photo
+  fastify.post('/:projectId/photo-pairs', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const body = createPairSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to pair photos in this project' });
+    }
+
+    if (body.beforePhotoId === body.afterPhotoId) {
+      return reply.status(400).send({ error: 'A photo cannot be paired with itself' });
+    }
+
+    const photoCount = await prisma.photo.count({
+      where: { id: { in: [body.beforePhotoId, body.afterPhotoId] }, projectId },
+    });
+
+    if (photoCount !== 2) {
+      return reply.status(400).send({ error: 'Both photos must belong to this project' });
+    }
+
+    const existing = await prisma.photoPair.findFirst({
+      where: {
+        OR: [
+          { beforePhotoId: body.beforePhotoId, afterPhotoId: body.afterPhotoId },
+          { beforePhotoId: body.afterPhotoId, afterPhotoId: body.beforePhotoId },
+        ],
+      },
+    });
+
+    if (existing) {
+      return reply.status(409).send({ error: 'These photos are already paired', code: 'PAIR_EXISTS' });
+    }
+
+    const pair = await prisma.photoPair.create({
+      data: {
+        projectId,
+        beforePhotoId: body.beforePhotoId,
+        afterPhotoId: body.afterPhotoId,
+        label: body.label || null,
+        createdById: userId,
+      },
+      include: {
+        beforePhoto: { select: pairPhotoSelect },
+        afterPhoto: { select: pairPhotoSelect },
+      },
+    });
+
+    return reply.status(201).send(formatPair(pair));
+  });
+
+  // GET /v1/projects/:projectId/photo-pairs/suggestions - Likely before/after pairs
+  // Photos taken near each other (GPS) or filed in the same folder, at least
+  // minGapHours apart, ranked closest first. Same-folder matches count double.
+  fastify.get('/:projectId/photo-pairs/suggestions', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const query = suggestionQuerySchema.parse(request.query);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const [photos, pairs] = await Promise.all([
+      prisma.photo.findMany({
+        where: { projectId, mediaType: 'PHOTO' },
+        select: pairPhotoSelect,
+        orderBy: { capturedAt: 'asc' },
+      }),
+      prisma.photoPair.findMany({
+        where: { projectId },
+        select: { beforePhotoId: true, afterPhotoId: true },
+      }),
+    ]);
+
+    const pairedKeys = new Set(pairs.map((p: any) => pairKey(p.beforePhotoId, p.afterPhotoId)));
+    const pairedPhotoIds = new Set(pairs.flatMap((p: any) => [p.beforePhotoId, p.afterPhotoId]));
+
+    let candidates: Candidate[];
+
+    if (query.photoId) {
+      const target = photos.find((p: any) => p.id === query.photoId);
+      if (!target) {
+        return reply.status(404).send({ error: 'Photo not found' });
+      }
+
+      candidates = photos
+        .filter((p: any) => p.id !== target.id && !pairedKeys.has(pairKey(p.id, target.id)))
+        .map((p: any) => scoreCandidate(target, p, query.radius, query.minGapHours))
+        .filter((c: Candidate | null): c is Candidate => c !== null);
+      candidates.sort((a, b) => a.score - b.score);
+    } else {
+      // Already-paired photos are done; pair the rest greedily, closest first
+      const unpaired = photos.filter((p: any) => !pairedPhotoIds.has(p.id));
+      const all: Candidate[] = [];
+      for (let i = 0; i < unpaired.length; i++) {
+        for (let j = i + 1; j < unpaired.length; j++) {
+          const candidate = scoreCandidate(unpaired[i], unpaired[j], query.radius, query.minGapHours);
+          if (candidate) all.push(candidate);
+        }
+      }
+      all.sort((a, b) => a.score - b.score);
+
+      const used = new Set<string>();
+      candidates = [];
+      for (const candidate of all) {
+        if (used.has(candidate.before.id) || used.has(candidate.after.id)) continue;
+        used.add(candidate.before.id);
+        used.add(candidate.after.id);
+        candidates.push(candidate);
+      }
+    }
+
+    return {
+      data: candidates.slice(0, query.limit).map((c) => ({
+        beforePhoto: c.before,
+        afterPhoto: c.after,
+        distanceMeters: c.distance === null ? null : Math.round(c.distance * 10) / 10,
+        sameFolder: c.sameFolder,
+      })),
+    };
+  });
+
+  // PATCH /v1/projects/:projectId/photo-pairs/:pairId - Rename a pair
+  fastify.patch('/:projectId/photo-pairs/:pairId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId, pairId } = request.params as { projectId: string; pairId: string };
+    const body = updatePairSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to pair photos in this project' });
+    }
+
+    const { count } = await prisma.photoPair.updateMany({
+      where: { id: pairId, projectId },
+      data: { label: body.label || null },
+    });
+
+    if (count === 0) {
+      return reply.status(404).send({ error: 'Photo pair not found' });
+    }
+
+    const pair = await prisma.photoPair.findUnique({
+      where: { id: pairId },
+      include: {
+        beforePhoto: { select: pairPhotoSelect },
+        afterPhoto: { select: pairPhotoSelect },
+      },
+    });
+
+    return formatPair(pair);
+  });
+
+  // DELETE /v1/projects/:projectId/photo-pairs/:pairId - Unlink a pair (photos are kept)
+  fastify.delete('/:projectId/photo-pairs/:pairId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId, pairId } = request.params as { projectId: string; pairId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to pair photos in this project' });
+    }
+
+    const { count } = await prisma.photoPair.deleteMany({ where: { id: pairId, projectId } });
+    if (count === 0) {
+      return reply.status(404).send({ error: 'Photo pair not found' });
+    }
+
+    return { success: true };
+  });
+}
+
+interface Candidate {
+  before: any;
+  after: any;
+  distance: number | null;
+  sameFolder: boolean;
+  score: number;
+}
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+// Returns null when the photos are too close in time or too far apart to be a pair
+function scoreCandidate(a: any, b: any, radius: number, minGapHours: number): Candidate | null {
+  const gapHours = Math.abs(b.capturedAt.getTime() - a.capturedAt.getTime()) / 3600000;
+  if (gapHours < minGapHours) return null;
+
+  const [before, after] = a.capturedAt <= b.capturedAt ? [a, b] : [b, a];
+  const sameFolder = a.folderId !== null && a.folderId === b.folderId;
+
+  if (hasLocation(a) && hasLocation(b)) {
+    const distance = distanceMeters(a, b);
+    if (distance > radius) return null;
+    return { before, after, distance, sameFolder, score: sameFolder ? distance / 2 : distance };
+  }
+
+  // Without GPS the folder is the only hint; rank these after every location match
+  if (!sameFolder) return null;
+  return { before, after, distance: null, sameFolder, score: radius + 1 };
+}
+
+function formatPair(pair: any) {
+  return {
+    id: pair.id,
+    projectId: pair.projectId,
+    label: pair.label,
+    beforePhoto: pair.beforePhoto,
+    afterPhoto: pair.afterPhoto,
+    createdById: pair.createdById,
+    createdAt: pair.createdAt,
+    updatedAt: pair.updatedAt,
+  };
+}
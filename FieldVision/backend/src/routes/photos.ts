@@ -1,15 +1,23 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { authenticate, checkSubscriptionLimits, requirePro, FREE_TIER_LIMITS } from '../middleware/auth.js';
+import { authenticate, checkSubscriptionLimits, FREE_TIER_LIMITS } from '../middleware/auth.js';
 import { getStorageService } from '../services/storage.js';
-import { TranscriptionService } from '../services/transcription.js';
+import { PROCESS_PHOTO_JOB } from '../services/media.js';
+import { adoptLegacyVoiceNote } from '../services/transcription.js';
+import { formatPhotoTags, photoTagsInclude } from '../lib/tags.js';
+
+const voiceNotesQuery = {
+  include: { author: { select: { id: true, name: true, avatarUrl: true } } },
+  orderBy: { createdAt: 'asc' as const },
+};
 
 const createPhotoSchema = z.object({
   projectId: z.string().uuid(),
   folderId: z.string().uuid().optional(),
-  capturedAt: z.string().datetime(),
-  latitude: z.number(),
-  longitude: z.number(),
+  // Optional: when omitted they are taken from the file's EXIF data once it is processed
+  capturedAt: z.string().datetime().optional(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
   mediaType: z.enum(['PHOTO', 'VIDEO']).default('PHOTO'),
   remoteUrl: z.string().url(),
   thumbnailUrl: z.string().url().optional(),
@@ -23,7 +31,6 @@ const updatePhotoSchema = z.object({
 
 export async function photoRoutes(fastify: FastifyInstance) {
   const storageService = getStorageService();
-  const transcriptionService = new TranscriptionService();
 
   fastify.addHook('preHandler', authenticate);
 
@@ -55,10 +62,14 @@ export async function photoRoutes(fastify: FastifyInstance) {
       }
     }
 
+    const hasLocation = body.latitude !== undefined && body.longitude !== undefined;
+
     const photo = await prisma.photo.create({
       data: {
         ...body,
-        capturedAt: new Date(body.capturedAt),
+        capturedAt: body.capturedAt ? new Date(body.capturedAt) : new Date(),
+        latitude: hasLocation ? body.latitude : 0,
+        longitude: hasLocation ? body.longitude : 0,
         uploaderId: userId,
       },
       include: {
@@ -67,6 +78,12 @@ export async function photoRoutes(fastify: FastifyInstance) {
       },
     });
 
+    await (fastify as any).jobQueue.enqueue(PROCESS_PHOTO_JOB, {
+      photoId: photo.id,
+      fillCapturedAt: !body.capturedAt,
+      fillLocation: !hasLocation,
+    });
+
     return {
       id: photo.id,
       uploaderId: photo.uploader.id,
@@ -77,9 +94,11 @@ export async function photoRoutes(fastify: FastifyInstance) {
       mediaType: photo.mediaType,
       remoteUrl: photo.remoteUrl,
       thumbnailUrl: photo.thumbnailUrl,
+      previewUrl: photo.previewUrl,
       note: photo.note,
       voiceNoteUrl: photo.voiceNoteUrl,
       voiceNoteTranscription: photo.voiceNoteTranscription,
+      transcriptionStatus: photo.transcriptionStatus,
       folderId: photo.folderId,
       commentCount: photo._count.comments,
       createdAt: photo.createdAt,
@@ -102,6 +121,12 @@ export async function photoRoutes(fastify: FastifyInstance) {
           include: { user: { select: { id: true, name: true, avatarUrl: true } } },
           orderBy: { createdAt: 'asc' },
         },
+        voiceNotes: voiceNotesQuery,
+        annotations: {
+          include: { author: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        tags: photoTagsInclude,
       },
     });
 
@@ -114,6 +139,13 @@ export async function photoRoutes(fastify: FastifyInstance) {
       return reply.status(403).send({ error: 'Not authorized to view this photo' });
     }
 
+    // A note recorded before photos could have several lives only on the photo until it is adopted
+    let voiceNotes = photo.voiceNotes;
+    if (photo.voiceNoteUrl && voiceNotes.length === 0) {
+      await adoptLegacyVoiceNote(prisma, photo);
+      voiceNotes = await prisma.voiceNote.findMany({ where: { photoId: id }, ...voiceNotesQuery });
+    }
+
     return {
       id: photo.id,
       uploaderId: photo.uploader.id,
@@ -125,10 +157,14 @@ export async function photoRoutes(fastify: FastifyInstance) {
       mediaType: photo.mediaType,
       remoteUrl: photo.remoteUrl,
       thumbnailUrl: photo.thumbnailUrl,
+      previewUrl: photo.previewUrl,
       note: photo.note,
       voiceNoteUrl: photo.voiceNoteUrl,
       voiceNoteTranscription: photo.voiceNoteTranscription,
+      transcriptionStatus: photo.transcriptionStatus,
+      exifData: photo.exifData,
       folder: photo.folder,
+      tags: formatPhotoTags(photo.tags),
       comments: photo.comments.map((c: any) => ({
         id: c.id,
         userId: c.user.id,
@@ -137,6 +173,25 @@ export async function photoRoutes(fastify: FastifyInstance) {
         text: c.text,
         createdAt: c.createdAt,
       })),
+      voiceNotes: voiceNotes.map((v: any) => ({
+        id: v.id,
+        authorId: v.author.id,
+        authorName: v.author.name,
+        authorAvatarUrl: v.author.avatarUrl,
+        audioUrl: v.audioUrl,
+        durationSeconds: v.durationSeconds,
+        transcription: v.transcription,
+        transcriptionStatus: v.transcriptionStatus,
+        createdAt: v.createdAt,
+      })),
+      annotations: photo.annotations.map((a: any) => ({
+        id: a.id,
+        authorId: a.author.id,
+        authorName: a.author.name,
+        shape: a.shape,
+        createdAt: a.createdAt,
+        updatedAt: a.updatedAt,
+      })),
       createdAt: photo.createdAt,
       updatedAt: photo.updatedAt,
     };
@@ -233,50 +288,6 @@ export async function photoRoutes(fastify: FastifyInstance) {
     };
   });
 
-  fastify.post('/:id/voice-note', { preHandler: requirePro }, async (request: FastifyRequest, reply: FastifyReply) => {
-    const { id } = request.params as { id: string };
-    const prisma = (fastify as any).prisma;
-    const userId = (request as any).userId;
-
-    const photo = await prisma.photo.findUnique({
-      where: { id },
-      include: { project: { include: { members: true } } },
-    });
-
-    if (!photo) {
-      return reply.status(404).send({ error: 'Photo not found' });
-    }
-
-    const member = photo.project.members.find((m: any) => m.userId === userId);
-    if (!member || member.role === 'VIEWER') {
-      return reply.status(403).send({ error: 'Not authorized to add voice notes' });
-    }
-
-    const data = await request.file();
-    if (!data) {
-      return reply.status(400).send({ error: 'No audio file provided' });
-    }
-
-    const buffer = await data.toBuffer();
-    const fileName = `${id}-${Date.now()}.m4a`;
-    const uploadResult = await storageService.uploadFile(buffer, fileName, 'audio/m4a', 'voice-notes');
-
-    const transcription = await transcriptionService.transcribe(buffer);
-
-    const updated = await prisma.photo.update({
-      where: { id },
-      data: {
-        voiceNoteUrl: uploadResult.url,
-        voiceNoteTranscription: transcription,
-      },
-    });
-
-    return {
-      transcription: updated.voiceNoteTranscription,
-      voiceNoteUrl: updated.voiceNoteUrl,
-    };
-  });
-
   fastify.post('/upload-url', async (request: FastifyRequest, reply: FastifyReply) => {
     const { projectId, filename, contentType } = request.body as {
       projectId: string;
@@ -300,16 +311,10 @@ export async function photoRoutes(fastify: FastifyInstance) {
       `projects/${projectId}/photos`
     );
 
-    const thumbnailUpload = await storageService.getSignedUploadUrl(
-      `thumb-${filename}`,
-      `projects/${projectId}/thumbnails`
-    );
-
+    // Thumbnails and previews are generated server-side once the photo record is created
     return {
       uploadUrl: photoUpload.signedUrl,
       mediaUrl: photoUpload.publicUrl,
-      thumbnailUploadUrl: thumbnailUpload.signedUrl,
-      thumbnailUrl: thumbnailUpload.publicUrl,
     };
   });
 }
@@ -1,6 +1,12 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { authenticate, checkSubscriptionLimits, FREE_TIER_LIMITS } from '../middleware/auth.js';
+import { formatPhotoTags, parseTagList, photoTagFilter, photoTagsInclude } from '../lib/tags.js';
+import { parseGeoFilter, photoGeoFilter } from '../lib/geo.js';
+import { isValidTimeZone } from '../lib/dates.js';
+import { archivePhotoSelect, createArchiveService, MANIFEST_FORMATS, MAX_ARCHIVE_ITEMS } from '../services/archive.js';
+import { createSearchService } from '../services/search.js';
+import { sanitizeFileName } from '../services/storage.js';
 
 const createProjectSchema = z.object({
   name: z.string().min(1),
@@ -25,7 +31,25 @@ const createFolderSchema = z.object({
   folderType: z.enum(['LOCATION', 'PHASE', 'CUSTOM']).default('CUSTOM'),
 });
 
+// Filters combine; an empty body downloads the whole project
+const photoArchiveSchema = z.object({
+  photoIds: z.array(z.string().uuid()).max(MAX_ARCHIVE_ITEMS).optional(),
+  folderIds: z.array(z.string().uuid()).max(100).optional(),
+  tagIds: z.array(z.string().uuid()).max(50).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+  manifest: z.enum(MANIFEST_FORMATS).optional(),
+  timeZone: z
+    .string()
+    .max(100)
+    .refine((zone) => isValidTimeZone(zone), { message: 'Unknown time zone' })
+    .optional(),
+});
+
 export async function projectRoutes(fastify: FastifyInstance) {
+  const archiveService = createArchiveService();
+  const searchService = createSearchService((fastify as any).prisma);
+
   fastify.addHook('preHandler', authenticate);
 
   fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
@@ -259,9 +283,113 @@ export async function projectRoutes(fastify: FastifyInstance) {
     };
   });
 
+  // GET /v1/projects/:id/photos/geojson - Photo locations as a GeoJSON FeatureCollection
+  // Lightweight feed for map views; photos without GPS are left out
+  fastify.get('/:id/photos/geojson', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { folderId, startDate, endDate, tags, tagIds } = request.query as any;
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId: id, userId },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const where: any = {
+      projectId: id,
+      NOT: { latitude: 0, longitude: 0 },
+      AND: photoTagFilter(parseTagList(tagIds), parseTagList(tags)),
+    };
+    if (folderId) where.folderId = folderId;
+    if (startDate) where.capturedAt = { ...where.capturedAt, gte: new Date(startDate) };
+    if (endDate) where.capturedAt = { ...where.capturedAt, lte: new Date(endDate) };
+
+    const photos = await prisma.photo.findMany({
+      where,
+      orderBy: { capturedAt: 'desc' },
+      select: {
+        id: true,
+        latitude: true,
+        longitude: true,
+        capturedAt: true,
+        mediaType: true,
+        thumbnailUrl: true,
+        folderId: true,
+      },
+    });
+
+    return {
+      type: 'FeatureCollection',
+      features: photos.map((p: any) => ({
+        type: 'Feature',
+        id: p.id,
+        geometry: { type: 'Point', coordinates: [p.longitude, p.latitude] },
+        properties: {
+          capturedAt: p.capturedAt,
+          mediaType: p.mediaType,
+          thumbnailUrl: p.thumbnailUrl,
+          folderId: p.folderId,
+        },
+      })),
+    };
+  });
+
+  // POST /v1/projects/:id/photos/archive - Stream a ZIP of the matching photos and videos
+  // POST so an explicit selection of hundreds of ids fits in the body
+  fastify.post('/:id/photos/archive', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const body = photoArchiveSchema.parse(request.body ?? {});
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId: id, userId },
+      include: { project: { select: { name: true } } },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const where: any = {
+      projectId: id,
+      AND: photoTagFilter(body.tagIds ?? [], []),
+    };
+    if (body.photoIds) where.id = { in: body.photoIds };
+    if (body.folderIds?.length) where.folderId = { in: body.folderIds };
+    if (body.startDate) where.capturedAt = { ...where.capturedAt, gte: new Date(body.startDate) };
+    if (body.endDate) where.capturedAt = { ...where.capturedAt, lte: new Date(body.endDate) };
+
+    const count = await prisma.photo.count({ where });
+    if (count === 0) {
+      return reply.status(400).send({ error: 'No photos match these filters', code: 'NO_PHOTOS' });
+    }
+    if (count > MAX_ARCHIVE_ITEMS) {
+      return reply.status(400).send({
+        error: `Downloads are limited to ${MAX_ARCHIVE_ITEMS} files; narrow the filters`,
+        code: 'TOO_MANY_PHOTOS',
+      });
+    }
+
+    const photos = await prisma.photo.findMany({
+      where,
+      orderBy: { capturedAt: 'asc' },
+      select: archivePhotoSelect,
+    });
+
+    return reply
+      .type('application/zip')
+      .header('Content-Disposition', `attachment; filename="${sanitizeFileName(member.project.name)}_Photos.zip"`)
+      .send(archiveService.createArchive(photos, { manifest: body.manifest, timeZone: body.timeZone }));
+  });
+
   fastify.get('/:id/photos', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
-    const { page = '1', limit = '50', folderId, startDate, endDate } = request.query as any;
+    const { page = '1', limit = '50', folderId, startDate, endDate, tags, tagIds, near, radius, bbox } = request.query as any;
     const prisma = (fastify as any).prisma;
     const userId = (request as any).userId;
 
@@ -277,24 +405,64 @@ export async function projectRoutes(fastify: FastifyInstance) {
     if (folderId) where.folderId = folderId;
     if (startDate) where.capturedAt = { ...where.capturedAt, gte: new Date(startDate) };
     if (endDate) where.capturedAt = { ...where.capturedAt, lte: new Date(endDate) };
+    // ?tags=damage,warranty (names) or ?tagIds=... - photos must carry all of them
+    const tagFilter = photoTagFilter(parseTagList(tagIds), parseTagList(tags));
+    // ?near=lat,lng&radius=m sorts by distance; ?bbox=west,south,east,north only filters
+    const geo = parseGeoFilter({ near, radius, bbox });
+    if (geo && 'error' in geo) {
+      return reply.status(400).send({ error: geo.error, code: 'INVALID_LOCATION' });
+    }
+    const locationFilter = geo ? photoGeoFilter(geo) : [];
+    if (tagFilter.length > 0 || locationFilter.length > 0) where.AND = [...tagFilter, ...locationFilter];
 
     const pageNum = parseInt(page, 10);
     const limitNum = parseInt(limit, 10);
     const skip = (pageNum - 1) * limitNum;
 
-    const [photos, total] = await Promise.all([
-      prisma.photo.findMany({
-        where,
-        skip,
-        take: limitNum,
-        orderBy: { capturedAt: 'desc' },
-        include: {
-          uploader: { select: { id: true, name: true } },
-          _count: { select: { comments: true } },
-        },
-      }),
-      prisma.photo.count({ where }),
-    ]);
+    const include = {
+      uploader: { select: { id: true, name: true } },
+      annotations: {
+        select: { id: true, authorId: true, shape: true },
+        orderBy: { createdAt: 'asc' },
+      },
+      tags: photoTagsInclude,
+      _count: { select: { comments: true } },
+    };
+
+    let photos: any[];
+    let total: number;
+    const distances = new Map<string, number>();
+
+    if (geo?.near) {
+      const result = await searchService.findPhotosNear([id], geo.near, geo.radius!, { skip, take: limitNum }, {
+        folderId,
+        capturedFrom: startDate ? new Date(startDate) : undefined,
+        capturedTo: endDate ? new Date(endDate) : undefined,
+        tagIds: parseTagList(tagIds),
+        tagNames: parseTagList(tags),
+        location: geo,
+      });
+      result.hits.forEach((hit) => distances.set(hit.id, hit.distanceMeters));
+      total = result.total;
+
+      const rows = await prisma.photo.findMany({
+        where: { id: { in: result.hits.map((hit) => hit.id) } },
+        include,
+      });
+      const rowsById = new Map(rows.map((row: any) => [row.id, row]));
+      photos = result.hits.map((hit) => rowsById.get(hit.id)).filter(Boolean);
+    } else {
+      [photos, total] = await Promise.all([
+        prisma.photo.findMany({
+          where,
+          skip,
+          take: limitNum,
+          orderBy: { capturedAt: 'desc' },
+          include,
+        }),
+        prisma.photo.count({ where }),
+      ]);
+    }
 
     return {
       data: photos.map((p: any) => ({
@@ -307,11 +475,16 @@ export async function projectRoutes(fastify: FastifyInstance) {
         mediaType: p.mediaType,
         remoteUrl: p.remoteUrl,
         thumbnailUrl: p.thumbnailUrl,
+        previewUrl: p.previewUrl,
         note: p.note,
         voiceNoteUrl: p.voiceNoteUrl,
         voiceNoteTranscription: p.voiceNoteTranscription,
+        transcriptionStatus: p.transcriptionStatus,
         folderId: p.folderId,
+        annotations: p.annotations,
+        tags: formatPhotoTags(p.tags),
         commentCount: p._count.comments,
+        distanceMeters: distances.get(p.id) ?? null,
         createdAt: p.createdAt,
         updatedAt: p.updatedAt,
       })),
@@ -0,0 +1,247 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import sharp from 'sharp';
+import { authenticate } from '../middleware/auth.js';
+import { getStorageService } from '../services/storage.js';
+import { COVER_FIELDS, PHOTOS_PER_PAGE } from '../services/report-layout.js';
+import { DEFAULT_COVER_FIELDS, usableTemplateWhere } from '../services/reports.js';
+
+const MAX_LOGO_BYTES = 5 * 1024 * 1024;
+
+const color = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+const templateFields = {
+  companyName: z.string().max(200).nullable().optional(),
+  primaryColor: color.optional(),
+  accentColor: color.optional(),
+  photosPerPage: z
+    .number()
+    .int()
+    .refine((count) => (PHOTOS_PER_PAGE as readonly number[]).includes(count), {
+      message: 'photosPerPage must be 1, 2, 4 or 6',
+    })
+    .optional(),
+  groupBy: z.enum(['NONE', 'FOLDER', 'DATE']).optional(),
+  coverFields: z.array(z.enum(COVER_FIELDS)).max(COVER_FIELDS.length).optional(),
+  coverNote: z.string().max(2000).nullable().optional(),
+  includeNotes: z.boolean().optional(),
+  includeLocation: z.boolean().optional(),
+  includeDate: z.boolean().optional(),
+  includeComparisons: z.boolean().optional(),
+  includeComments: z.boolean().optional(),
+  includeTranscriptions: z.boolean().optional(),
+  sharedWithTeam: z.boolean().optional(),
+};
+
+const createTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  ...templateFields,
+});
+
+const updateTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  ...templateFields,
+});
+
+export async function reportTemplateRoutes(fastify: FastifyInstance) {
+  const storageService = getStorageService();
+
+  fastify.addHook('preHandler', authenticate);
+
+  // GET /v1/report-templates - The current user's templates and those shared with them by their team
+  fastify.get('/', async (request: FastifyRequest) => {
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const templates = await prisma.reportTemplate.findMany({
+      where: usableTemplateWhere(userId),
+      include: ownerInclude,
+      orderBy: { name: 'asc' },
+    });
+
+    return { data: templates.map((template: any) => formatTemplate(template, userId)) };
+  });
+
+  // POST /v1/report-templates - Save a new template
+  fastify.post('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = createTemplateSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const template = await prisma.reportTemplate.create({
+      data: {
+        ...body,
+        coverFields: body.coverFields ?? DEFAULT_COVER_FIELDS,
+        ownerId: userId,
+      },
+      include: ownerInclude,
+    });
+
+    return reply.status(201).send(formatTemplate(template, userId));
+  });
+
+  // GET /v1/report-templates/:id - Single template
+  fastify.get('/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const template = await prisma.reportTemplate.findFirst({
+      where: { id, ...usableTemplateWhere(userId) },
+      include: ownerInclude,
+    });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Report template not found' });
+    }
+
+    return formatTemplate(template, userId);
+  });
+
+  // PATCH /v1/report-templates/:id - Change any template setting
+  fastify.patch('/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const body = updateTemplateSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const existing = await prisma.reportTemplate.findFirst({
+      where: { id, ownerId: userId },
+    });
+
+    if (!existing) {
+      return reply.status(404).send({ error: 'Report template not found' });
+    }
+
+    const template = await prisma.reportTemplate.update({
+      where: { id },
+      data: body,
+      include: ownerInclude,
+    });
+
+    return formatTemplate(template, userId);
+  });
+
+  // DELETE /v1/report-templates/:id - Delete a template
+  // Logo files stay in storage: reports already requested with it keep their copy of the settings
+  fastify.delete('/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const template = await prisma.reportTemplate.findFirst({
+      where: { id, ownerId: userId },
+    });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Report template not found' });
+    }
+
+    await prisma.reportTemplate.delete({ where: { id } });
+
+    return { success: true };
+  });
+
+  // PUT /v1/report-templates/:id/logo - Replace the logo (multipart: file, any image format)
+  fastify.put('/:id/logo', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const template = await prisma.reportTemplate.findFirst({
+      where: { id, ownerId: userId },
+    });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Report template not found' });
+    }
+
+    const data = await request.file();
+    if (!data) {
+      return reply.status(400).send({ error: 'No image file provided' });
+    }
+
+    const buffer = await data.toBuffer();
+    if (buffer.length > MAX_LOGO_BYTES) {
+      return reply.status(400).send({ error: 'Logo must be 5 MB or smaller', code: 'LOGO_TOO_LARGE' });
+    }
+
+    // Stored as PNG so every logo embeds the same way and keeps its transparency
+    let logo: Buffer;
+    try {
+      logo = await sharp(buffer)
+        .resize(600, 600, { fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer();
+    } catch {
+      return reply.status(400).send({ error: 'Logo is not a readable image', code: 'INVALID_IMAGE' });
+    }
+
+    const upload = await storageService.uploadFile(
+      logo,
+      'logo.png',
+      'image/png',
+      `report-templates/${template.id}`
+    );
+
+    const updated = await prisma.reportTemplate.update({
+      where: { id },
+      data: { logoUrl: upload.url },
+      include: ownerInclude,
+    });
+
+    return formatTemplate(updated, userId);
+  });
+
+  // DELETE /v1/report-templates/:id/logo - Remove the logo
+  fastify.delete('/:id/logo', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const template = await prisma.reportTemplate.findFirst({
+      where: { id, ownerId: userId },
+    });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Report template not found' });
+    }
+
+    const updated = await prisma.reportTemplate.update({
+      where: { id },
+      data: { logoUrl: null },
+      include: ownerInclude,
+    });
+
+    return formatTemplate(updated, userId);
+  });
+}
+
+const ownerInclude = { owner: { select: { id: true, name: true } } };
+
+function formatTemplate(template: any, userId: string) {
+  return {
+    id: template.id,
+    name: template.name,
+    companyName: template.companyName,
+    logoUrl: template.logoUrl,
+    primaryColor: template.primaryColor,
+    accentColor: template.accentColor,
+    photosPerPage: template.photosPerPage,
+    groupBy: template.groupBy,
+    coverFields: template.coverFields,
+    coverNote: template.coverNote,
+    includeNotes: template.includeNotes,
+    includeLocation: template.includeLocation,
+    includeDate: template.includeDate,
+    includeComparisons: template.includeComparisons,
+    includeComments: template.includeComments,
+    includeTranscriptions: template.includeTranscriptions,
+    sharedWithTeam: template.sharedWithTeam,
+    ownerName: template.owner.name,
+    // Shared templates can be used but not changed by team contacts
+    isOwner: template.owner.id === userId,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
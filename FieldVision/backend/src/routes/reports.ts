@@ -0,0 +1,212 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth.js';
+import { isValidTimeZone } from '../lib/dates.js';
+import { getStorageService } from '../services/storage.js';
+import {
+  DEFAULT_REPORT_LAYOUT,
+  GENERATE_REPORT_JOB,
+  reportPhotoWhere,
+  ReportFilters,
+  ReportOptions,
+  templateLayout,
+  usableTemplateWhere,
+} from '../services/reports.js';
+
+// Settings left out come from the template when one is given
+const createReportSchema = z.object({
+  title: z.string().min(1).max(200).optional(),
+  format: z.enum(['PDF', 'DOCX', 'HTML']).default('PDF'),
+  templateId: z.string().uuid().optional(),
+  companyName: z.string().max(200).optional(),
+  includeNotes: z.boolean().optional(),
+  includeLocation: z.boolean().optional(),
+  includeDate: z.boolean().optional(),
+  includeComparisons: z.boolean().optional(),
+  includeComments: z.boolean().optional(),
+  includeTranscriptions: z.boolean().optional(),
+  timeZone: z
+    .string()
+    .max(100)
+    .refine((zone) => isValidTimeZone(zone), { message: 'Unknown time zone' })
+    .optional(),
+  // Photo filters; omitted ones include everything
+  folderIds: z.array(z.string().uuid()).max(100).optional(),
+  tagIds: z.array(z.string().uuid()).max(50).optional(),
+  startDate: z.string().datetime().optional(),
+  endDate: z.string().datetime().optional(),
+});
+
+export async function reportRoutes(fastify: FastifyInstance) {
+  const storageService = getStorageService();
+
+  fastify.addHook('preHandler', authenticate);
+
+  // GET /v1/projects/:projectId/reports - Reports for a project, newest first
+  fastify.get('/:projectId/reports', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const reports = await prisma.report.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      include: { requestedBy: { select: { id: true, name: true } } },
+    });
+
+    return { data: reports.map(formatReport) };
+  });
+
+  // POST /v1/projects/:projectId/reports - Queue a PDF, Word or HTML report for the matching photos
+  // Responds straight away; poll GET .../reports/:reportId until status is DONE
+  fastify.post('/:projectId/reports', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const body = createReportSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+      include: { project: { select: { name: true } } },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const template = body.templateId
+      ? await prisma.reportTemplate.findFirst({ where: { id: body.templateId, ...usableTemplateWhere(userId) } })
+      : null;
+
+    if (body.templateId && !template) {
+      return reply.status(404).send({ error: 'Report template not found' });
+    }
+
+    const filters: ReportFilters = {
+      folderIds: body.folderIds,
+      tagIds: body.tagIds,
+      startDate: body.startDate,
+      endDate: body.endDate,
+    };
+
+    const photoCount = await prisma.photo.count({ where: reportPhotoWhere(projectId, filters) });
+    if (photoCount === 0) {
+      return reply.status(400).send({ error: 'No photos match these filters', code: 'NO_PHOTOS' });
+    }
+
+    const options: ReportOptions = {
+      templateId: template?.id,
+      companyName: body.companyName ?? template?.companyName ?? undefined,
+      includeNotes: body.includeNotes ?? template?.includeNotes ?? true,
+      includeLocation: body.includeLocation ?? template?.includeLocation ?? true,
+      includeDate: body.includeDate ?? template?.includeDate ?? true,
+      includeComparisons: body.includeComparisons ?? template?.includeComparisons ?? true,
+      includeComments: body.includeComments ?? template?.includeComments ?? false,
+      includeTranscriptions: body.includeTranscriptions ?? template?.includeTranscriptions ?? false,
+      timeZone: body.timeZone,
+      layout: template ? templateLayout(template) : DEFAULT_REPORT_LAYOUT,
+    };
+
+    const report = await prisma.report.create({
+      data: {
+        projectId,
+        requestedById: userId,
+        format: body.format,
+        title: body.title || `${member.project.name} - Photo Report`,
+        filters,
+        options,
+        photoCount,
+      },
+      include: { requestedBy: { select: { id: true, name: true } } },
+    });
+
+    await (fastify as any).jobQueue.enqueue(GENERATE_REPORT_JOB, { reportId: report.id });
+
+    return reply.status(202).send(formatReport(report));
+  });
+
+  // GET /v1/projects/:projectId/reports/:reportId - Status, and the download URL once done
+  fastify.get('/:projectId/reports/:reportId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId, reportId } = request.params as { projectId: string; reportId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const report = await prisma.report.findFirst({
+      where: { id: reportId, projectId },
+      include: { requestedBy: { select: { id: true, name: true } } },
+    });
+
+    if (!report) {
+      return reply.status(404).send({ error: 'Report not found' });
+    }
+
+    return formatReport(report);
+  });
+
+  // DELETE /v1/projects/:projectId/reports/:reportId - Delete a report and its file
+  fastify.delete('/:projectId/reports/:reportId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId, reportId } = request.params as { projectId: string; reportId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    const report = await prisma.report.findFirst({
+      where: { id: reportId, projectId },
+    });
+
+    if (!member || !report) {
+      return reply.status(404).send({ error: 'Report not found' });
+    }
+
+    if (report.requestedById !== userId && member.role !== 'ADMIN') {
+      return reply.status(403).send({ error: 'Not authorized to delete this report' });
+    }
+
+    await prisma.report.delete({ where: { id: reportId } });
+
+    const filePath = report.fileUrl && storageService.getPathFromUrl(report.fileUrl);
+    if (filePath) {
+      await storageService.deleteFile(filePath);
+    }
+
+    return { success: true };
+  });
+}
+
+function formatReport(report: any) {
+  return {
+    id: report.id,
+    projectId: report.projectId,
+    title: report.title,
+    format: report.format,
+    status: report.status,
+    filters: report.filters,
+    options: report.options,
+    photoCount: report.photoCount,
+    downloadUrl: report.status === 'DONE' ? report.fileUrl : null,
+    error: report.error,
+    requestedById: report.requestedBy.id,
+    requestedByName: report.requestedBy.name,
+    createdAt: report.createdAt,
+    completedAt: report.completedAt,
+  };
+}
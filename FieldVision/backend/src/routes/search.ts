@@ -1,16 +1,38 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { authenticate } from '../middleware/auth.js';
+import { formatPhotoTags, parseTagList, photoTagFilter, photoTagsInclude } from '../lib/tags.js';
+import { parseGeoFilter, photoGeoFilter } from '../lib/geo.js';
+import { createSearchService, PhotoMatchSource, SearchHit } from '../services/search.js';
 
 const searchQuerySchema = z.object({
-  q: z.string().min(1).max(200),
-  type: z.enum(['all', 'projects', 'photos']).default('all'),
+  q: z.string().min(1).max(200).optional(),
+  type: z.enum(['all', 'projects', 'photos', 'comments']).default('all'),
   projectId: z.string().uuid().optional(),
+  // Comma separated tag names or ids; matching photos must carry all of them
+  tags: z.string().max(500).optional(),
+  tagIds: z.string().max(2000).optional(),
+  // Photos within radius meters of near=lat,lng (closest first) or inside bbox=west,south,east,north
+  near: z.string().max(100).optional(),
+  radius: z.string().max(20).optional(),
+  bbox: z.string().max(200).optional(),
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(50).default(20),
+}).refine((query) => query.q || query.tags || query.tagIds || query.near || query.bbox, {
+  message: 'Provide a search query, a tag filter or a location',
+  path: ['q'],
+});
+
+const nearbyQuerySchema = z.object({
+  near: z.string().max(100),
+  radius: z.string().max(20).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
 });
 
 export async function searchRoutes(fastify: FastifyInstance) {
+  const searchService = createSearchService((fastify as any).prisma);
+
   fastify.addHook('preHandler', authenticate);
 
   fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
@@ -18,9 +40,14 @@ export async function searchRoutes(fastify: FastifyInstance) {
     const prisma = (fastify as any).prisma;
     const userId = (request as any).userId;
     
-    const searchTerm = query.q.toLowerCase();
+    const searchTerm = query.q?.trim();
     const skip = (query.page - 1) * query.limit;
 
+    const geo = parseGeoFilter(query);
+    if (geo && 'error' in geo) {
+      return reply.status(400).send({ error: geo.error, code: 'INVALID_LOCATION' });
+    }
+
     const userProjectIds = await prisma.projectMember.findMany({
       where: { userId },
       select: { projectId: true },
@@ -31,74 +58,149 @@ export async function searchRoutes(fastify: FastifyInstance) {
       return {
         projects: [],
         photos: [],
-        query: query.q,
+        comments: [],
+        query: query.q ?? '',
         page: query.page,
         limit: query.limit,
         totalProjects: 0,
         totalPhotos: 0,
+        totalComments: 0,
       };
     }
 
     let projects: any[] = [];
     let photos: any[] = [];
+    let comments: any[] = [];
     let totalProjects = 0;
     let totalPhotos = 0;
+    let totalComments = 0;
+    // Relevance details per result id, present for text searches
+    const hitsById = new Map<string, SearchHit & { matchedIn?: PhotoMatchSource }>();
+    const distances = new Map<string, number | null>();
 
-    if (query.type === 'all' || query.type === 'projects') {
-      const projectWhere = {
-        id: { in: projectIds },
-        OR: [
-          { name: { contains: searchTerm, mode: 'insensitive' as const } },
-          { address: { contains: searchTerm, mode: 'insensitive' as const } },
-          { clientName: { contains: searchTerm, mode: 'insensitive' as const } },
-        ],
-      };
+    // Projects carry no tags or photo locations, so tag and location searches return photos alone
+    if (searchTerm && !geo && (query.type === 'all' || query.type === 'projects')) {
+      const result = await searchService.searchProjects(searchTerm, projectIds, {
+        skip: query.type === 'projects' ? skip : 0,
+        take: query.type === 'projects' ? query.limit : 5,
+      });
+      result.hits.forEach((hit) => hitsById.set(hit.id, hit));
+      totalProjects = result.total;
 
-      [projects, totalProjects] = await Promise.all([
-        prisma.project.findMany({
-          where: projectWhere,
-          skip: query.type === 'projects' ? skip : 0,
-          take: query.type === 'projects' ? query.limit : 5,
-          orderBy: { updatedAt: 'desc' },
+      projects = inHitOrder(
+        result.hits,
+        await prisma.project.findMany({
+          where: { id: { in: result.hits.map((hit) => hit.id) } },
           include: {
             _count: { select: { photos: true, folders: true } },
           },
-        }),
-        prisma.project.count({ where: projectWhere }),
-      ]);
+        })
+      );
     }
 
-    if (query.type === 'all' || query.type === 'photos') {
-      const photoProjectIds = query.projectId 
-        ? [query.projectId].filter(id => projectIds.includes(id))
-        : projectIds;
+    // Photos and comments can be narrowed to a single project
+    const photoProjectIds = query.projectId 
+      ? [query.projectId].filter(id => projectIds.includes(id))
+      : projectIds;
 
+    if (query.type === 'all' || query.type === 'photos') {
       if (photoProjectIds.length > 0) {
-        const photoWhere = {
-          projectId: { in: photoProjectIds },
-          OR: [
-            { note: { contains: searchTerm, mode: 'insensitive' as const } },
-            { voiceNoteTranscription: { contains: searchTerm, mode: 'insensitive' as const } },
-          ],
+        const photoPage = {
+          skip: query.type === 'photos' ? skip : 0,
+          take: query.type === 'photos' ? query.limit : 10,
+        };
+        const photoInclude = {
+          project: { select: { id: true, name: true } },
+          uploader: { select: { id: true, name: true } },
+          tags: photoTagsInclude,
+          _count: { select: { comments: true } },
         };
 
-        [photos, totalPhotos] = await Promise.all([
-          prisma.photo.findMany({
-            where: photoWhere,
-            skip: query.type === 'photos' ? skip : 0,
-            take: query.type === 'photos' ? query.limit : 10,
-            orderBy: { capturedAt: 'desc' },
-            include: {
-              project: { select: { id: true, name: true } },
-              uploader: { select: { id: true, name: true } },
-              _count: { select: { comments: true } },
-            },
-          }),
-          prisma.photo.count({ where: photoWhere }),
-        ]);
+        if (searchTerm) {
+          const result = await searchService.searchPhotos(searchTerm, photoProjectIds, photoPage, {
+            tagIds: parseTagList(query.tagIds),
+            tagNames: parseTagList(query.tags),
+            location: geo,
+          });
+          result.hits.forEach((hit) => {
+            hitsById.set(hit.id, hit);
+            distances.set(hit.id, hit.distanceMeters);
+          });
+          totalPhotos = result.total;
+
+          photos = inHitOrder(
+            result.hits,
+            await prisma.photo.findMany({
+              where: { id: { in: result.hits.map((hit) => hit.id) } },
+              include: photoInclude,
+            })
+          );
+        } else if (geo?.near) {
+          const result = await searchService.findPhotosNear(photoProjectIds, geo.near, geo.radius!, photoPage, {
+            tagIds: parseTagList(query.tagIds),
+            tagNames: parseTagList(query.tags),
+            location: geo,
+          });
+          result.hits.forEach((hit) => distances.set(hit.id, hit.distanceMeters));
+          totalPhotos = result.total;
+
+          photos = inHitOrder(
+            result.hits,
+            await prisma.photo.findMany({
+              where: { id: { in: result.hits.map((hit) => hit.id) } },
+              include: photoInclude,
+            })
+          );
+        } else {
+          const photoWhere = {
+            projectId: { in: photoProjectIds },
+            AND: [
+              ...photoTagFilter(parseTagList(query.tagIds), parseTagList(query.tags)),
+              ...(geo ? photoGeoFilter(geo) : []),
+            ],
+          };
+
+          [photos, totalPhotos] = await Promise.all([
+            prisma.photo.findMany({
+              where: photoWhere,
+              ...photoPage,
+              orderBy: { capturedAt: 'desc' },
+              include: photoInclude,
+            }),
+            prisma.photo.count({ where: photoWhere }),
+          ]);
+        }
       }
     }
 
+    // Comments have no tags or locations either, so only plain text searches look at them
+    if (searchTerm && !geo && photoProjectIds.length > 0 && (query.type === 'all' || query.type === 'comments')) {
+      const result = await searchService.searchComments(searchTerm, photoProjectIds, {
+        skip: query.type === 'comments' ? skip : 0,
+        take: query.type === 'comments' ? query.limit : 5,
+      });
+      result.hits.forEach((hit) => hitsById.set(hit.id, hit));
+      totalComments = result.total;
+
+      comments = inHitOrder(
+        result.hits,
+        await prisma.comment.findMany({
+          where: { id: { in: result.hits.map((hit) => hit.id) } },
+          include: {
+            user: { select: { id: true, name: true, avatarUrl: true } },
+            photo: {
+              select: {
+                id: true,
+                thumbnailUrl: true,
+                previewUrl: true,
+                project: { select: { id: true, name: true } },
+              },
+            },
+          },
+        })
+      );
+    }
+
     return {
       projects: projects.map((p: any) => ({
         id: p.id,
@@ -109,6 +211,8 @@ export async function searchRoutes(fastify: FastifyInstance) {
         photoCount: p._count.photos,
         folderCount: p._count.folders,
         updatedAt: p.updatedAt,
+        rank: hitsById.get(p.id)?.rank ?? null,
+        snippet: hitsById.get(p.id)?.snippet ?? null,
       })),
       photos: photos.map((p: any) => ({
         id: p.id,
@@ -116,19 +220,123 @@ export async function searchRoutes(fastify: FastifyInstance) {
         projectName: p.project.name,
         uploaderName: p.uploader.name,
         capturedAt: p.capturedAt,
+        latitude: p.latitude,
+        longitude: p.longitude,
         mediaType: p.mediaType,
         thumbnailUrl: p.thumbnailUrl,
+        previewUrl: p.previewUrl,
         note: p.note,
         voiceNoteTranscription: p.voiceNoteTranscription,
+        transcriptionStatus: p.transcriptionStatus,
+        tags: formatPhotoTags(p.tags),
         commentCount: p._count.comments,
+        rank: hitsById.get(p.id)?.rank ?? null,
+        snippet: hitsById.get(p.id)?.snippet ?? null,
+        matchedIn: hitsById.get(p.id)?.matchedIn ?? null,
+        distanceMeters: distances.get(p.id) ?? null,
+      })),
+      comments: comments.map((c: any) => ({
+        id: c.id,
+        text: c.text,
+        snippet: hitsById.get(c.id)?.snippet ?? null,
+        rank: hitsById.get(c.id)?.rank ?? null,
+        createdAt: c.createdAt,
+        userId: c.user.id,
+        userName: c.user.name,
+        userAvatarUrl: c.user.avatarUrl,
+        photoId: c.photo.id,
+        photoThumbnailUrl: c.photo.thumbnailUrl,
+        photoPreviewUrl: c.photo.previewUrl,
+        projectId: c.photo.project.id,
+        projectName: c.photo.project.name,
       })),
-      query: query.q,
+      query: query.q ?? '',
       page: query.page,
       limit: query.limit,
       totalProjects,
       totalPhotos,
+      totalComments,
       hasMoreProjects: totalProjects > (query.type === 'projects' ? skip + projects.length : 5),
       hasMorePhotos: totalPhotos > (query.type === 'photos' ? skip + photos.length : 10),
+      hasMoreComments: totalComments > (query.type === 'comments' ? skip + comments.length : 5),
+    };
+  });
+
+  // GET /v1/search/nearby - Every photo near a point across the caller's projects
+  // Closest first, with a per-project summary, e.g. to review a property before a bid
+  fastify.get('/nearby', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = nearbyQuerySchema.parse(request.query);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const geo = parseGeoFilter(query);
+    if (!geo || 'error' in geo) {
+      return reply.status(400).send({ error: geo?.error ?? 'near is required', code: 'INVALID_LOCATION' });
+    }
+
+    const memberships = await prisma.projectMember.findMany({
+      where: { userId },
+      select: { projectId: true },
+    });
+    const projectIds = memberships.map((m: any) => m.projectId);
+
+    const skip = (query.page - 1) * query.limit;
+    const [result, projectSummaries] = await Promise.all([
+      searchService.findPhotosNear(projectIds, geo.near!, geo.radius!, { skip, take: query.limit }, { location: geo }),
+      searchService.summarizePhotosNear(projectIds, geo.near!, geo.radius!, { location: geo }),
+    ]);
+    const distances = new Map(result.hits.map((hit) => [hit.id, hit.distanceMeters]));
+
+    const photos = inHitOrder(
+      result.hits,
+      await prisma.photo.findMany({
+        where: { id: { in: result.hits.map((hit) => hit.id) } },
+        include: {
+          project: { select: { id: true, name: true } },
+          uploader: { select: { id: true, name: true } },
+        },
+      })
+    );
+
+    const summaries = new Map(
+      projectSummaries.map(({ projectId, photoCount, nearestMeters }) => [projectId, { photoCount, nearestMeters }])
+    );
+
+    const projects = await prisma.project.findMany({
+      where: { id: { in: [...summaries.keys()] } },
+      select: { id: true, name: true, address: true, status: true },
+    });
+
+    return {
+      photos: photos.map((p: any) => ({
+        id: p.id,
+        projectId: p.project.id,
+        projectName: p.project.name,
+        uploaderName: p.uploader.name,
+        capturedAt: p.capturedAt,
+        latitude: p.latitude,
+        longitude: p.longitude,
+        mediaType: p.mediaType,
+        thumbnailUrl: p.thumbnailUrl,
+        previewUrl: p.previewUrl,
+        note: p.note,
+        distanceMeters: distances.get(p.id) ?? null,
+      })),
+      projects: projects
+        .map((p: any) => ({ ...p, ...summaries.get(p.id)! }))
+        .sort((a: any, b: any) => a.nearestMeters - b.nearestMeters),
+      near: geo.near,
+      radius: geo.radius,
+      page: query.page,
+      limit: query.limit,
+      total: result.total,
+      hasMore: skip + result.hits.length < result.total,
     };
   });
 }
+
+// Full-text hits arrive ranked; findMany does not keep that order
+function inHitOrder<T extends { id: string }>(hits: { id: string }[], rows: T[]): T[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return hits.map((hit) => byId.get(hit.id)).filter((row): row is T => row !== undefined);
+}
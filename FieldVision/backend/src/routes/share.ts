@@ -3,6 +3,9 @@ import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { authenticate } from '../middleware/auth.js';
 import crypto from 'crypto';
+import { isValidTimeZone } from '../lib/dates.js';
+import { archivePhotoSelect, createArchiveService, MANIFEST_FORMATS, MAX_ARCHIVE_ITEMS } from '../services/archive.js';
+import { sanitizeFileName } from '../services/storage.js';
 
 const createShareLinkSchema = z.object({
   folderIds: z.array(z.string().uuid()).optional(),
@@ -14,7 +17,20 @@ const createShareLinkSchema = z.object({
   allowComments: z.boolean().default(false),
 });
 
+const shareArchiveQuerySchema = z.object({
+  password: z.string().optional(),
+  folderId: z.string().uuid().optional(),
+  manifest: z.enum(MANIFEST_FORMATS).optional(),
+  timeZone: z
+    .string()
+    .max(100)
+    .refine((zone) => isValidTimeZone(zone), { message: 'Unknown time zone' })
+    .optional(),
+});
+
 export async function shareRoutes(fastify: FastifyInstance) {
+  const archiveService = createArchiveService();
+
   fastify.post('/:projectId', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
     const { projectId } = request.params as { projectId: string };
     const body = createShareLinkSchema.parse(request.body);
@@ -123,24 +139,14 @@ export async function shareRoutes(fastify: FastifyInstance) {
       },
     });
 
-    const photoWhere: any = { projectId: shareLink.projectId };
-    if (shareLink.folderIds.length > 0) {
-      photoWhere.folderId = { in: shareLink.folderIds };
-    }
-    if (shareLink.dateRangeStart) {
-      photoWhere.capturedAt = { ...photoWhere.capturedAt, gte: shareLink.dateRangeStart };
-    }
-    if (shareLink.dateRangeEnd) {
-      photoWhere.capturedAt = { ...photoWhere.capturedAt, lte: shareLink.dateRangeEnd };
-    }
-
     const photos = await prisma.photo.findMany({
-      where: photoWhere,
+      where: shareLinkPhotoWhere(shareLink),
       orderBy: { capturedAt: 'desc' },
       select: {
         id: true,
         remoteUrl: true,
         thumbnailUrl: true,
+        previewUrl: true,
         capturedAt: true,
         latitude: true,
         longitude: true,
@@ -155,6 +161,10 @@ export async function shareRoutes(fastify: FastifyInstance) {
           },
           orderBy: { createdAt: 'asc' },
         },
+        annotations: {
+          select: { id: true, shape: true },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -213,19 +223,7 @@ export async function shareRoutes(fastify: FastifyInstance) {
       }
     }
 
-    const where: any = { projectId: shareLink.projectId };
-
-    if (shareLink.folderIds.length > 0) {
-      where.folderId = { in: shareLink.folderIds };
-    }
-
-    if (shareLink.dateRangeStart) {
-      where.capturedAt = { ...where.capturedAt, gte: shareLink.dateRangeStart };
-    }
-
-    if (shareLink.dateRangeEnd) {
-      where.capturedAt = { ...where.capturedAt, lte: shareLink.dateRangeEnd };
-    }
+    const where = shareLinkPhotoWhere(shareLink);
 
     const pageNum = parseInt(page, 10);
     const limitNum = parseInt(limit, 10);
@@ -245,8 +243,13 @@ export async function shareRoutes(fastify: FastifyInstance) {
           mediaType: true,
           remoteUrl: shareLink.allowDownload,
           thumbnailUrl: true,
+          previewUrl: true,
           note: true,
           folder: { select: { id: true, name: true } },
+          annotations: {
+            select: { id: true, shape: true },
+            orderBy: { createdAt: 'asc' },
+          },
         },
       }),
       prisma.photo.count({ where }),
@@ -261,6 +264,70 @@ export async function shareRoutes(fastify: FastifyInstance) {
     };
   });
 
+  // GET /v1/share/:token/archive - ZIP of everything the link shows, when downloads are allowed
+  // A plain GET so the browser can download it directly; ?folderId narrows it to one folder
+  fastify.get('/:token/archive', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { token } = request.params as { token: string };
+    const query = shareArchiveQuerySchema.parse(request.query);
+    const prisma = (fastify as any).prisma;
+
+    const shareLink = await prisma.shareLink.findUnique({
+      where: { token },
+      include: { project: { select: { name: true } } },
+    });
+
+    if (!shareLink || !shareLink.isActive) {
+      return reply.status(404).send({ error: 'Share link not found or disabled' });
+    }
+
+    if (shareLink.expiresAt && shareLink.expiresAt < new Date()) {
+      return reply.status(410).send({ error: 'This share link has expired' });
+    }
+
+    if (!shareLink.allowDownload) {
+      return reply.status(403).send({ error: 'Downloads are not allowed on this share link' });
+    }
+
+    if (shareLink.passwordHash) {
+      if (!query.password) {
+        return reply.status(401).send({ error: 'Password required' });
+      }
+
+      const validPassword = await bcrypt.compare(query.password, shareLink.passwordHash);
+      if (!validPassword) {
+        return reply.status(401).send({ error: 'Invalid password' });
+      }
+    }
+
+    const where = shareLinkPhotoWhere(shareLink);
+    if (query.folderId) {
+      // Stays within the link's own folder restriction
+      where.AND = [{ folderId: query.folderId }];
+    }
+
+    const count = await prisma.photo.count({ where });
+    if (count === 0) {
+      return reply.status(400).send({ error: 'No photos to download', code: 'NO_PHOTOS' });
+    }
+    if (count > MAX_ARCHIVE_ITEMS) {
+      return reply.status(400).send({
+        error: `Downloads are limited to ${MAX_ARCHIVE_ITEMS} files; download one folder at a time`,
+        code: 'TOO_MANY_PHOTOS',
+      });
+    }
+
+    const photos = await prisma.photo.findMany({
+      where,
+      orderBy: { capturedAt: 'asc' },
+      select: archivePhotoSelect,
+    });
+
+    return reply
+      .type('application/zip')
+      .header('Content-Disposition', `attachment; filename="${sanitizeFileName(shareLink.project.name)}_Photos.zip"`)
+      .send(archiveService.createArchive(photos, { manifest: query.manifest, timeZone: query.timeZone }));
+  });
+
   fastify.post('/:token/comments', async (request: FastifyRequest, reply: FastifyReply) => {
     const { token } = request.params as { token: string };
     const { photoId, text, guestName } = request.body as { photoId: string; text: string; guestName: string };
@@ -340,3 +407,22 @@ export async function shareRoutes(fastify: FastifyInstance) {
     return { success: true };
   });
 }
+
+// Photos a share link exposes: its folders (all when none are set) within its date range
+function shareLinkPhotoWhere(shareLink: any) {
+  const where: any = { projectId: shareLink.projectId };
+
+  if (shareLink.folderIds.length > 0) {
+    where.folderId = { in: shareLink.folderIds };
+  }
+
+  if (shareLink.dateRangeStart) {
+    where.capturedAt = { ...where.capturedAt, gte: shareLink.dateRangeStart };
+  }
+
+  if (shareLink.dateRangeEnd) {
+    where.capturedAt = { ...where.capturedAt, lte: shareLink.dateRangeEnd };
+  }
+
+  return where;
+}
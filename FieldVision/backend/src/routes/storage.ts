@@ -0,0 +1,80 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { getStorageService } from '../services/storage.js';
+import { LocalDiskStorageService } from '../services/local-storage.js';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.heic': 'image/heic',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.m4a': 'audio/m4a',
+  '.pdf': 'application/pdf',
+};
+
+export async function storageRoutes(fastify: FastifyInstance) {
+  const storageService = getStorageService();
+
+  if (!(storageService instanceof LocalDiskStorageService)) {
+    return;
+  }
+
+  // Signed uploads carry raw file bytes with arbitrary content types, so hand
+  // the request stream straight to the handler instead of buffering it.
+  fastify.removeAllContentTypeParsers();
+  fastify.addContentTypeParser('*', (request, payload, done) => {
+    done(null, payload);
+  });
+
+  fastify.get('/files/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    const filePath = (request.params as { '*': string })['*'];
+    const absolutePath = storageService.resolvePath(filePath);
+
+    if (!absolutePath) {
+      return reply.status(404).send({ error: 'File not found' });
+    }
+
+    const stat = await fs.promises.stat(absolutePath).catch(() => null);
+    if (!stat || !stat.isFile()) {
+      return reply.status(404).send({ error: 'File not found' });
+    }
+
+    const contentType = CONTENT_TYPES[path.extname(absolutePath).toLowerCase()] || 'application/octet-stream';
+
+    return reply
+      .header('Content-Length', stat.size)
+      .header('Cache-Control', 'public, max-age=3600')
+      .type(contentType)
+      .send(fs.createReadStream(absolutePath));
+  });
+
+  fastify.put('/upload/*', async (request: FastifyRequest, reply: FastifyReply) => {
+    const filePath = (request.params as { '*': string })['*'];
+    const { expires, token } = request.query as { expires?: string; token?: string };
+
+    if (!expires || !token || !storageService.verifyUploadToken(filePath, parseInt(expires, 10), token)) {
+      return reply.status(403).send({ error: 'Invalid or expired upload token' });
+    }
+
+    const absolutePath = storageService.resolvePath(filePath);
+    if (!absolutePath) {
+      return reply.status(400).send({ error: 'Invalid upload path' });
+    }
+
+    const body = request.body as Readable | undefined;
+    if (!body) {
+      return reply.status(400).send({ error: 'No file provided' });
+    }
+
+    await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+    await pipeline(body, fs.createWriteStream(absolutePath));
+
+    return { path: filePath };
+  });
+}
@@ -0,0 +1,222 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth.js';
+
+const color = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+const createTagSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  color: color.optional(),
+});
+
+const updateTagSchema = z.object({
+  name: z.string().trim().min(1).max(50).optional(),
+  color: color.optional(),
+});
+
+const bulkTagSchema = z.object({
+  photoIds: z.array(z.string().uuid()).min(1).max(500),
+  tagIds: z.array(z.string().uuid()).min(1).max(50),
+});
+
+export async function tagRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', authenticate);
+
+  // GET /v1/projects/:projectId/tags - Project tag vocabulary with usage counts
+  fastify.get('/:projectId/tags', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member) {
+      return reply.status(403).send({ error: 'Not a member of this project' });
+    }
+
+    const tags = await prisma.tag.findMany({
+      where: { projectId },
+      include: { _count: { select: { photos: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return { data: tags.map(formatTag) };
+  });
+
+  // POST /v1/projects/:projectId/tags - Add a tag to the project vocabulary
+  fastify.post('/:projectId/tags', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const body = createTagSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to manage tags' });
+    }
+
+    const existing = await findTagByName(prisma, projectId, body.name);
+    if (existing) {
+      return reply.status(409).send({ error: 'A tag with this name already exists', code: 'TAG_EXISTS' });
+    }
+
+    const tag = await prisma.tag.create({
+      data: { projectId, ...body },
+      include: { _count: { select: { photos: true } } },
+    });
+
+    return reply.status(201).send(formatTag(tag));
+  });
+
+  // PATCH /v1/projects/:projectId/tags/:tagId - Rename or recolor a tag
+  fastify.patch('/:projectId/tags/:tagId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId, tagId } = request.params as { projectId: string; tagId: string };
+    const body = updateTagSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to manage tags' });
+    }
+
+    const tag = await prisma.tag.findFirst({ where: { id: tagId, projectId } });
+    if (!tag) {
+      return reply.status(404).send({ error: 'Tag not found' });
+    }
+
+    if (body.name) {
+      const existing = await findTagByName(prisma, projectId, body.name);
+      if (existing && existing.id !== tagId) {
+        return reply.status(409).send({ error: 'A tag with this name already exists', code: 'TAG_EXISTS' });
+      }
+    }
+
+    const updated = await prisma.tag.update({
+      where: { id: tagId },
+      data: body,
+      include: { _count: { select: { photos: true } } },
+    });
+
+    return formatTag(updated);
+  });
+
+  // DELETE /v1/projects/:projectId/tags/:tagId - Delete a tag and remove it from all photos
+  fastify.delete('/:projectId/tags/:tagId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId, tagId } = request.params as { projectId: string; tagId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to manage tags' });
+    }
+
+    const { count } = await prisma.tag.deleteMany({ where: { id: tagId, projectId } });
+    if (count === 0) {
+      return reply.status(404).send({ error: 'Tag not found' });
+    }
+
+    return { success: true };
+  });
+
+  // POST /v1/projects/:projectId/photos/tags - Apply tags to many photos at once
+  fastify.post('/:projectId/photos/tags', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const body = bulkTagSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const error = await validateBulkTagRequest(prisma, projectId, userId, body);
+    if (error) {
+      return reply.status(error.status).send({ error: error.error });
+    }
+
+    const { count } = await prisma.photoTag.createMany({
+      data: body.photoIds.flatMap((photoId) => body.tagIds.map((tagId) => ({ photoId, tagId }))),
+      skipDuplicates: true,
+    });
+
+    return { success: true, added: count };
+  });
+
+  // POST /v1/projects/:projectId/photos/tags/remove - Remove tags from many photos at once
+  fastify.post('/:projectId/photos/tags/remove', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { projectId } = request.params as { projectId: string };
+    const body = bulkTagSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const error = await validateBulkTagRequest(prisma, projectId, userId, body);
+    if (error) {
+      return reply.status(error.status).send({ error: error.error });
+    }
+
+    const { count } = await prisma.photoTag.deleteMany({
+      where: { photoId: { in: body.photoIds }, tagId: { in: body.tagIds } },
+    });
+
+    return { success: true, removed: count };
+  });
+}
+
+function findTagByName(prisma: any, projectId: string, name: string) {
+  return prisma.tag.findFirst({
+    where: { projectId, name: { equals: name, mode: 'insensitive' } },
+  });
+}
+
+// Checks the caller may tag in this project and that every photo and tag belongs to it
+async function validateBulkTagRequest(
+  prisma: any,
+  projectId: string,
+  userId: string,
+  body: z.infer<typeof bulkTagSchema>
+): Promise<{ status: number; error: string } | null> {
+  const member = await prisma.projectMember.findFirst({
+    where: { projectId, userId },
+  });
+
+  if (!member || member.role === 'VIEWER') {
+    return { status: 403, error: 'Not authorized to tag photos in this project' };
+  }
+
+  const photoIds = [...new Set(body.photoIds)];
+  const tagIds = [...new Set(body.tagIds)];
+
+  const [photoCount, tagCount] = await Promise.all([
+    prisma.photo.count({ where: { id: { in: photoIds }, projectId } }),
+    prisma.tag.count({ where: { id: { in: tagIds }, projectId } }),
+  ]);
+
+  if (photoCount !== photoIds.length) {
+    return { status: 400, error: 'Some photos do not belong to this project' };
+  }
+  if (tagCount !== tagIds.length) {
+    return { status: 400, error: 'Some tags do not belong to this project' };
+  }
+
+  return null;
+}
+
+function formatTag(tag: any) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    color: tag.color,
+    photoCount: tag._count.photos,
+    createdAt: tag.createdAt,
+    updatedAt: tag.updatedAt,
+  };
+}
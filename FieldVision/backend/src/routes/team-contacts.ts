@@ -1,6 +1,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { authenticate } from '../middleware/auth.js';
+import { SEND_EMAIL_JOB } from '../services/email.js';
+import { createInvitationService, formatInvitation } from '../services/invitations.js';
 
 const addContactSchema = z.object({
   email: z.string().email(),
@@ -14,6 +16,8 @@ const updateContactSchema = z.object({
 });
 
 export async function teamContactRoutes(fastify: FastifyInstance) {
+  const invitationService = createInvitationService((fastify as any).prisma);
+
   fastify.addHook('preHandler', authenticate);
 
   // GET /v1/team/contacts - List saved contacts
@@ -59,11 +63,18 @@ export async function teamContactRoutes(fastify: FastifyInstance) {
       where: { email: body.email },
     });
 
+    // No account yet: email an invitation; the contact is saved once they sign up
     if (!userToAdd) {
-      return reply.status(404).send({
-        error: 'User not found. They need to create an account first.',
-        code: 'USER_NOT_FOUND',
+      const { invitation, message } = await invitationService.invite({
+        email: body.email,
+        projectId: null,
+        role: body.defaultRole,
+        nickname: body.nickname,
+        invitedById: userId,
       });
+      await (fastify as any).jobQueue.enqueue(SEND_EMAIL_JOB, { message, category: 'invitations' });
+
+      return reply.status(202).send({ invitation: formatInvitation(invitation) });
     }
 
     // Cannot add yourself as a contact
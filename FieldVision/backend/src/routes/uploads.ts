@@ -0,0 +1,411 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { Readable, Transform } from 'stream';
+import { authenticate, checkSubscriptionLimits, FREE_TIER_LIMITS } from '../middleware/auth.js';
+import { getStorageService } from '../services/storage.js';
+import { PROCESS_PHOTO_JOB } from '../services/media.js';
+
+const MAX_UPLOAD_SIZE = 5 * 1024 * 1024 * 1024;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const RECOMMENDED_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const createUploadSchema = z.object({
+  projectId: z.string().uuid(),
+  filename: z.string().min(1),
+  contentType: z.string().min(1),
+  size: z.number().int().positive().max(MAX_UPLOAD_SIZE),
+  mediaType: z.enum(['PHOTO', 'VIDEO']).default('VIDEO'),
+  folderId: z.string().uuid().optional(),
+  capturedAt: z.string().datetime().optional(),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  note: z.string().optional(),
+});
+
+const uploadDir = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'fieldvision-uploads');
+
+export async function uploadRoutes(fastify: FastifyInstance) {
+  const storageService = getStorageService();
+
+  fastify.addHook('preHandler', authenticate);
+
+  // Chunks are raw bytes; stream them to disk rather than buffering in memory.
+  // application/offset+octet-stream is the tus chunk content type.
+  fastify.addContentTypeParser(
+    ['application/octet-stream', 'application/offset+octet-stream'],
+    (request, payload, done) => {
+      done(null, payload);
+    }
+  );
+
+  // POST /v1/photos/uploads - Start a resumable upload session
+  fastify.post('/', { preHandler: checkSubscriptionLimits }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const body = createUploadSchema.parse(request.body);
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+    const isPro = (request as any).isPro;
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId: body.projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to upload to this project' });
+    }
+
+    if (body.folderId) {
+      const folder = await prisma.folder.findFirst({
+        where: { id: body.folderId, projectId: body.projectId },
+      });
+
+      if (!folder) {
+        return reply.status(400).send({ error: 'Folder not found in this project' });
+      }
+    }
+
+    if (!isPro && (await photoLimitReached(prisma, body.projectId))) {
+      return sendPhotoLimitReached(reply);
+    }
+
+    await removeExpiredSessions(prisma);
+
+    const session = await prisma.uploadSession.create({
+      data: {
+        projectId: body.projectId,
+        uploaderId: userId,
+        fileName: body.filename,
+        contentType: body.contentType,
+        size: BigInt(body.size),
+        mediaType: body.mediaType,
+        folderId: body.folderId,
+        capturedAt: body.capturedAt ? new Date(body.capturedAt) : null,
+        latitude: body.latitude,
+        longitude: body.longitude,
+        note: body.note,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      },
+    });
+
+    await fs.promises.mkdir(uploadDir, { recursive: true });
+    await fs.promises.writeFile(partPath(session.id), '');
+
+    return reply.status(201).send(formatSession(session));
+  });
+
+  // GET /v1/photos/uploads/:id - Current offset, used to resume after a dropped connection
+  fastify.get('/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const session = await findActiveSession(prisma, id, userId);
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload session not found or expired' });
+    }
+
+    return reply
+      .header('Upload-Offset', session.offset.toString())
+      .header('Upload-Length', session.size.toString())
+      .header('Cache-Control', 'no-store')
+      .send(formatSession(session));
+  });
+
+  // PUT /v1/photos/uploads/:id - Write a chunk starting at Upload-Offset
+  fastify.put('/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const session = await findActiveSession(prisma, id, userId);
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload session not found or expired' });
+    }
+
+    const offsetHeader = request.headers['upload-offset'];
+    const offset = typeof offsetHeader === 'string' && /^\d+$/.test(offsetHeader) ? BigInt(offsetHeader) : null;
+
+    if (offset === null) {
+      return reply.status(400).send({ error: 'Upload-Offset header required' });
+    }
+
+    if (offset !== session.offset) {
+      return reply
+        .status(409)
+        .header('Upload-Offset', session.offset.toString())
+        .send({ error: 'Upload-Offset does not match the current offset', offset: Number(session.offset) });
+    }
+
+    const body = request.body as Readable | undefined;
+    if (!body || typeof (body as Readable).pipe !== 'function') {
+      return reply.status(415).send({ error: 'Chunks must be sent as application/octet-stream' });
+    }
+
+    const remaining = session.size - session.offset;
+    let received = 0n;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += BigInt(chunk.length);
+        if (received > remaining) {
+          callback(new Error('Chunk exceeds the declared upload size'));
+          return;
+        }
+        callback(null, chunk);
+      },
+    });
+
+    const writeStream = fs.createWriteStream(partPath(id), { flags: 'r+', start: Number(session.offset) });
+    let interrupted = false;
+
+    try {
+      await pipeline(body, limiter, writeStream);
+    } catch (error) {
+      interrupted = true;
+      request.log.warn({ err: error, uploadId: id }, 'Upload chunk interrupted');
+    }
+
+    // Keep whatever reached the disk so the client can resume from there
+    const written = BigInt(Math.min(writeStream.bytesWritten, Number(remaining)));
+    const newOffset = session.offset + written;
+
+    const { count } = await prisma.uploadSession.updateMany({
+      where: { id, offset: session.offset },
+      data: { offset: newOffset },
+    });
+
+    if (count === 0) {
+      return reply.status(409).send({ error: 'Upload session was modified concurrently' });
+    }
+
+    if (interrupted && received > remaining) {
+      return reply
+        .status(413)
+        .header('Upload-Offset', newOffset.toString())
+        .send({ error: 'Chunk exceeds the declared upload size', offset: Number(newOffset) });
+    }
+
+    return reply
+      .header('Upload-Offset', newOffset.toString())
+      .send({ id, offset: Number(newOffset), size: Number(session.size) });
+  });
+
+  // POST /v1/photos/uploads/:id/complete - Store the assembled file and create the photo record
+  fastify.post('/:id/complete', { preHandler: checkSubscriptionLimits }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+    const isPro = (request as any).isPro;
+
+    const session = await findActiveSession(prisma, id, userId);
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload session not found or expired' });
+    }
+
+    // A retried call after a lost response gets the photo the first call created
+    if (session.photoId) {
+      const photo = await prisma.photo.findUnique({
+        where: { id: session.photoId },
+        include: photoInclude,
+      });
+
+      if (photo) {
+        return formatUploadedPhoto(photo);
+      }
+
+      // The bytes are removed only once the photo exists, so without them it has since been deleted
+      const inProgress = await fs.promises.access(partPath(id)).then(() => true, () => false);
+      return inProgress
+        ? reply.status(409).send({ error: 'Upload is already being completed' })
+        : reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    if (session.offset !== session.size) {
+      return reply.status(400).send({
+        error: 'Upload is incomplete',
+        offset: Number(session.offset),
+        size: Number(session.size),
+      });
+    }
+
+    const member = await prisma.projectMember.findFirst({
+      where: { projectId: session.projectId, userId },
+    });
+
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to upload to this project' });
+    }
+
+    // Checked again here, as several sessions can be opened before any of them completes
+    if (!isPro && (await photoLimitReached(prisma, session.projectId))) {
+      return sendPhotoLimitReached(reply);
+    }
+
+    // Claim the session first so two concurrent calls cannot both create a photo
+    const photoId = crypto.randomUUID();
+    const { count } = await prisma.uploadSession.updateMany({
+      where: { id, photoId: null },
+      data: { photoId },
+    });
+
+    if (count === 0) {
+      return reply.status(409).send({ error: 'Upload is already being completed' });
+    }
+
+    const hasLocation = session.latitude != null && session.longitude != null;
+    let photo;
+
+    try {
+      const folder = session.mediaType === 'VIDEO' ? 'videos' : 'photos';
+      const uploadResult = await storageService.uploadLocalFile(
+        partPath(id),
+        session.fileName,
+        session.contentType,
+        `projects/${session.projectId}/${folder}`
+      );
+
+      photo = await prisma.photo.create({
+        data: {
+          id: photoId,
+          projectId: session.projectId,
+          folderId: session.folderId,
+          uploaderId: userId,
+          capturedAt: session.capturedAt ?? new Date(),
+          latitude: hasLocation ? session.latitude : 0,
+          longitude: hasLocation ? session.longitude : 0,
+          mediaType: session.mediaType,
+          remoteUrl: uploadResult.url,
+          note: session.note,
+        },
+        include: photoInclude,
+      });
+    } catch (error) {
+      // Release the claim so the client can retry
+      await prisma.uploadSession.updateMany({
+        where: { id, photoId },
+        data: { photoId: null },
+      });
+      throw error;
+    }
+
+    // The session row stays until it expires so retries can find the photo; the bytes are no longer needed
+    await fs.promises.rm(partPath(id), { force: true });
+
+    await (fastify as any).jobQueue.enqueue(PROCESS_PHOTO_JOB, {
+      photoId: photo.id,
+      fillCapturedAt: !session.capturedAt,
+      fillLocation: !hasLocation,
+    });
+
+    return formatUploadedPhoto(photo);
+  });
+
+  // DELETE /v1/photos/uploads/:id - Abandon an upload
+  fastify.delete('/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const session = await prisma.uploadSession.findFirst({
+      where: { id, uploaderId: userId },
+    });
+
+    if (!session) {
+      return reply.status(404).send({ error: 'Upload session not found' });
+    }
+
+    await prisma.uploadSession.delete({ where: { id } });
+    await fs.promises.rm(partPath(id), { force: true });
+
+    return { success: true };
+  });
+}
+
+const photoInclude = {
+  uploader: { select: { id: true, name: true } },
+  _count: { select: { comments: true } },
+};
+
+function partPath(sessionId: string): string {
+  return path.join(uploadDir, `${sessionId}.part`);
+}
+
+async function findActiveSession(prisma: any, id: string, userId: string) {
+  return prisma.uploadSession.findFirst({
+    where: { id, uploaderId: userId, expiresAt: { gt: new Date() } },
+  });
+}
+
+async function photoLimitReached(prisma: any, projectId: string): Promise<boolean> {
+  const photoCount = await prisma.photo.count({
+    where: { projectId },
+  });
+
+  return photoCount >= FREE_TIER_LIMITS.maxPhotosPerProject;
+}
+
+function sendPhotoLimitReached(reply: FastifyReply) {
+  return reply.status(403).send({
+    error: `Free accounts are limited to ${FREE_TIER_LIMITS.maxPhotosPerProject} photos per project. Upgrade to Pro for unlimited photos.`,
+    code: 'PHOTO_LIMIT_REACHED',
+    limit: FREE_TIER_LIMITS.maxPhotosPerProject,
+  });
+}
+
+async function removeExpiredSessions(prisma: any) {
+  const expired = await prisma.uploadSession.findMany({
+    where: { expiresAt: { lte: new Date() } },
+    select: { id: true },
+    take: 50,
+  });
+
+  for (const session of expired) {
+    await fs.promises.rm(partPath(session.id), { force: true });
+  }
+
+  if (expired.length > 0) {
+    await prisma.uploadSession.deleteMany({
+      where: { id: { in: expired.map((s: { id: string }) => s.id) } },
+    });
+  }
+}
+
+function formatSession(session: any) {
+  return {
+    id: session.id,
+    projectId: session.projectId,
+    filename: session.fileName,
+    contentType: session.contentType,
+    mediaType: session.mediaType,
+    size: Number(session.size),
+    offset: Number(session.offset),
+    chunkSize: RECOMMENDED_CHUNK_SIZE,
+    expiresAt: session.expiresAt,
+  };
+}
+
+function formatUploadedPhoto(photo: any) {
+  return {
+    id: photo.id,
+    uploaderId: photo.uploader.id,
+    uploaderName: photo.uploader.name,
+    capturedAt: photo.capturedAt,
+    latitude: photo.latitude,
+    longitude: photo.longitude,
+    mediaType: photo.mediaType,
+    remoteUrl: photo.remoteUrl,
+    thumbnailUrl: photo.thumbnailUrl,
+    previewUrl: photo.previewUrl,
+    note: photo.note,
+    voiceNoteUrl: photo.voiceNoteUrl,
+    voiceNoteTranscription: photo.voiceNoteTranscription,
+    transcriptionStatus: photo.transcriptionStatus,
+    folderId: photo.folderId,
+    commentCount: photo._count.comments,
+    createdAt: photo.createdAt,
+    updatedAt: photo.updatedAt,
+  };
+}
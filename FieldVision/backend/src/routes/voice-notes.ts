@@ -0,0 +1,352 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Photo } from '@prisma/client';
+import { authenticate, requirePro } from '../middleware/auth.js';
+import { getStorageService, StorageService } from '../services/storage.js';
+import {
+  adoptLegacyVoiceNote,
+  audioContentType,
+  syncLatestVoiceNote,
+  TRANSCRIBE_VOICE_NOTE_JOB,
+} from '../services/transcription.js';
+
+// Suggested delay between polls while a transcription is pending
+const TRANSCRIPTION_POLL_SECONDS = 3;
+
+const authorSelect = { id: true, name: true, avatarUrl: true };
+
+export async function voiceNoteRoutes(fastify: FastifyInstance) {
+  const storageService = getStorageService();
+
+  fastify.addHook('preHandler', authenticate);
+
+  // GET /v1/photos/:id/voice-notes - List voice notes on a photo, oldest first
+  fastify.get('/:id/voice-notes', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const isMember = photo.project.members.some((m: any) => m.userId === userId);
+    if (!isMember) {
+      return reply.status(403).send({ error: 'Not authorized to view this photo' });
+    }
+
+    await adoptLegacyVoiceNote(prisma, photo);
+
+    const voiceNotes = await prisma.voiceNote.findMany({
+      where: { photoId: id },
+      include: { author: { select: authorSelect } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { data: voiceNotes.map(formatVoiceNote) };
+  });
+
+  // POST /v1/photos/:id/voice-notes - Record a voice note (multipart: file, optional duration in seconds)
+  fastify.post('/:id/voice-notes', { preHandler: requirePro }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const member = photo.project.members.find((m: any) => m.userId === userId);
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to add voice notes' });
+    }
+
+    const voiceNote = await createVoiceNote(fastify, storageService, request, photo);
+    if (!voiceNote) {
+      return reply.status(400).send({ error: 'No audio file provided' });
+    }
+
+    return reply.status(201).send(formatVoiceNote(voiceNote));
+  });
+
+  // GET /v1/photos/:id/voice-notes/:voiceNoteId - Single note; poll this until the transcription settles
+  fastify.get('/:id/voice-notes/:voiceNoteId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, voiceNoteId } = request.params as { id: string; voiceNoteId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const isMember = photo.project.members.some((m: any) => m.userId === userId);
+    if (!isMember) {
+      return reply.status(403).send({ error: 'Not authorized to view this photo' });
+    }
+
+    const voiceNote = await prisma.voiceNote.findFirst({
+      where: { id: voiceNoteId, photoId: id },
+      include: { author: { select: authorSelect } },
+    });
+
+    if (!voiceNote) {
+      return reply.status(404).send({ error: 'Voice note not found' });
+    }
+
+    return sendPollable(reply, voiceNote.transcriptionStatus, formatVoiceNote(voiceNote));
+  });
+
+  // POST /v1/photos/:id/voice-notes/:voiceNoteId/transcription/retry - Requeue a failed transcription
+  fastify.post('/:id/voice-notes/:voiceNoteId/transcription/retry', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, voiceNoteId } = request.params as { id: string; voiceNoteId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const member = photo.project.members.find((m: any) => m.userId === userId);
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to update this photo' });
+    }
+
+    return retryTranscription(fastify, reply, voiceNoteId, id);
+  });
+
+  // DELETE /v1/photos/:id/voice-notes/:voiceNoteId - Authors and project admins can remove a note
+  fastify.delete('/:id/voice-notes/:voiceNoteId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, voiceNoteId } = request.params as { id: string; voiceNoteId: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const voiceNote = await prisma.voiceNote.findFirst({
+      where: { id: voiceNoteId, photoId: id },
+    });
+
+    if (!voiceNote) {
+      return reply.status(404).send({ error: 'Voice note not found' });
+    }
+
+    const member = photo.project.members.find((m: any) => m.userId === userId);
+    const canDelete = member && (voiceNote.authorId === userId || member.role === 'ADMIN');
+    if (!canDelete) {
+      return reply.status(403).send({ error: 'Not authorized to delete this voice note' });
+    }
+
+    await prisma.voiceNote.delete({ where: { id: voiceNoteId } });
+    await syncLatestVoiceNote(prisma, id);
+
+    const audioPath = storageService.getPathFromUrl(voiceNote.audioUrl);
+    if (audioPath) {
+      await storageService.deleteFile(audioPath);
+    }
+
+    return { success: true };
+  });
+
+  // Single-note endpoints kept for clients that predate VoiceNote. They act on
+  // the photo's most recent note.
+
+  fastify.post('/:id/voice-note', { preHandler: requirePro }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const member = photo.project.members.find((m: any) => m.userId === userId);
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to add voice notes' });
+    }
+
+    const voiceNote = await createVoiceNote(fastify, storageService, request, photo);
+    if (!voiceNote) {
+      return reply.status(400).send({ error: 'No audio file provided' });
+    }
+
+    return reply.status(202).send({
+      transcription: voiceNote.transcription,
+      transcriptionStatus: voiceNote.transcriptionStatus,
+      voiceNoteUrl: voiceNote.audioUrl,
+    });
+  });
+
+  fastify.get('/:id/voice-note/transcription', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const isMember = photo.project.members.some((m: any) => m.userId === userId);
+    if (!isMember) {
+      return reply.status(403).send({ error: 'Not authorized to view this photo' });
+    }
+
+    const voiceNote = await findLatestVoiceNote(prisma, photo);
+    if (!voiceNote) {
+      return reply.status(404).send({ error: 'Photo has no voice note' });
+    }
+
+    return sendPollable(reply, voiceNote.transcriptionStatus, {
+      status: voiceNote.transcriptionStatus,
+      transcription: voiceNote.transcription,
+      error: voiceNote.transcriptionError,
+      voiceNoteUrl: voiceNote.audioUrl,
+    });
+  });
+
+  fastify.post('/:id/voice-note/transcription/retry', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const prisma = (fastify as any).prisma;
+    const userId = (request as any).userId;
+
+    const photo = await findPhotoWithMembers(prisma, id);
+    if (!photo) {
+      return reply.status(404).send({ error: 'Photo not found' });
+    }
+
+    const member = photo.project.members.find((m: any) => m.userId === userId);
+    if (!member || member.role === 'VIEWER') {
+      return reply.status(403).send({ error: 'Not authorized to update this photo' });
+    }
+
+    const voiceNote = await findLatestVoiceNote(prisma, photo);
+    if (!voiceNote) {
+      return reply.status(404).send({ error: 'Photo has no voice note' });
+    }
+
+    return retryTranscription(fastify, reply, voiceNote.id, id);
+  });
+}
+
+async function createVoiceNote(
+  fastify: FastifyInstance,
+  storageService: StorageService,
+  request: FastifyRequest,
+  photo: Photo
+) {
+  const prisma = (fastify as any).prisma;
+  const userId = (request as any).userId;
+
+  const data = await request.file();
+  if (!data) return null;
+
+  // Must run before the insert, which would otherwise replace the legacy note on the photo
+  await adoptLegacyVoiceNote(prisma, photo);
+
+  const buffer = await data.toBuffer();
+  const durationField = data.fields.duration as { value?: unknown } | undefined;
+  const duration = Number(durationField?.value);
+
+  const extension = data.filename?.match(/\.[a-z0-9]+$/i)?.[0] ?? '.m4a';
+  const fileName = `${photo.id}-${Date.now()}${extension}`;
+  const uploadResult = await storageService.uploadFile(
+    buffer,
+    fileName,
+    audioContentType(fileName),
+    `projects/${photo.projectId}/voice-notes`
+  );
+
+  const voiceNote = await prisma.voiceNote.create({
+    data: {
+      photoId: photo.id,
+      authorId: userId,
+      audioUrl: uploadResult.url,
+      durationSeconds: Number.isFinite(duration) && duration > 0 ? duration : null,
+    },
+    include: { author: { select: authorSelect } },
+  });
+
+  await syncLatestVoiceNote(prisma, photo.id);
+
+  // Transcription runs in the background; poll the note for the text
+  await (fastify as any).jobQueue.enqueue(TRANSCRIBE_VOICE_NOTE_JOB, { voiceNoteId: voiceNote.id });
+
+  return voiceNote;
+}
+
+async function retryTranscription(fastify: FastifyInstance, reply: FastifyReply, voiceNoteId: string, photoId: string) {
+  const prisma = (fastify as any).prisma;
+
+  const voiceNote = await prisma.voiceNote.findFirst({
+    where: { id: voiceNoteId, photoId },
+  });
+
+  if (!voiceNote) {
+    return reply.status(404).send({ error: 'Voice note not found' });
+  }
+
+  const { count } = await prisma.voiceNote.updateMany({
+    where: { id: voiceNoteId, transcriptionStatus: 'FAILED' },
+    data: { transcriptionStatus: 'PENDING', transcriptionError: null },
+  });
+
+  if (count === 0) {
+    return reply.status(409).send({
+      error: 'Only failed transcriptions can be retried',
+      code: 'TRANSCRIPTION_NOT_FAILED',
+      status: voiceNote.transcriptionStatus,
+    });
+  }
+
+  await syncLatestVoiceNote(prisma, photoId);
+  await (fastify as any).jobQueue.enqueue(TRANSCRIBE_VOICE_NOTE_JOB, { voiceNoteId });
+
+  return reply.status(202).send({ status: 'PENDING' });
+}
+
+async function findPhotoWithMembers(prisma: any, id: string) {
+  return prisma.photo.findUnique({
+    where: { id },
+    include: { project: { include: { members: true } } },
+  });
+}
+
+async function findLatestVoiceNote(prisma: any, photo: Photo) {
+  await adoptLegacyVoiceNote(prisma, photo);
+
+  return prisma.voiceNote.findFirst({
+    where: { photoId: photo.id },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+function sendPollable(reply: FastifyReply, status: string, body: Record<string, unknown>) {
+  if (status === 'PENDING') {
+    reply.header('Retry-After', String(TRANSCRIPTION_POLL_SECONDS));
+  }
+
+  return reply.header('Cache-Control', 'no-store').send(body);
+}
+
+function formatVoiceNote(voiceNote: any) {
+  return {
+    id: voiceNote.id,
+    photoId: voiceNote.photoId,
+    authorId: voiceNote.author.id,
+    authorName: voiceNote.author.name,
+    authorAvatarUrl: voiceNote.author.avatarUrl,
+    audioUrl: voiceNote.audioUrl,
+    durationSeconds: voiceNote.durationSeconds,
+    transcription: voiceNote.transcription,
+    transcriptionStatus: voiceNote.transcriptionStatus,
+    transcriptionError: voiceNote.transcriptionError,
+    createdAt: voiceNote.createdAt,
+  };
+}
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { AccountToken, AccountTokenType, PrismaClient } from '@prisma/client';
+
+// Reset links are short-lived; verification links may sit in an inbox for a while
+const TOKEN_TTL_MS: Record<AccountTokenType, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000,
+  EMAIL_VERIFICATION: 7 * 24 * 60 * 60 * 1000,
+};
+
+export class AccountTokenService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // Returns the raw token for the emailed link; earlier unused links of the same type stop working
+  async issue(userId: string, type: AccountTokenType, email: string): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await this.prisma.$transaction([
+      this.prisma.accountToken.deleteMany({ where: { userId, type, usedAt: null } }),
+      this.prisma.accountToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: hashToken(token),
+          email,
+          expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Marks the token used and returns it, or null if it is unknown, expired or
+   * already used. The update is conditional, so two requests racing with the
+   * same link cannot both succeed.
+   */
+  async consume(token: string, type: AccountTokenType): Promise<AccountToken | null> {
+    const tokenHash = hashToken(token);
+
+    const { count } = await this.prisma.accountToken.updateMany({
+      where: { tokenHash, type, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) return null;
+
+    return this.prisma.accountToken.findUnique({ where: { tokenHash } });
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function createAccountTokenService(prisma: PrismaClient): AccountTokenService {
+  return new AccountTokenService(prisma);
+}
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+const APPLE_ISSUER = 'https://appleid.apple.com';
+const DEFAULT_APPLE_JWKS_URL = 'https://appleid.apple.com/auth/keys';
+// The iOS app's bundle ID; web sign-in uses a separate services ID
+const DEFAULT_APPLE_CLIENT_ID = 'com.mark.procam360';
+
+const KEY_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// Apple rotates keys without notice, but an unknown kid must not let callers hammer the endpoint
+const MIN_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface AppleIdentity {
+  appleId: string;
+  email: string | null;
+  // Apple only reports this for addresses it has confirmed, including private relay addresses
+  emailVerified: boolean;
+}
+
+interface AppleIdentityClaims extends jwt.JwtPayload {
+  email?: string;
+  email_verified?: boolean | 'true' | 'false';
+  nonce?: string;
+}
+
+interface JsonWebKeySet {
+  keys: (crypto.JsonWebKey & { kid?: string })[];
+}
+
+// Thrown when a token is forged, expired or meant for another app, as opposed to Apple being unreachable
+export class AppleTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AppleTokenError';
+  }
+}
+
+export interface AppleKeySet {
+  getKey(kid: string): Promise<crypto.KeyObject | null>;
+}
+
+// Apple's published signing keys, fetched on demand and cached
+export class RemoteAppleKeySet implements AppleKeySet {
+  private url: string;
+  private keys = new Map<string, crypto.KeyObject>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(url = process.env.APPLE_JWKS_URL || DEFAULT_APPLE_JWKS_URL) {
+    this.url = url;
+  }
+
+  async getKey(kid: string): Promise<crypto.KeyObject | null> {
+    const age = Date.now() - this.fetchedAt;
+
+    if (age > KEY_CACHE_TTL_MS || (!this.keys.has(kid) && age > MIN_REFRESH_INTERVAL_MS)) {
+      try {
+        await this.refresh();
+      } catch (error) {
+        // Keep signing people in with the keys we have if Apple is briefly unreachable
+        if (this.keys.size === 0) throw error;
+        console.warn('Failed to refresh Apple signing keys:', error);
+      }
+    }
+
+    return this.keys.get(kid) ?? null;
+  }
+
+  private refresh(): Promise<void> {
+    // Concurrent sign-ins share one request
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    const response = await fetch(this.url);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Apple signing keys: ${response.status} ${response.statusText}`);
+    }
+
+    this.keys = importKeySet((await response.json()) as JsonWebKeySet);
+    this.fetchedAt = Date.now();
+  }
+}
+
+// A fixed key set, e.g. a locally generated key for tests
+export class StaticAppleKeySet implements AppleKeySet {
+  private keys: Map<string, crypto.KeyObject>;
+
+  constructor(jwks: JsonWebKeySet) {
+    this.keys = importKeySet(jwks);
+  }
+
+  async getKey(kid: string): Promise<crypto.KeyObject | null> {
+    return this.keys.get(kid) ?? null;
+  }
+}
+
+let appleKeySet: AppleKeySet | null = null;
+
+export function getAppleKeySet(): AppleKeySet {
+  if (!appleKeySet) {
+    appleKeySet = new RemoteAppleKeySet();
+  }
+  return appleKeySet;
+}
+
+// Replaces Apple's published keys, e.g. with a StaticAppleKeySet in tests
+export function setAppleKeySet(keySet: AppleKeySet): void {
+  appleKeySet = keySet;
+}
+
+export function getAppleClientIds(): [string, ...string[]] {
+  const [first, ...rest] = (process.env.APPLE_CLIENT_IDS || '')
+    .split(',')
+    .map((clientId) => clientId.trim())
+    .filter(Boolean);
+
+  return first ? [first, ...rest] : [DEFAULT_APPLE_CLIENT_ID];
+}
+
+/**
+ * Checks an identity token from Sign in with Apple: the signature against
+ * Apple's keys, then issuer, audience and expiry. When the client started the
+ * sign-in with a nonce it must send the raw value here; Apple embeds its
+ * SHA-256 (or the value itself, from the JS SDK) so a captured token cannot be
+ * replayed in another sign-in.
+ */
+export async function verifyAppleIdentityToken(identityToken: string, nonce?: string): Promise<AppleIdentity> {
+  const decoded = jwt.decode(identityToken, { complete: true });
+
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new AppleTokenError('Malformed identity token');
+  }
+
+  if (decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+    throw new AppleTokenError(`Unexpected token header: alg ${decoded.header.alg}, kid ${decoded.header.kid}`);
+  }
+
+  const key = await getAppleKeySet().getKey(decoded.header.kid);
+
+  if (!key) {
+    throw new AppleTokenError(`Unknown signing key: ${decoded.header.kid}`);
+  }
+
+  let claims: AppleIdentityClaims;
+
+  try {
+    claims = jwt.verify(identityToken, key, {
+      algorithms: ['RS256'],
+      issuer: APPLE_ISSUER,
+      audience: getAppleClientIds(),
+    }) as AppleIdentityClaims;
+  } catch (error) {
+    throw new AppleTokenError(error instanceof Error ? error.message : 'Invalid identity token');
+  }
+
+  // jsonwebtoken only checks expiry when the claim is present
+  if (typeof claims.exp !== 'number') {
+    throw new AppleTokenError('Identity token has no expiry');
+  }
+
+  if (!claims.sub) {
+    throw new AppleTokenError('Identity token has no subject');
+  }
+
+  if (claims.nonce !== undefined || nonce !== undefined) {
+    if (nonce === undefined) {
+      throw new AppleTokenError('Nonce required for this identity token');
+    }
+
+    const hashedNonce = crypto.createHash('sha256').update(nonce).digest('hex');
+    if (claims.nonce !== hashedNonce && claims.nonce !== nonce) {
+      throw new AppleTokenError('Nonce mismatch');
+    }
+  }
+
+  return {
+    appleId: claims.sub,
+    email: claims.email ?? null,
+    emailVerified: !!claims.email && (claims.email_verified === true || claims.email_verified === 'true'),
+  };
+}
+
+function importKeySet(jwks: JsonWebKeySet): Map<string, crypto.KeyObject> {
+  const keys = new Map<string, crypto.KeyObject>();
+
+  for (const jwk of jwks.keys ?? []) {
+    if (!jwk.kid || jwk.kty !== 'RSA') continue;
+    keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+  }
+
+  return keys;
+}
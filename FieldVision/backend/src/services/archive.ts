@@ -0,0 +1,248 @@
+import archiver, { Archiver } from 'archiver';
+import path from 'path';
+import { Readable } from 'stream';
+import { MediaType } from '@prisma/client';
+import { fileNameTimestamp } from '../lib/dates.js';
+import { hasLocation } from '../lib/geo.js';
+import { formatPhotoTags, photoTagsInclude } from '../lib/tags.js';
+import { getStorageService, openStoredFile, StorageService } from './storage.js';
+
+// Each file is a separate storage request; larger selections are downloaded in parts
+export const MAX_ARCHIVE_ITEMS = 5000;
+
+export const MANIFEST_FORMATS = ['csv', 'json'] as const;
+export type ManifestFormat = (typeof MANIFEST_FORMATS)[number];
+
+export interface ArchiveOptions {
+  manifest?: ManifestFormat;
+  // IANA zone for the capture times in file names, e.g. the requesting browser's
+  timeZone?: string;
+}
+
+export const archivePhotoSelect = {
+  id: true,
+  capturedAt: true,
+  latitude: true,
+  longitude: true,
+  mediaType: true,
+  remoteUrl: true,
+  note: true,
+  folder: { select: { name: true } },
+  uploader: { select: { name: true } },
+  tags: photoTagsInclude,
+};
+
+export interface ArchivePhoto {
+  id: string;
+  capturedAt: Date;
+  latitude: number;
+  longitude: number;
+  mediaType: MediaType;
+  remoteUrl: string;
+  note: string | null;
+  folder: { name: string } | null;
+  uploader: { name: string };
+  tags: { tag: { id: string; name: string; color: string } }[];
+}
+
+const MANIFEST_COLUMNS = [
+  'file',
+  'id',
+  'mediaType',
+  'capturedAt',
+  'folder',
+  'latitude',
+  'longitude',
+  'note',
+  'tags',
+  'uploadedBy',
+] as const;
+
+type ManifestRow = Record<(typeof MANIFEST_COLUMNS)[number], string | number | null>;
+
+export class ArchiveService {
+  private storage: StorageService;
+
+  constructor() {
+    this.storage = getStorageService();
+  }
+
+  /**
+   * Returns a ZIP stream of the given media, laid out as one directory per
+   * folder. Files are fetched from storage one at a time as the client reads,
+   * so memory use does not grow with the size of the download. Files that
+   * cannot be read are skipped and listed in missing-files.txt.
+   */
+  createArchive(photos: ArchivePhoto[], options: ArchiveOptions = {}): Readable {
+    // Photos and videos are already compressed; only the manifest is deflated
+    const archive = archiver('zip', { zlib: { level: 6 } });
+
+    this.fill(archive, photos, options).catch((error) => {
+      console.error('ZIP download failed:', error);
+      archive.destroy(error);
+    });
+
+    return archive;
+  }
+
+  private async fill(archive: Archiver, photos: ArchivePhoto[], options: ArchiveOptions): Promise<void> {
+    const names = entryNames(photos, options.timeZone);
+    const missing = new Set<string>();
+
+    for (let i = 0; i < photos.length; i++) {
+      const photo = photos[i];
+
+      let source: Readable | null;
+      try {
+        // Only files in our own storage; anything else is listed as missing
+        source = await openStoredFile(this.storage, photo.remoteUrl);
+      } catch (error) {
+        console.warn(`ZIP entry for photo ${photo.id} could not be read:`, error);
+        source = null;
+      }
+
+      if (!source) {
+        missing.add(names[i]);
+        continue;
+      }
+
+      archive.append(source, { name: names[i], date: photo.capturedAt, store: true });
+
+      if (!(await entryWritten(archive))) {
+        // The client went away; stop fetching files
+        source.destroy();
+        return;
+      }
+    }
+
+    if (options.manifest) {
+      const rows = photos.map((photo, i) => manifestRow(photo, missing.has(names[i]) ? null : names[i]));
+      const manifest = options.manifest === 'csv' ? manifestCsv(rows) : JSON.stringify(rows, null, 2);
+      archive.append(manifest, { name: `manifest.${options.manifest}` });
+    }
+
+    if (missing.size > 0) {
+      archive.append(`These files could not be read and are not in this download:\n\n${[...missing].join('\n')}\n`, {
+        name: 'missing-files.txt',
+      });
+    }
+
+    await archive.finalize();
+  }
+}
+
+// Resolves true once the entry is written, or false if the archive was destroyed first
+function entryWritten(archive: Archiver): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      archive.off('entry', onEntry);
+      archive.off('close', onClose);
+      archive.off('error', onError);
+    };
+    const onEntry = () => {
+      cleanup();
+      resolve(true);
+    };
+    const onClose = () => {
+      cleanup();
+      resolve(false);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    archive.on('entry', onEntry);
+    archive.on('close', onClose);
+    archive.on('error', onError);
+  });
+}
+
+// "Kitchen/2026-03-04_103000_water-damage-under-sink.jpg"; unfiled media sits at the top level
+function entryNames(photos: ArchivePhoto[], timeZone?: string): string[] {
+  const used = new Set<string>();
+
+  return photos.map((photo) => {
+    const directory = photo.folder ? `${pathSegment(photo.folder.name)}/` : '';
+    const slug = photo.note ? slugify(photo.note) : '';
+    const base = `${directory}${fileNameTimestamp(photo.capturedAt, timeZone)}${slug ? `_${slug}` : ''}`;
+    const extension = fileExtension(photo);
+
+    let name = `${base}${extension}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base}-${n}${extension}`;
+    }
+    used.add(name.toLowerCase());
+
+    return name;
+  });
+}
+
+function fileExtension(photo: ArchivePhoto): string {
+  try {
+    const extension = path.extname(new URL(photo.remoteUrl).pathname).toLowerCase();
+    if (/^\.[a-z0-9]{1,5}$/.test(extension)) return extension;
+  } catch {
+    // Not a URL; fall back to the media type
+  }
+  return photo.mediaType === 'VIDEO' ? '.mp4' : '.jpg';
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, 40)
+    .replace(/^-+|-+$/g, '');
+}
+
+// Folder names are free text; keep them readable but safe on every OS
+function pathSegment(name: string): string {
+  const segment = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+    .replace(/^[\s.]+|[\s.]+$/g, '')
+    .slice(0, 80);
+  return segment || 'Folder';
+}
+
+function manifestRow(photo: ArchivePhoto, file: string | null): ManifestRow {
+  const located = hasLocation(photo);
+
+  return {
+    file,
+    id: photo.id,
+    mediaType: photo.mediaType,
+    capturedAt: photo.capturedAt.toISOString(),
+    folder: photo.folder?.name ?? null,
+    latitude: located ? photo.latitude : null,
+    longitude: located ? photo.longitude : null,
+    note: photo.note,
+    tags: formatPhotoTags(photo.tags)
+      .map((tag) => tag.name)
+      .join(', '),
+    uploadedBy: photo.uploader.name,
+  };
+}
+
+function manifestCsv(rows: ManifestRow[]): string {
+  const lines = [
+    MANIFEST_COLUMNS.join(','),
+    ...rows.map((row) => MANIFEST_COLUMNS.map((column) => csvField(row[column])).join(',')),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+
+  // Spreadsheets run cells starting with these as formulas
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function createArchiveService(): ArchiveService {
+  return new ArchiveService();
+}
@@ -0,0 +1,155 @@
+import { MemberRole } from '@prisma/client';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailLayout {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  // Small print under the button, e.g. when a link expires
+  footnote?: string;
+}
+
+const BRAND_COLOR = '#004E89';
+const ACCENT_COLOR = '#FF6B35';
+
+export function webUrl(pathname: string): string {
+  const baseUrl = process.env.WEB_URL || 'https://fieldvision.app';
+  return `${baseUrl}${pathname}`;
+}
+
+export function projectInvitationEmail(invitation: {
+  inviterName: string;
+  projectName: string;
+  role: MemberRole;
+  url: string;
+  expiresAt: Date;
+  hasAccount: boolean;
+}): EmailContent {
+  return render({
+    subject: `${invitation.inviterName} invited you to "${invitation.projectName}" on ProCam360`,
+    heading: `Join "${invitation.projectName}"`,
+    paragraphs: [
+      `${invitation.inviterName} invited you to join the project "${invitation.projectName}" as ${roleName(invitation.role)}.`,
+      invitation.hasAccount
+        ? 'Accept the invitation from your dashboard to see the project.'
+        : 'Create your free account to get started.',
+    ],
+    action: {
+      label: invitation.hasAccount ? 'View invitation' : 'Create account',
+      url: invitation.url,
+    },
+    footnote: `This invitation expires on ${invitation.expiresAt.toDateString()}.`,
+  });
+}
+
+export function teamInvitationEmail(invitation: { inviterName: string; url: string; expiresAt: Date }): EmailContent {
+  return render({
+    subject: `${invitation.inviterName} added you to their team on ProCam360`,
+    heading: 'You have been added to a team',
+    paragraphs: [
+      `${invitation.inviterName} added you to their team on ProCam360 so they can share projects with you.`,
+      'Create your free account to get started.',
+    ],
+    action: { label: 'Create account', url: invitation.url },
+    footnote: `This invitation expires on ${invitation.expiresAt.toDateString()}.`,
+  });
+}
+
+export function reportReadyEmail(report: { title: string; projectName: string; url: string }): EmailContent {
+  return render({
+    subject: `Your report "${report.title}" is ready`,
+    heading: 'Your report is ready',
+    paragraphs: [`"${report.title}" for ${report.projectName} has finished generating.`],
+    action: { label: 'Download report', url: report.url },
+  });
+}
+
+export function passwordResetEmail(account: { name: string; url: string }): EmailContent {
+  return render({
+    subject: 'Reset your ProCam360 password',
+    heading: 'Reset your password',
+    paragraphs: [
+      `Hi ${account.name}, we received a request to reset the password for your ProCam360 account.`,
+      "If you didn't ask for this, you can ignore this email; your password won't change.",
+    ],
+    action: { label: 'Choose a new password', url: account.url },
+    footnote: 'This link expires in 1 hour and can only be used once.',
+  });
+}
+
+export function verifyEmailEmail(account: { name: string; url: string }): EmailContent {
+  return render({
+    subject: 'Confirm your email for ProCam360',
+    heading: 'Confirm your email address',
+    paragraphs: [`Hi ${account.name}, please confirm this is the right email address for your ProCam360 account.`],
+    action: { label: 'Confirm email', url: account.url },
+    footnote: 'This link expires in 7 days.',
+  });
+}
+
+function roleName(role: MemberRole): string {
+  switch (role) {
+    case 'ADMIN':
+      return 'an admin';
+    case 'CREW':
+      return 'crew';
+    case 'VIEWER':
+      return 'a viewer';
+  }
+}
+
+// Every message is sent as plain text and as HTML built from the same parts
+function render(layout: EmailLayout): EmailContent {
+  const text = [
+    layout.heading,
+    '',
+    ...layout.paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...(layout.action ? [`${layout.action.label}: ${layout.action.url}`, ''] : []),
+    ...(layout.footnote ? [layout.footnote, ''] : []),
+    '-- ',
+    'ProCam360',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(layout.subject)}</title></head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;color:#111827">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="padding:24px 12px">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px;overflow:hidden">
+<tr><td style="background:${BRAND_COLOR};padding:16px 24px;color:#ffffff;font-size:18px;font-weight:bold">ProCam360</td></tr>
+<tr><td style="padding:24px">
+<h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(layout.heading)}</h1>
+${layout.paragraphs.map((paragraph) => `<p style="margin:0 0 12px;font-size:15px;line-height:1.5">${escapeHtml(paragraph)}</p>`).join('\n')}
+${
+  layout.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(layout.action.url)}" style="display:inline-block;background:${ACCENT_COLOR};color:#ffffff;text-decoration:none;font-weight:bold;padding:12px 20px;border-radius:8px">${escapeHtml(layout.action.label)}</a></p>
+<p style="margin:0 0 12px;font-size:12px;color:#6b7280;word-break:break-all">Or open this link: ${escapeHtml(layout.action.url)}</p>`
+    : ''
+}
+${layout.footnote ? `<p style="margin:0;font-size:12px;color:#6b7280">${escapeHtml(layout.footnote)}</p>` : ''}
+</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>
+`;
+
+  return { subject: layout.subject, text, html };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
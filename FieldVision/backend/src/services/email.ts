@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { PrismaClient } from '@prisma/client';
+
+export const SEND_EMAIL_JOB = 'email.send';
+
+// Account emails (password resets, verification) ignore preferences; the rest can be turned off
+export const EMAIL_CATEGORIES = ['account', 'invitations', 'reports'] as const;
+export type EmailCategory = (typeof EMAIL_CATEGORIES)[number];
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SendEmailJobPayload {
+  message: EmailMessage;
+  category: EmailCategory;
+  // Recipient's account, when they have one, for checking their preferences
+  userId?: string;
+}
+
+// Anything that can deliver a message; selected with EMAIL_TRANSPORT
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export function getEmailFrom(): string {
+  return process.env.EMAIL_FROM || 'ProCam360 <no-reply@fieldvision.app>';
+}
+
+// Development default: prints messages so links can be copied from the log
+export class ConsoleEmailTransport implements EmailTransport {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message as an .eml file that opens in any mail client
+export class FileEmailTransport implements EmailTransport {
+  private directory: string;
+  private composer: Transporter;
+
+  constructor() {
+    this.directory = path.resolve(process.env.EMAIL_FILE_DIR || './emails');
+    this.composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    const { message: raw } = await this.composer.sendMail({ ...message, from: getEmailFrom() });
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), raw as Buffer);
+  }
+}
+
+// Any SMTP server, including local sinks such as Mailpit (SMTP_HOST=localhost SMTP_PORT=1025)
+export class SmtpEmailTransport implements EmailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required for smtp email');
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS when the server offers it
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ ...message, from: getEmailFrom() });
+  }
+}
+
+let emailTransport: EmailTransport | null = null;
+
+export function getEmailTransportName(): string {
+  return process.env.EMAIL_TRANSPORT || 'console';
+}
+
+export function getEmailTransport(): EmailTransport {
+  if (!emailTransport) {
+    switch (getEmailTransportName()) {
+      case 'console':
+        emailTransport = new ConsoleEmailTransport();
+        break;
+      case 'file':
+        emailTransport = new FileEmailTransport();
+        break;
+      case 'smtp':
+        emailTransport = new SmtpEmailTransport();
+        break;
+      default:
+        throw new Error(`Unknown EMAIL_TRANSPORT: ${getEmailTransportName()}`);
+    }
+  }
+  return emailTransport;
+}
+
+// Replaces the configured transport, e.g. with a provider SDK or a test double
+export function setEmailTransport(transport: EmailTransport): void {
+  emailTransport = transport;
+}
+
+export class EmailService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async send({ message, category, userId }: SendEmailJobPayload): Promise<void> {
+    if (userId && category !== 'account') {
+      const prefs = await this.prisma.notificationPreferences.findUnique({
+        where: { userId },
+      });
+
+      // No preferences saved yet means the defaults, which send everything
+      if (prefs && !this.checkPreferences(prefs, category)) return;
+    }
+
+    await getEmailTransport().send(message);
+  }
+
+  private checkPreferences(
+    prefs: { emailInvitations: boolean; emailReports: boolean },
+    category: EmailCategory
+  ): boolean {
+    switch (category) {
+      case 'invitations':
+        return prefs.emailInvitations;
+      case 'reports':
+        return prefs.emailReports;
+      default:
+        return true;
+    }
+  }
+}
+
+export function createEmailService(prisma: PrismaClient): EmailService {
+  return new EmailService(prisma);
+}
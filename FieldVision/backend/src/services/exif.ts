@@ -0,0 +1,103 @@
+import exifr from 'exifr';
+
+export interface PhotoMetadata {
+  capturedAt: Date | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  heading: number | null;
+  orientation: number | null;
+  make: string | null;
+  model: string | null;
+  lensModel: string | null;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Reads EXIF/GPS tags from a JPEG or HEIC buffer. Returns null when the file
+ * carries no readable metadata.
+ */
+export async function extractPhotoMetadata(buffer: Buffer): Promise<PhotoMetadata | null> {
+  let tags: Record<string, any> | undefined;
+  try {
+    tags = await exifr.parse(buffer, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      translateValues: false,
+      reviveValues: false,
+    });
+  } catch {
+    return null;
+  }
+
+  if (!tags) return null;
+
+  return {
+    capturedAt: parseCaptureTime(tags),
+    latitude: isFiniteNumber(tags.latitude) ? tags.latitude : null,
+    longitude: isFiniteNumber(tags.longitude) ? tags.longitude : null,
+    altitude: isFiniteNumber(tags.GPSAltitude) ? tags.GPSAltitude : null,
+    heading: isFiniteNumber(tags.GPSImgDirection) ? tags.GPSImgDirection : null,
+    orientation: isFiniteNumber(tags.Orientation) ? tags.Orientation : null,
+    make: typeof tags.Make === 'string' ? tags.Make.trim() : null,
+    model: typeof tags.Model === 'string' ? tags.Model.trim() : null,
+    lensModel: typeof tags.LensModel === 'string' ? tags.LensModel.trim() : null,
+    raw: toJsonSafe(tags),
+  };
+}
+
+// EXIF timestamps ("YYYY:MM:DD HH:MM:SS") carry no zone. Prefer the offset tag
+// written by modern phones, then the GPS clock (always UTC), and only then
+// fall back to reading the camera's local time as UTC.
+function parseCaptureTime(tags: Record<string, any>): Date | null {
+  const original = typeof tags.DateTimeOriginal === 'string'
+    ? tags.DateTimeOriginal
+    : typeof tags.CreateDate === 'string' ? tags.CreateDate : null;
+  const offset = typeof tags.OffsetTimeOriginal === 'string' ? tags.OffsetTimeOriginal : null;
+
+  if (original && offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    const date = parseExifDate(original, offset);
+    if (date) return date;
+  }
+
+  if (typeof tags.GPSDateStamp === 'string' && Array.isArray(tags.GPSTimeStamp)) {
+    const [hours, minutes, seconds] = tags.GPSTimeStamp as number[];
+    const time = [hours, minutes, Math.floor(seconds)].map((n) => String(n).padStart(2, '0')).join(':');
+    const date = parseExifDate(`${tags.GPSDateStamp} ${time}`, 'Z');
+    if (date) return date;
+  }
+
+  return original ? parseExifDate(original, 'Z') : null;
+}
+
+function parseExifDate(value: string, offset: string): Date | null {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds] = match;
+  const date = new Date(`${year}-${month}-${day}T${hours}:${minutes}:${seconds}${offset}`);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Drop binary blobs (thumbnails, maker notes) so the tags fit in a JSON column
+function toJsonSafe(tags: Record<string, any>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(tags)) {
+    if (value instanceof Uint8Array || value === undefined) continue;
+    if (typeof value === 'number' && !Number.isFinite(value)) continue;
+    if (typeof value === 'string') {
+      result[key] = value.replace(/\u0000/g, '');
+      continue;
+    }
+    result[key] = value;
+  }
+
+  return result;
+}
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { Invitation, MemberRole, PrismaClient } from '@prisma/client';
+import { EmailMessage } from './email.js';
+import { projectInvitationEmail, teamInvitationEmail, webUrl } from './email-templates.js';
+
+const INVITATION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface InviteInput {
+  email: string;
+  // Null invites the person as a team contact of the inviter
+  projectId: string | null;
+  role: MemberRole;
+  nickname?: string | null;
+  invitedById: string;
+  // Whether the email already belongs to an account, which changes the email's link
+  hasAccount?: boolean;
+}
+
+// Anyone can sign up with someone else's address, so invitations only reach verified ones
+export interface InvitationRecipient {
+  id: string;
+  email: string;
+  emailVerifiedAt: Date | null;
+}
+
+export type InvitationWithNames = Invitation & {
+  invitedBy: { name: string };
+  project: { name: string } | null;
+};
+
+const namesInclude = {
+  invitedBy: { select: { name: true } },
+  project: { select: { name: true } },
+};
+
+export class InvitationService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // Inviting the same email again renews the pending invitation instead of adding another
+  async invite(input: InviteInput): Promise<{ invitation: InvitationWithNames; message: EmailMessage }> {
+    const email = input.email.toLowerCase();
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+    const existing = await this.prisma.invitation.findFirst({
+      where: {
+        email,
+        projectId: input.projectId,
+        status: 'PENDING',
+        // Team contact invitations belong to whoever sent them
+        ...(input.projectId === null && { invitedById: input.invitedById }),
+      },
+    });
+
+    const invitation: InvitationWithNames = existing
+      ? await this.prisma.invitation.update({
+          where: { id: existing.id },
+          data: { role: input.role, nickname: input.nickname, invitedById: input.invitedById, expiresAt },
+          include: namesInclude,
+        })
+      : await this.prisma.invitation.create({
+          data: {
+            email,
+            projectId: input.projectId,
+            role: input.role,
+            nickname: input.nickname,
+            invitedById: input.invitedById,
+            token: crypto.randomBytes(32).toString('hex'),
+            expiresAt,
+          },
+          include: namesInclude,
+        });
+
+    return { invitation, message: invitationEmail(invitation, input.hasAccount ?? false) };
+  }
+
+  // Project invitations waiting on the owner of this email; none until they have verified it
+  async listForEmail(user: InvitationRecipient): Promise<InvitationWithNames[]> {
+    if (!user.emailVerifiedAt) {
+      return [];
+    }
+
+    return this.prisma.invitation.findMany({
+      where: {
+        email: user.email.toLowerCase(),
+        projectId: { not: null },
+        status: 'PENDING',
+        expiresAt: { gt: new Date() },
+      },
+      include: namesInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async listForProject(projectId: string): Promise<InvitationWithNames[]> {
+    return this.prisma.invitation.findMany({
+      where: { projectId, status: 'PENDING', expiresAt: { gt: new Date() } },
+      include: namesInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // A pending, unexpired invitation addressed to this user's verified email, or null
+  async findPendingForEmail(id: string, user: InvitationRecipient): Promise<InvitationWithNames | null> {
+    if (!user.emailVerifiedAt) {
+      return null;
+    }
+
+    return this.prisma.invitation.findFirst({
+      where: { id, email: user.email.toLowerCase(), status: 'PENDING', expiresAt: { gt: new Date() } },
+      include: namesInclude,
+    });
+  }
+
+  // Adds the user to the project (or the inviter's team) and closes the invitation
+  async accept(invitation: Invitation, userId: string): Promise<void> {
+    await this.prisma.$transaction([
+      invitation.projectId
+        ? this.prisma.projectMember.upsert({
+            where: { projectId_userId: { projectId: invitation.projectId, userId } },
+            create: { projectId: invitation.projectId, userId, role: invitation.role },
+            update: {},
+          })
+        : this.prisma.teamContact.upsert({
+            where: { ownerId_contactId: { ownerId: invitation.invitedById, contactId: userId } },
+            create: {
+              ownerId: invitation.invitedById,
+              contactId: userId,
+              nickname: invitation.nickname,
+              defaultRole: invitation.role,
+            },
+            update: {},
+          }),
+      this.prisma.invitation.update({
+        where: { id: invitation.id },
+        data: { status: 'ACCEPTED', respondedAt: new Date() },
+      }),
+    ]);
+  }
+
+  async decline(invitation: Invitation): Promise<void> {
+    await this.prisma.invitation.update({
+      where: { id: invitation.id },
+      data: { status: 'DECLINED', respondedAt: new Date() },
+    });
+  }
+
+  /**
+   * Applies invitations when a user signs up or confirms their email. Team
+   * contact invitations for the email are accepted once the address is
+   * verified, as is the invitation whose link they signed up from, even if they
+   * used a different email address. Other project invitations stay pending for
+   * the user to accept or decline.
+   */
+  async acceptPendingInvitations(user: InvitationRecipient, token?: string): Promise<Invitation[]> {
+    const matches = [
+      ...(user.emailVerifiedAt ? [{ email: user.email.toLowerCase(), projectId: null }] : []),
+      ...(token ? [{ token }] : []),
+    ];
+
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const invitations = await this.prisma.invitation.findMany({
+      where: { status: 'PENDING', expiresAt: { gt: new Date() }, OR: matches },
+    });
+
+    for (const invitation of invitations) {
+      await this.accept(invitation, user.id);
+    }
+
+    return invitations;
+  }
+}
+
+function invitationEmail(invitation: InvitationWithNames, hasAccount: boolean): EmailMessage {
+  const expiresAt = invitation.expiresAt;
+  const inviterName = invitation.invitedBy.name;
+  const signUpUrl = webUrl(`/register?${new URLSearchParams({ invite: invitation.token, email: invitation.email })}`);
+
+  const content = invitation.project
+    ? projectInvitationEmail({
+        inviterName,
+        projectName: invitation.project.name,
+        role: invitation.role,
+        url: hasAccount ? webUrl('/dashboard') : signUpUrl,
+        expiresAt,
+        hasAccount,
+      })
+    : teamInvitationEmail({ inviterName, url: signUpUrl, expiresAt });
+
+  return { to: invitation.email, ...content };
+}
+
+export function formatInvitation(invitation: InvitationWithNames) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    projectId: invitation.projectId,
+    projectName: invitation.project?.name ?? null,
+    role: invitation.role,
+    nickname: invitation.nickname,
+    status: invitation.status,
+    invitedById: invitation.invitedById,
+    invitedByName: invitation.invitedBy.name,
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+export function createInvitationService(prisma: PrismaClient): InvitationService {
+  return new InvitationService(prisma);
+}
@@ -0,0 +1,221 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type JobHandler = (payload: any) => Promise<void>;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+export interface RegisterOptions<T> {
+  // Default attempt budget for jobs of this type
+  maxAttempts?: number;
+  // Called once a job has used up its attempts and moved to the dead-letter state
+  onDead?: (payload: T, error: Error) => Promise<void>;
+}
+
+// Thrown by a handler when retrying cannot help, e.g. the input itself is unusable; the job goes straight to DEAD
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  options: RegisterOptions<any>;
+}
+
+interface ClaimedJob {
+  id: string;
+  type: string;
+  payload: unknown;
+  attempts: number;
+  maxAttempts: number;
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000', 10);
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+// Well inside the timeout so a slow database write cannot let a live job look abandoned
+const HEARTBEAT_INTERVAL_MS = 2 * 60 * 1000;
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export class JobQueue {
+  private prisma: PrismaClient;
+  private handlers = new Map<string, RegisteredHandler>();
+  private running = false;
+  private wakeUp: (() => void) | null = null;
+  private loop: Promise<void> | null = null;
+  private lastMaintenance = 0;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  register<T>(
+    type: string,
+    handler: (payload: T) => Promise<void>,
+    options: RegisterOptions<T> = {}
+  ): void {
+    this.handlers.set(type, { handler, options });
+  }
+
+  async enqueue<T>(type: string, payload: T, options: EnqueueOptions = {}): Promise<void> {
+    const maxAttempts = options.maxAttempts ?? this.handlers.get(type)?.options.maxAttempts;
+
+    await this.prisma.job.create({
+      data: {
+        type,
+        payload: payload as Prisma.InputJsonValue,
+        runAt: options.runAt ?? new Date(),
+        ...(maxAttempts && { maxAttempts }),
+      },
+    });
+
+    this.wakeUp?.();
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.loop = this.work();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wakeUp?.();
+    await this.loop;
+  }
+
+  private async work(): Promise<void> {
+    while (this.running) {
+      let job: ClaimedJob | null = null;
+
+      try {
+        await this.runMaintenance();
+        job = await this.claimNext();
+      } catch (error) {
+        console.error('Job queue poll failed:', error);
+      }
+
+      if (job) {
+        await this.execute(job);
+        continue;
+      }
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+        this.wakeUp = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wakeUp = null;
+    }
+  }
+
+  // SKIP LOCKED lets several API instances poll the same table without
+  // handing the same job to two workers.
+  private async claimNext(): Promise<ClaimedJob | null> {
+    const types = Array.from(this.handlers.keys());
+    if (types.length === 0) return null;
+
+    const rows = await this.prisma.$queryRaw<ClaimedJob[]>`
+      UPDATE "jobs"
+      SET "status" = 'RUNNING', "lockedAt" = NOW(), "attempts" = "attempts" + 1, "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "jobs"
+        WHERE "status" = 'PENDING' AND "runAt" <= NOW() AND "type" = ANY(${types})
+        ORDER BY "runAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING "id", "type", "payload", "attempts", "maxAttempts"
+    `;
+
+    return rows[0] ?? null;
+  }
+
+  private async execute(job: ClaimedJob): Promise<void> {
+    const { handler, options } = this.handlers.get(job.type)!;
+
+    // Long reports and archives outlast the lock timeout; keep the lock fresh so maintenance leaves them running
+    const heartbeat = setInterval(() => {
+      this.prisma.job
+        .updateMany({
+          where: { id: job.id, status: 'RUNNING' },
+          data: { lockedAt: new Date() },
+        })
+        .catch((error) => {
+          console.error(`Failed to refresh lock for job ${job.id}:`, error);
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      await handler(job.payload);
+
+      await this.prisma.job.update({
+        where: { id: job.id },
+        data: { status: 'COMPLETED', completedAt: new Date(), lockedAt: null, lastError: null },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = job.attempts >= job.maxAttempts || error instanceof PermanentJobError;
+
+      console.error(`Job ${job.type} (${job.id}) failed on attempt ${job.attempts}:`, error);
+
+      await this.prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: exhausted ? 'DEAD' : 'PENDING',
+          lockedAt: null,
+          lastError: message,
+          ...(!exhausted && { runAt: new Date(Date.now() + retryDelay(job.attempts)) }),
+        },
+      }).catch((updateError) => {
+        console.error(`Failed to record failure for job ${job.id}:`, updateError);
+      });
+
+      if (exhausted && options.onDead) {
+        await options.onDead(job.payload, error instanceof Error ? error : new Error(message)).catch((hookError) => {
+          console.error(`Dead-letter hook failed for job ${job.id}:`, hookError);
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Requeue jobs whose worker died mid-run (their heartbeat stopped) and prune old completed jobs
+  private async runMaintenance(): Promise<void> {
+    if (Date.now() - this.lastMaintenance < MAINTENANCE_INTERVAL_MS) return;
+    this.lastMaintenance = Date.now();
+
+    await this.prisma.job.updateMany({
+      where: {
+        status: 'RUNNING',
+        lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) },
+      },
+      data: { status: 'PENDING', lockedAt: null },
+    });
+
+    await this.prisma.job.deleteMany({
+      where: {
+        status: 'COMPLETED',
+        completedAt: { lt: new Date(Date.now() - COMPLETED_RETENTION_MS) },
+      },
+    });
+  }
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export function createJobQueue(prisma: PrismaClient): JobQueue {
+  return new JobQueue(prisma);
+}
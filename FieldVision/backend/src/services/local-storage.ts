@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { sanitizeFileName, type StorageService, type UploadResult } from './storage.js';
+
+const UPLOAD_URL_EXPIRY_SECONDS = 3600;
+
+export class LocalDiskStorageService implements StorageService {
+  private rootDir: string;
+  private baseUrl: string;
+  private signingSecret: string;
+
+  constructor() {
+    this.rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), 'uploads'));
+    this.baseUrl = (process.env.API_URL || `http://localhost:${process.env.PORT || '3000'}`).replace(/\/$/, '');
+    const signingSecret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+
+    // A well-known default would let anyone sign their own upload URLs
+    if (!signingSecret) {
+      throw new Error('STORAGE_SIGNING_SECRET or JWT_SECRET must be set to use local storage');
+    }
+
+    this.signingSecret = signingSecret;
+  }
+
+  async uploadFile(
+    buffer: Buffer,
+    fileName: string,
+    contentType: string,
+    folder: string = 'photos'
+  ): Promise<UploadResult> {
+    const filePath = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+    const absolutePath = this.resolvePath(filePath);
+
+    if (!absolutePath) {
+      throw new Error('Failed to upload file: invalid path');
+    }
+
+    await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.promises.writeFile(absolutePath, buffer);
+
+    return {
+      url: this.getPublicUrl(filePath),
+      path: filePath,
+    };
+  }
+
+  async uploadLocalFile(
+    localPath: string,
+    fileName: string,
+    contentType: string,
+    folder: string = 'photos'
+  ): Promise<UploadResult> {
+    const filePath = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+    const absolutePath = this.resolvePath(filePath);
+
+    if (!absolutePath) {
+      throw new Error('Failed to upload file: invalid path');
+    }
+
+    await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.promises.copyFile(localPath, absolutePath);
+
+    return {
+      url: this.getPublicUrl(filePath),
+      path: filePath,
+    };
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    const absolutePath = this.resolvePath(filePath);
+    if (!absolutePath) return;
+
+    try {
+      await fs.promises.unlink(absolutePath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to delete file: ${error.message}`);
+      }
+    }
+  }
+
+  async downloadFile(filePath: string): Promise<Buffer> {
+    const absolutePath = this.resolvePath(filePath);
+    if (!absolutePath) {
+      throw new Error('Failed to download file: invalid path');
+    }
+
+    return fs.promises.readFile(absolutePath);
+  }
+
+  async downloadStream(filePath: string): Promise<Readable> {
+    const absolutePath = this.resolvePath(filePath);
+    if (!absolutePath) {
+      throw new Error('Failed to download file: invalid path');
+    }
+
+    // Opened up front so a missing file fails here rather than mid-stream
+    const handle = await fs.promises.open(absolutePath, 'r');
+    return handle.createReadStream();
+  }
+
+  async getSignedUploadUrl(
+    fileName: string,
+    folder: string = 'photos'
+  ): Promise<{ signedUrl: string; path: string; publicUrl: string }> {
+    const filePath = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+    const expires = Math.floor(Date.now() / 1000) + UPLOAD_URL_EXPIRY_SECONDS;
+    const token = this.signUploadToken(filePath, expires);
+
+    return {
+      signedUrl: `${this.baseUrl}/v1/storage/upload/${filePath}?expires=${expires}&token=${token}`,
+      path: filePath,
+      publicUrl: this.getPublicUrl(filePath),
+    };
+  }
+
+  getPublicUrl(filePath: string): string {
+    return `${this.baseUrl}/v1/storage/files/${filePath}`;
+  }
+
+  getPathFromUrl(url: string): string | null {
+    const prefix = `${this.baseUrl}/v1/storage/files/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+
+  /**
+   * Checks an upload token produced by getSignedUploadUrl. Tokens are bound to
+   * a single path and stop working once `expires` (unix seconds) has passed.
+   */
+  verifyUploadToken(filePath: string, expires: number, token: string): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.signUploadToken(filePath, expires));
+    const provided = Buffer.from(token);
+
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Maps a storage path onto the storage directory, returning null for paths
+   * that would escape it.
+   */
+  resolvePath(filePath: string): string | null {
+    const absolutePath = path.resolve(this.rootDir, filePath);
+    if (!absolutePath.startsWith(this.rootDir + path.sep)) {
+      return null;
+    }
+    return absolutePath;
+  }
+
+  private signUploadToken(filePath: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${filePath}:${expires}`)
+      .digest('base64url');
+  }
+}
@@ -0,0 +1,109 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import sharp from 'sharp';
+import { getStorageService, StorageService } from './storage.js';
+import { extractPhotoMetadata } from './exif.js';
+import { PermanentJobError } from './jobs.js';
+
+export const PROCESS_PHOTO_JOB = 'photo.process';
+
+const THUMBNAIL_SIZE = 400;
+const PREVIEW_SIZE = 1600;
+
+export interface ProcessPhotoPayload {
+  photoId: string;
+  // Set when the client did not supply these values and the EXIF data should fill them in
+  fillCapturedAt?: boolean;
+  fillLocation?: boolean;
+}
+
+export class MediaService {
+  private prisma: PrismaClient;
+  private storage: StorageService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.storage = getStorageService();
+  }
+
+  async processPhoto({ photoId, fillCapturedAt, fillLocation }: ProcessPhotoPayload): Promise<void> {
+    const photo = await this.prisma.photo.findUnique({
+      where: { id: photoId },
+    });
+
+    if (!photo || photo.mediaType !== 'PHOTO') return;
+
+    const originalPath = this.storage.getPathFromUrl(photo.remoteUrl);
+    if (!originalPath) {
+      console.warn(`Photo ${photoId} is not stored in the configured storage, skipping processing`);
+      return;
+    }
+
+    const original = await this.storage.downloadFile(originalPath);
+
+    await this.applyMetadata(photoId, original, { fillCapturedAt, fillLocation });
+    await this.generateDerivatives(photoId, photo.projectId, original);
+  }
+
+  private async applyMetadata(
+    photoId: string,
+    original: Buffer,
+    { fillCapturedAt, fillLocation }: { fillCapturedAt?: boolean; fillLocation?: boolean }
+  ): Promise<void> {
+    const metadata = await extractPhotoMetadata(original);
+    if (!metadata) return;
+
+    const hasLocation = metadata.latitude !== null && metadata.longitude !== null;
+
+    await this.prisma.photo.update({
+      where: { id: photoId },
+      data: {
+        exifData: metadata.raw as Prisma.InputJsonValue,
+        ...(fillCapturedAt && metadata.capturedAt && { capturedAt: metadata.capturedAt }),
+        ...(fillLocation && hasLocation && { latitude: metadata.latitude!, longitude: metadata.longitude! }),
+      },
+    });
+  }
+
+  private async generateDerivatives(photoId: string, projectId: string, original: Buffer): Promise<void> {
+    let thumbnail: Buffer;
+    let preview: Buffer;
+
+    // rotate() with no arguments applies the EXIF orientation before resizing
+    try {
+      [thumbnail, preview] = await Promise.all([
+        sharp(original)
+          .rotate()
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+          .jpeg({ quality: 75 })
+          .toBuffer(),
+        sharp(original)
+          .rotate()
+          .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+          .jpeg({ quality: 82 })
+          .toBuffer(),
+      ]);
+    } catch (error) {
+      // Decoding the same bytes fails the same way every time. The prebuilt sharp has no
+      // HEVC decoder, so iPhone HEIC photos land here and keep their original only.
+      const message = error instanceof Error ? error.message : String(error);
+      throw new PermanentJobError(`Cannot generate thumbnails for photo ${photoId}: ${message}`);
+    }
+
+    const [thumbnailUpload, previewUpload] = await Promise.all([
+      this.storage.uploadFile(thumbnail, `${photoId}.jpg`, 'image/jpeg', `projects/${projectId}/thumbnails`),
+      this.storage.uploadFile(preview, `${photoId}.jpg`, 'image/jpeg', `projects/${projectId}/previews`),
+    ]);
+
+    await this.prisma.photo.update({
+      where: { id: photoId },
+      data: {
+        thumbnailUrl: thumbnailUpload.url,
+        previewUrl: previewUpload.url,
+      },
+    });
+  }
+}
+
+export function createMediaService(prisma: PrismaClient): MediaService {
+  return new MediaService(prisma);
+}
@@ -1,11 +1,18 @@
 import { PrismaClient } from '@prisma/client';
 
-interface PushPayload {
+export const SEND_PUSH_JOB = 'push.send';
+
+export interface PushPayload {
   title: string;
   body: string;
   data?: Record<string, string>;
 }
 
+export interface SendPushJobPayload {
+  userId: string;
+  notification: PushPayload;
+}
+
 export class PushService {
   private prisma: PrismaClient;
 
@@ -66,6 +73,7 @@ export class PushService {
       case 'new_comment':
         return prefs.newComments;
       case 'project_invite':
+      case 'invite_response':
         return prefs.projectInvites;
       case 'sync_complete':
         return prefs.syncComplete;
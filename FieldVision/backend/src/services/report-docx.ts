@@ -0,0 +1,354 @@
+import {
+  AlignmentType,
+  convertMillimetersToTwip,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableBorders,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import sharp from 'sharp';
+import { finished } from 'stream/promises';
+import {
+  annotationSvg,
+  captionBlocks,
+  CaptionBlock,
+  coverLines,
+  formatDateTime,
+  isGrouped,
+  MARGIN_MM,
+  PAGE_HEIGHT_MM,
+  PAGE_WIDTH_MM,
+  PhotoPage,
+  photoGrid,
+  photoPages,
+  ReportContent,
+  ReportImage,
+  ReportPhoto,
+  sectionSummary,
+  sectionTitle,
+} from './report-layout.js';
+
+// Word measures images in pixels at 96 dpi
+const PX_PER_MM = 96 / 25.4;
+
+// Word flows text rather than clipping it, so photos get a little less room
+// than in the PDF to keep each grid on one page
+const IMAGE_SCALE = 0.85;
+
+const CONTENT_WIDTH_MM = PAGE_WIDTH_MM - MARGIN_MM * 2;
+
+const CAPTION_STYLES: Record<CaptionBlock['kind'], { italics: boolean; color: string }> = {
+  info: { italics: false, color: '505050' },
+  note: { italics: true, color: '3C3C3C' },
+  transcription: { italics: true, color: '3C3C3C' },
+  comment: { italics: false, color: '505050' },
+};
+
+/**
+ * Builds an editable Word version of the report from the same layout as the
+ * PDF. Annotations are flattened into the photos, and the table of contents
+ * is a Word field that fills in its page numbers when the file is opened.
+ * Unlike the PDF the whole document is held in memory until it is packed.
+ */
+export async function renderDocxReport(content: ReportContent, output: NodeJS.WritableStream): Promise<void> {
+  const grouped = isGrouped(content);
+  const children: (Paragraph | Table | TableOfContents)[] = [];
+
+  if (grouped) {
+    children.push(
+      new Paragraph({
+        children: [new TextRun({ text: 'Contents', bold: true, size: 40, color: hex(content.primaryColor) })],
+        spacing: { after: 240 },
+      }),
+      new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-1' })
+    );
+  }
+
+  // The content section already starts on a new page, so only later pages need a break
+  let pageStarted = !grouped;
+  const nextPage = () => {
+    if (pageStarted) {
+      pageStarted = false;
+      return [];
+    }
+    return [new Paragraph({ pageBreakBefore: true, spacing: { after: 0 } })];
+  };
+
+  let number = 1;
+  for (let s = 0; s < content.sections.length; s++) {
+    const section = content.sections[s];
+
+    if (grouped) {
+      children.push(
+        ...nextPage(),
+        new Paragraph({
+          children: [new TextRun({ text: `SECTION ${s + 1}`, bold: true, color: hex(content.accentColor) })],
+          spacing: { before: 2400 },
+        }),
+        new Paragraph({ text: sectionTitle(section), heading: HeadingLevel.HEADING_1 }),
+        ...sectionSummary(content, section).map(
+          (line) => new Paragraph({ children: [new TextRun({ text: line, size: 28, color: '646464' })] })
+        )
+      );
+    }
+
+    for (const page of photoPages(content, section, number)) {
+      children.push(...nextPage(), ...(await photoPageContent(content, page)));
+    }
+    number += section.photos.length;
+  }
+
+  for (let i = 0; i < content.comparisons.length; i++) {
+    const pair = content.comparisons[i];
+    const title = pair.label || 'Before & After';
+
+    children.push(
+      ...nextPage(),
+      // The first comparison is the target of the contents entry
+      grouped && i === 0
+        ? new Paragraph({ text: 'Before & After', heading: HeadingLevel.HEADING_1 })
+        : new Paragraph({ children: [new TextRun({ text: title, bold: true, size: 28, color: hex(content.primaryColor) })] })
+    );
+    if (grouped && i === 0 && pair.label) {
+      children.push(new Paragraph({ children: [new TextRun({ text: pair.label, bold: true, size: 28 })] }));
+    }
+
+    for (const [label, photo] of [['BEFORE', pair.before], ['AFTER', pair.after]] as const) {
+      children.push(
+        new Paragraph({
+          children: [
+            new TextRun({ text: label, bold: true, color: hex(content.accentColor) }),
+            ...(content.includeDate
+              ? [new TextRun({ text: `    ${formatDateTime(photo.capturedAt, content.timeZone)}`, color: '505050' })]
+              : []),
+          ],
+          spacing: { before: 200, after: 80 },
+          keepNext: true,
+        }),
+        await imageParagraph(content, photo, CONTENT_WIDTH_MM, ((PAGE_HEIGHT_MM - 50) / 2 - 12) * IMAGE_SCALE)
+      );
+    }
+  }
+
+  const page = {
+    size: { width: convertMillimetersToTwip(PAGE_WIDTH_MM), height: convertMillimetersToTwip(PAGE_HEIGHT_MM) },
+    margin: {
+      top: convertMillimetersToTwip(25),
+      bottom: convertMillimetersToTwip(20),
+      left: convertMillimetersToTwip(MARGIN_MM),
+      right: convertMillimetersToTwip(MARGIN_MM),
+      header: convertMillimetersToTwip(10),
+      footer: convertMillimetersToTwip(8),
+    },
+  };
+
+  const doc = new Document({
+    creator: 'ProCam360',
+    title: content.title,
+    features: { updateFields: grouped },
+    styles: {
+      default: {
+        document: { run: { font: 'Arial', size: 20 } },
+        heading1: { run: { font: 'Arial', size: 60, bold: true, color: hex(content.primaryColor) } },
+      },
+    },
+    sections: [
+      { properties: { page }, children: coverContent(content) },
+      {
+        properties: { page },
+        headers: {
+          default: new Header({
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: content.project.name, bold: true, color: 'FFFFFF' })],
+                shading: { type: ShadingType.CLEAR, color: 'auto', fill: hex(content.primaryColor) },
+              }),
+            ],
+          }),
+        },
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [
+                  new TextRun({
+                    children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+                    size: 16,
+                    color: '969696',
+                  }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children,
+      },
+    ],
+  });
+
+  output.end(await Packer.toBuffer(doc));
+  await finished(output);
+}
+
+function coverContent(content: ReportContent): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+
+  if (content.logo) {
+    const size = fit(content.logo, 60 * PX_PER_MM, 28 * PX_PER_MM);
+    paragraphs.push(
+      new Paragraph({
+        alignment: AlignmentType.RIGHT,
+        children: [new ImageRun({ type: 'png', data: content.logo.data, transformation: size })],
+        spacing: { after: 200 },
+      })
+    );
+  }
+
+  paragraphs.push(
+    new Paragraph({
+      children: [new TextRun({ text: content.companyName, bold: true, size: 48, color: 'FFFFFF' })],
+      shading: { type: ShadingType.CLEAR, color: 'auto', fill: hex(content.accentColor) },
+      spacing: { after: 1200 },
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: content.title, bold: true, size: 56, color: hex(content.primaryColor) })],
+      spacing: { after: 480 },
+    }),
+    ...coverLines(content).map(
+      (line) =>
+        new Paragraph({
+          children: [new TextRun({ text: line, size: 28, color: '646464' })],
+          spacing: { after: 160 },
+        })
+    )
+  );
+
+  if (content.coverNote) {
+    paragraphs.push(
+      new Paragraph({
+        children: [new TextRun({ text: content.coverNote, size: 22, color: '505050' })],
+        spacing: { before: 360 },
+      })
+    );
+  }
+
+  paragraphs.push(
+    new Paragraph({
+      children: [new TextRun({ text: 'Generated with ProCam360', size: 20, color: '969696' })],
+      spacing: { before: 960 },
+    })
+  );
+
+  return paragraphs;
+}
+
+// One photo per row is laid out as plain paragraphs; two columns use a borderless table
+async function photoPageContent(content: ReportContent, page: PhotoPage): Promise<(Paragraph | Table)[]> {
+  const grid = photoGrid(content.photosPerPage);
+  const imageHeight = (grid.cellHeight - grid.captionHeight) * IMAGE_SCALE;
+
+  const cells = await Promise.all(
+    page.photos.map(async (photo) => [
+      await imageParagraph(content, photo, grid.cellWidth, imageHeight),
+      ...captionBlocks(content, photo).map((block) => captionParagraph(block, grid.fontSize)),
+    ])
+  );
+
+  if (grid.columns === 1) {
+    return cells.flat();
+  }
+
+  const rows: TableRow[] = [];
+  for (let i = 0; i < cells.length; i += grid.columns) {
+    const rowCells = cells.slice(i, i + grid.columns);
+    while (rowCells.length < grid.columns) rowCells.push([new Paragraph({})]);
+
+    rows.push(
+      new TableRow({
+        cantSplit: true,
+        children: rowCells.map(
+          (children) =>
+            new TableCell({
+              children,
+              width: { size: 100 / grid.columns, type: WidthType.PERCENTAGE },
+              margins: { right: convertMillimetersToTwip(3), bottom: convertMillimetersToTwip(4) },
+            })
+        ),
+      })
+    );
+  }
+
+  return [
+    new Table({
+      rows,
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: TableBorders.NONE,
+    }),
+  ];
+}
+
+function captionParagraph(block: CaptionBlock, fontSize: number): Paragraph {
+  const style = CAPTION_STYLES[block.kind];
+  return new Paragraph({
+    children: [new TextRun({ text: block.text, italics: style.italics, color: style.color, size: fontSize * 2 })],
+    spacing: { after: 60 },
+  });
+}
+
+async function imageParagraph(content: ReportContent, photo: ReportPhoto, maxWidthMm: number, maxHeightMm: number) {
+  const image = await content.loadImage(photo);
+
+  if (!image) {
+    return new Paragraph({
+      children: [new TextRun({ text: 'Image could not be loaded', color: '969696' })],
+      shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F5F5F5' },
+      spacing: { after: 120 },
+    });
+  }
+
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    keepNext: true,
+    spacing: { after: 120 },
+    children: [
+      new ImageRun({
+        type: 'jpg',
+        data: await flattenAnnotations(image, photo),
+        transformation: fit(image, maxWidthMm * PX_PER_MM, maxHeightMm * PX_PER_MM),
+      }),
+    ],
+  });
+}
+
+// Word has no overlay for vector shapes, so they are drawn into the JPEG
+async function flattenAnnotations(image: ReportImage, photo: ReportPhoto): Promise<Buffer> {
+  if (photo.annotations.length === 0) return image.data;
+
+  return sharp(image.data)
+    .composite([{ input: Buffer.from(annotationSvg(photo.annotations, image.width, image.height)) }])
+    .jpeg({ quality: 80 })
+    .toBuffer();
+}
+
+function fit(image: ReportImage, maxWidth: number, maxHeight: number): { width: number; height: number } {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: Math.round(image.width * scale), height: Math.round(image.height * scale) };
+}
+
+// docx takes colours without the leading #
+function hex(color: string): string {
+  return color.replace(/^#/, '');
+}
@@ -0,0 +1,218 @@
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import {
+  annotationSvg,
+  captionBlocks,
+  comparisonsSummary,
+  coverLines,
+  escapeXml,
+  formatDateTime,
+  isGrouped,
+  MARGIN_MM,
+  PhotoPage,
+  photoGrid,
+  photoPageCounter,
+  photoPages,
+  photoPageTitle,
+  ReportContent,
+  ReportPhoto,
+  sectionSummary,
+  sectionTitle,
+} from './report-layout.js';
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #e5e5e5; font-family: Helvetica, Arial, sans-serif; color: #282828; }
+  .page { width: 210mm; min-height: 297mm; margin: 12px auto; padding: ${MARGIN_MM}mm; background: #fff; break-after: page; }
+  .page-header { display: flex; justify-content: space-between; align-items: center; margin: -${MARGIN_MM}mm -${MARGIN_MM}mm ${MARGIN_MM}mm; padding: 0 ${MARGIN_MM}mm; height: 14mm; background: var(--primary); color: #fff; font-size: 10pt; }
+  .page-header strong { font-size: 12pt; }
+  .cover-band { margin: -${MARGIN_MM}mm -${MARGIN_MM}mm 40mm; padding: 0 ${MARGIN_MM}mm; height: 50mm; display: flex; justify-content: space-between; align-items: center; background: var(--accent); color: #fff; font-size: 24pt; font-weight: bold; }
+  .cover-band img { max-width: 60mm; max-height: 28mm; background: #fff; padding: 2mm; }
+  .cover h1 { color: var(--primary); font-size: 28pt; margin: 0 0 12mm; }
+  .cover p { color: #646464; font-size: 14pt; margin: 0 0 4mm; }
+  .cover .note { color: #505050; font-size: 11pt; white-space: pre-wrap; margin-top: 10mm; }
+  .cover .generated { color: #969696; font-size: 10pt; margin-top: 30mm; }
+  .contents h2 { color: var(--primary); font-size: 20pt; }
+  .contents a { display: flex; justify-content: space-between; padding: 3mm 0; border-bottom: 1px solid #e6e6e6; color: #282828; text-decoration: none; font-size: 12pt; }
+  .contents a span { color: #646464; font-size: 10pt; }
+  .divider { padding-top: 80mm; }
+  .divider .label { color: var(--accent); font-weight: bold; }
+  .divider h2 { color: var(--primary); font-size: 30pt; margin: 4mm 0 8mm; }
+  .divider p { color: #646464; font-size: 14pt; margin: 0 0 3mm; }
+  .grid { display: grid; gap: 6mm; }
+  figure { margin: 0; }
+  .photo { position: relative; background: #f5f5f5; }
+  .photo img { display: block; width: 100%; height: 100%; object-fit: contain; }
+  .photo svg { position: absolute; inset: 0; width: 100%; height: 100%; }
+  .missing { display: flex; align-items: center; justify-content: center; color: #969696; }
+  figcaption div { margin-top: 1.5mm; color: #505050; }
+  figcaption .note, figcaption .transcription { font-style: italic; color: #3c3c3c; }
+  .pair h3 { color: var(--primary); margin: 0 0 4mm; }
+  .pair .label { color: var(--accent); font-weight: bold; margin: 4mm 0 2mm; }
+  .pair .label span { color: #505050; font-weight: normal; margin-left: 4mm; }
+  @page { size: A4; margin: 0; }
+  @media print {
+    body { background: none; }
+    .page { margin: 0; }
+  }
+`;
+
+/**
+ * Writes the report as a single self-contained HTML file: photos and the
+ * logo are inlined as data URIs and annotations stay as SVG overlays, so it
+ * opens offline and prints to A4 from any browser. Pages are written as they
+ * are built, like the PDF, so only one page of images is in memory at a time.
+ */
+export async function renderHtmlReport(content: ReportContent, output: NodeJS.WritableStream): Promise<void> {
+  const grouped = isGrouped(content);
+
+  await write(
+    output,
+    `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n` +
+      `<title>${escapeXml(content.title)}</title>\n` +
+      `<style>:root { --primary: ${content.primaryColor}; --accent: ${content.accentColor}; }${STYLES}</style>\n` +
+      `</head>\n<body>\n`
+  );
+
+  await write(output, coverPage(content));
+
+  if (grouped) {
+    await write(output, tableOfContents(content));
+  }
+
+  let number = 1;
+  for (let s = 0; s < content.sections.length; s++) {
+    const section = content.sections[s];
+
+    if (grouped) {
+      await write(
+        output,
+        `<section class="page divider" id="section-${s + 1}">` +
+          `<div class="label">SECTION ${s + 1}</div>` +
+          `<h2>${escapeXml(sectionTitle(section))}</h2>` +
+          sectionSummary(content, section)
+            .map((line) => `<p>${escapeXml(line)}</p>`)
+            .join('') +
+          `</section>\n`
+      );
+    }
+
+    for (const page of photoPages(content, section, number)) {
+      await write(output, await photoPage(content, page));
+    }
+    number += section.photos.length;
+  }
+
+  for (let i = 0; i < content.comparisons.length; i++) {
+    await write(output, await comparisonPage(content, i));
+  }
+
+  output.end('</body>\n</html>\n');
+  await finished(output);
+}
+
+function coverPage(content: ReportContent): string {
+  const logo = content.logo
+    ? `<img src="data:image/png;base64,${content.logo.data.toString('base64')}" alt="">`
+    : '';
+
+  return (
+    `<section class="page cover">` +
+    `<div class="cover-band"><span>${escapeXml(content.companyName)}</span>${logo}</div>` +
+    `<h1>${escapeXml(content.title)}</h1>` +
+    coverLines(content)
+      .map((line) => `<p>${escapeXml(line)}</p>`)
+      .join('') +
+    (content.coverNote ? `<div class="note">${escapeXml(content.coverNote)}</div>` : '') +
+    `<div class="generated">Generated with ProCam360</div>` +
+    `</section>\n`
+  );
+}
+
+// Page numbers depend on the browser's print layout, so entries link instead
+function tableOfContents(content: ReportContent): string {
+  const entries = content.sections.map(
+    (section, s) =>
+      `<a href="#section-${s + 1}">${escapeXml(sectionTitle(section))}` +
+      `<span>${escapeXml(sectionSummary(content, section)[0])}</span></a>`
+  );
+  if (content.comparisons.length > 0) {
+    entries.push(
+      `<a href="#comparisons">Before &amp; After<span>${escapeXml(comparisonsSummary(content))}</span></a>`
+    );
+  }
+
+  return `<section class="page contents"><h2>Contents</h2>${entries.join('')}</section>\n`;
+}
+
+async function photoPage(content: ReportContent, page: PhotoPage): Promise<string> {
+  const grid = photoGrid(content.photosPerPage);
+
+  const figures: string[] = [];
+  for (const photo of page.photos) {
+    const captions = captionBlocks(content, photo)
+      .map((block) => `<div class="${block.kind}">${escapeXml(block.text)}</div>`)
+      .join('');
+
+    figures.push(
+      `<figure style="font-size: ${grid.fontSize}pt">` +
+        (await photoFrame(content, photo, grid.cellHeight - grid.captionHeight)) +
+        (captions ? `<figcaption>${captions}</figcaption>` : '') +
+        `</figure>`
+    );
+  }
+
+  return (
+    `<section class="page">` +
+    pageHeader(photoPageTitle(content, page), photoPageCounter(content, page)) +
+    `<div class="grid" style="grid-template-columns: repeat(${grid.columns}, 1fr)">${figures.join('')}</div>` +
+    `</section>\n`
+  );
+}
+
+async function comparisonPage(content: ReportContent, index: number): Promise<string> {
+  const pair = content.comparisons[index];
+  const halves: string[] = [];
+
+  for (const [label, photo] of [['BEFORE', pair.before], ['AFTER', pair.after]] as const) {
+    const date = content.includeDate
+      ? `<span>${escapeXml(formatDateTime(photo.capturedAt, content.timeZone))}</span>`
+      : '';
+    halves.push(`<div class="label">${label}${date}</div>` + (await photoFrame(content, photo, 110)));
+  }
+
+  return (
+    `<section class="page pair"${index === 0 ? ' id="comparisons"' : ''}>` +
+    pageHeader(content.project.name, `Comparison ${index + 1} of ${content.comparisons.length}`) +
+    `<h3>${escapeXml(pair.label || 'Before & After')}</h3>` +
+    halves.join('') +
+    `</section>\n`
+  );
+}
+
+function pageHeader(title: string, counter: string): string {
+  return `<header class="page-header"><strong>${escapeXml(title)}</strong><span>${escapeXml(counter)}</span></header>`;
+}
+
+async function photoFrame(content: ReportContent, photo: ReportPhoto, heightMm: number): Promise<string> {
+  const image = await content.loadImage(photo);
+
+  if (!image) {
+    return `<div class="photo missing" style="height: ${heightMm}mm">Image could not be loaded</div>`;
+  }
+
+  // The frame keeps the image's aspect ratio so the stretched overlay lines up with it
+  const overlay = photo.annotations.length > 0 ? annotationSvg(photo.annotations, image.width, image.height) : '';
+  const maxWidthMm = (heightMm * image.width) / image.height;
+
+  return (
+    `<div class="photo" style="width: min(100%, ${maxWidthMm.toFixed(1)}mm); aspect-ratio: ${image.width} / ${image.height}; margin: 0 auto">` +
+    `<img src="data:image/jpeg;base64,${image.data.toString('base64')}" alt="">${overlay}</div>`
+  );
+}
+
+async function write(output: NodeJS.WritableStream, chunk: string): Promise<void> {
+  if (!output.write(chunk)) {
+    await once(output as any, 'drain');
+  }
+}
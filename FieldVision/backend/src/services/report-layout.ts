@@ -0,0 +1,353 @@
+import { hasLocation } from '../lib/geo.js';
+
+// Shared by the PDF, DOCX and HTML renderers so every format lays a report
+// out the same way: same page grid, cover, sections and captions.
+
+export const DEFAULT_PRIMARY_COLOR = '#004E89';
+export const DEFAULT_ACCENT_COLOR = '#FF6B35';
+
+export const PHOTOS_PER_PAGE = [1, 2, 4, 6] as const;
+
+// Cover page lines a template can switch on, printed in this order
+export const COVER_FIELDS = ['address', 'client', 'photoCount', 'dateRange', 'preparedBy', 'generatedAt'] as const;
+export type CoverField = (typeof COVER_FIELDS)[number];
+
+// A4 page geometry in millimetres
+export const PAGE_WIDTH_MM = 210;
+export const PAGE_HEIGHT_MM = 297;
+export const MARGIN_MM = 15;
+export const HEADER_HEIGHT_MM = 20;
+export const FOOTER_HEIGHT_MM = 12;
+export const GRID_GAP_MM = 6;
+
+export interface PhotoGrid {
+  columns: number;
+  rows: number;
+  cellWidth: number;
+  cellHeight: number;
+  // Room left under each photo for its caption
+  captionHeight: number;
+  // Caption text size in points
+  fontSize: number;
+}
+
+const GRIDS: Record<number, { columns: number; rows: number; captionHeight: number; fontSize: number }> = {
+  1: { columns: 1, rows: 1, captionHeight: 60, fontSize: 11 },
+  2: { columns: 1, rows: 2, captionHeight: 24, fontSize: 9 },
+  4: { columns: 2, rows: 2, captionHeight: 26, fontSize: 8 },
+  6: { columns: 2, rows: 3, captionHeight: 18, fontSize: 7 },
+};
+
+// Same shapes the annotation routes accept: positions are fractions of the
+// image size, stroke widths and font sizes fractions of its width
+export type AnnotationShape =
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; color: string; strokeWidth: number }
+  | { type: 'rect' | 'ellipse'; x: number; y: number; width: number; height: number; color: string; strokeWidth: number }
+  | { type: 'freehand'; points: [number, number][]; color: string; strokeWidth: number }
+  | { type: 'text'; x: number; y: number; text: string; color: string; fontSize: number };
+
+export interface ReportComment {
+  author: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface ReportPhoto {
+  id: string;
+  capturedAt: Date;
+  latitude: number;
+  longitude: number;
+  note: string | null;
+  annotations: { shape: AnnotationShape }[];
+  // Left empty when the report does not include them
+  comments: ReportComment[];
+  transcriptions: string[];
+}
+
+// A run of photos printed together; the title shows in the page header
+export interface ReportSection {
+  title: string | null;
+  photos: ReportPhoto[];
+}
+
+export interface ReportPair {
+  label: string | null;
+  before: ReportPhoto;
+  after: ReportPhoto;
+}
+
+export interface ReportImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ReportContent {
+  title: string;
+  companyName: string;
+  project: { name: string; address: string; clientName: string | null };
+  preparedBy: string;
+  sections: ReportSection[];
+  comparisons: ReportPair[];
+  photosPerPage: number;
+  primaryColor: string;
+  accentColor: string;
+  logo: ReportImage | null;
+  coverFields: CoverField[];
+  coverNote: string | null;
+  includeNotes: boolean;
+  includeLocation: boolean;
+  includeDate: boolean;
+  timeZone?: string;
+  generatedAt: Date;
+  // Images are loaded one page at a time so large reports stay within memory
+  loadImage: (photo: ReportPhoto) => Promise<ReportImage | null>;
+}
+
+export type ReportRenderer = (content: ReportContent, output: NodeJS.WritableStream) => Promise<void>;
+
+export interface CaptionBlock {
+  kind: 'info' | 'note' | 'transcription' | 'comment';
+  text: string;
+}
+
+// One page worth of photos, numbered across the whole report
+export interface PhotoPage {
+  section: ReportSection;
+  photos: ReportPhoto[];
+  firstNumber: number;
+}
+
+export function photoGrid(photosPerPage: number): PhotoGrid {
+  const grid = GRIDS[photosPerPage] ?? GRIDS[1];
+  const top = HEADER_HEIGHT_MM + 8;
+
+  return {
+    ...grid,
+    cellWidth: (PAGE_WIDTH_MM - MARGIN_MM * 2 - GRID_GAP_MM * (grid.columns - 1)) / grid.columns,
+    cellHeight: (PAGE_HEIGHT_MM - top - FOOTER_HEIGHT_MM - GRID_GAP_MM * (grid.rows - 1)) / grid.rows,
+  };
+}
+
+// Sections only carry titles when the report is grouped by folder or day
+export function isGrouped(content: ReportContent): boolean {
+  return content.sections.some((section) => section.title !== null);
+}
+
+export function countPhotos(content: ReportContent): number {
+  return content.sections.reduce((sum, section) => sum + section.photos.length, 0);
+}
+
+// Splits a section into pages; each section starts on a fresh page
+export function photoPages(content: ReportContent, section: ReportSection, firstNumber: number): PhotoPage[] {
+  const pages: PhotoPage[] = [];
+  for (let i = 0; i < section.photos.length; i += content.photosPerPage) {
+    pages.push({
+      section,
+      photos: section.photos.slice(i, i + content.photosPerPage),
+      firstNumber: firstNumber + i,
+    });
+  }
+  return pages;
+}
+
+export function sectionTitle(section: ReportSection): string {
+  return section.title ?? 'Photos';
+}
+
+export function photoPageTitle(content: ReportContent, page: PhotoPage): string {
+  return page.section.title ? `${content.project.name} · ${page.section.title}` : content.project.name;
+}
+
+export function photoPageCounter(content: ReportContent, page: PhotoPage): string {
+  const total = countPhotos(content);
+  const lastNumber = page.firstNumber + page.photos.length - 1;
+
+  if (content.photosPerPage === 1) {
+    return `Photo ${page.firstNumber} of ${total}`;
+  }
+  return `Photos ${page.firstNumber}${lastNumber > page.firstNumber ? `–${lastNumber}` : ''} of ${total}`;
+}
+
+export function coverLines(content: ReportContent): string[] {
+  const photos = content.sections.flatMap((section) => section.photos);
+  const lines: string[] = [];
+
+  for (const field of COVER_FIELDS) {
+    if (!content.coverFields.includes(field)) continue;
+
+    switch (field) {
+      case 'address':
+        lines.push(`Address: ${content.project.address}`);
+        break;
+      case 'client':
+        if (content.project.clientName) lines.push(`Client: ${content.project.clientName}`);
+        break;
+      case 'photoCount':
+        lines.push(`Total Photos: ${photos.length}`);
+        break;
+      case 'dateRange': {
+        const span = formatDateSpan(photos, content.timeZone);
+        if (span) lines.push(`Photos Taken: ${span}`);
+        break;
+      }
+      case 'preparedBy':
+        lines.push(`Prepared By: ${content.preparedBy}`);
+        break;
+      case 'generatedAt':
+        lines.push(`Report Generated: ${formatDate(content.generatedAt, content.timeZone)}`);
+        break;
+    }
+  }
+
+  return lines;
+}
+
+// Photo count and date span, plus how many notes and comments the section holds
+export function sectionSummary(content: ReportContent, section: ReportSection): string[] {
+  const count = section.photos.length;
+  const lines = [`${count} photo${count === 1 ? '' : 's'}`];
+
+  const span = formatDateSpan(section.photos, content.timeZone);
+  if (span) lines.push(`Taken ${span}`);
+
+  const notes = content.includeNotes ? section.photos.filter((photo) => photo.note).length : 0;
+  if (notes > 0) lines.push(`${notes} with notes`);
+
+  const comments = section.photos.reduce((sum, photo) => sum + photo.comments.length, 0);
+  if (comments > 0) lines.push(`${comments} comment${comments === 1 ? '' : 's'}`);
+
+  return lines;
+}
+
+export function comparisonsSummary(content: ReportContent): string {
+  const count = content.comparisons.length;
+  return `${count} comparison${count === 1 ? '' : 's'}`;
+}
+
+// Date and location, then the note, voice note transcriptions and comments
+export function captionBlocks(content: ReportContent, photo: ReportPhoto): CaptionBlock[] {
+  const blocks: CaptionBlock[] = [];
+
+  const info: string[] = [];
+  if (content.includeDate) {
+    info.push(formatDateTime(photo.capturedAt, content.timeZone));
+  }
+  if (content.includeLocation && hasLocation(photo)) {
+    info.push(`GPS: ${photo.latitude.toFixed(6)}, ${photo.longitude.toFixed(6)}`);
+  }
+  if (info.length > 0) {
+    blocks.push({ kind: 'info', text: info.join('  •  ') });
+  }
+
+  if (content.includeNotes && photo.note) {
+    blocks.push({ kind: 'note', text: `"${photo.note}"` });
+  }
+  for (const transcription of photo.transcriptions) {
+    blocks.push({ kind: 'transcription', text: `Voice note: ${transcription}` });
+  }
+  for (const comment of photo.comments) {
+    blocks.push({ kind: 'comment', text: `${comment.author}: ${comment.text}` });
+  }
+
+  return blocks;
+}
+
+// Arrowhead as three points (tip, left barb, right barb) in pixel space
+export function arrowHead(
+  shape: Extract<AnnotationShape, { type: 'arrow' }>,
+  width: number,
+  height: number
+): [number, number][] {
+  const x1 = shape.x1 * width;
+  const y1 = shape.y1 * height;
+  const x2 = shape.x2 * width;
+  const y2 = shape.y2 * height;
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const size = Math.max(shape.strokeWidth * width * 4, 6);
+
+  return [
+    [x2, y2],
+    [x2 - size * Math.cos(angle - Math.PI / 6), y2 - size * Math.sin(angle - Math.PI / 6)],
+    [x2 - size * Math.cos(angle + Math.PI / 6), y2 - size * Math.sin(angle + Math.PI / 6)],
+  ];
+}
+
+/**
+ * Annotations as an SVG document in the image's own pixel space, matching
+ * the web portal's overlay. HTML reports lay it over the photo; DOCX reports
+ * flatten it into the image.
+ */
+export function annotationSvg(annotations: { shape: AnnotationShape }[], width: number, height: number): string {
+  const shapes = annotations.map(({ shape }) => {
+    const stroke = `stroke="${escapeXml(shape.color)}" fill="none" stroke-linecap="round" stroke-linejoin="round"`;
+
+    switch (shape.type) {
+      case 'arrow': {
+        const head = arrowHead(shape, width, height)
+          .map((point) => point.join(','))
+          .join(' ');
+        return (
+          `<line x1="${shape.x1 * width}" y1="${shape.y1 * height}" x2="${shape.x2 * width}" y2="${shape.y2 * height}" ` +
+          `stroke-width="${shape.strokeWidth * width}" ${stroke}/>` +
+          `<polygon points="${head}" fill="${escapeXml(shape.color)}"/>`
+        );
+      }
+      case 'rect':
+        return (
+          `<rect x="${shape.x * width}" y="${shape.y * height}" width="${shape.width * width}" ` +
+          `height="${shape.height * height}" stroke-width="${shape.strokeWidth * width}" ${stroke}/>`
+        );
+      case 'ellipse':
+        return (
+          `<ellipse cx="${(shape.x + shape.width / 2) * width}" cy="${(shape.y + shape.height / 2) * height}" ` +
+          `rx="${(shape.width / 2) * width}" ry="${(shape.height / 2) * height}" ` +
+          `stroke-width="${shape.strokeWidth * width}" ${stroke}/>`
+        );
+      case 'freehand': {
+        const points = shape.points.map(([x, y]) => `${x * width},${y * height}`).join(' ');
+        return `<polyline points="${points}" stroke-width="${shape.strokeWidth * width}" ${stroke}/>`;
+      }
+      case 'text': {
+        const fontSize = shape.fontSize * width;
+        return (
+          `<text x="${shape.x * width}" y="${shape.y * height}" fill="${escapeXml(shape.color)}" ` +
+          `font-size="${fontSize}" font-weight="bold" font-family="helvetica, arial, sans-serif" ` +
+          `dominant-baseline="hanging" stroke="rgba(0, 0, 0, 0.6)" stroke-width="${fontSize / 6}" ` +
+          `paint-order="stroke">${escapeXml(shape.text)}</text>`
+        );
+      }
+    }
+  });
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" ` +
+    `width="${width}" height="${height}" preserveAspectRatio="none">${shapes.join('')}</svg>`
+  );
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function formatDateSpan(photos: ReportPhoto[], timeZone?: string): string | null {
+  if (photos.length === 0) return null;
+
+  const times = photos.map((photo) => photo.capturedAt.getTime());
+  const first = formatDate(new Date(Math.min(...times)), timeZone);
+  const last = formatDate(new Date(Math.max(...times)), timeZone);
+  return first === last ? first : `${first} – ${last}`;
+}
+
+export function formatDate(date: Date, timeZone?: string): string {
+  return date.toLocaleDateString('en-US', { dateStyle: 'long', timeZone });
+}
+
+export function formatDateTime(date: Date, timeZone?: string): string {
+  return date.toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short', timeZone });
+}
@@ -0,0 +1,412 @@
+import PDFDocument from 'pdfkit';
+import { finished } from 'stream/promises';
+import {
+  AnnotationShape,
+  arrowHead,
+  captionBlocks,
+  CaptionBlock,
+  comparisonsSummary,
+  coverLines,
+  formatDateTime,
+  GRID_GAP_MM,
+  HEADER_HEIGHT_MM,
+  isGrouped,
+  MARGIN_MM,
+  PhotoPage,
+  photoGrid,
+  photoPageCounter,
+  photoPages,
+  photoPageTitle,
+  ReportContent,
+  ReportPhoto,
+  sectionSummary,
+  sectionTitle,
+} from './report-layout.js';
+
+const MM = 72 / 25.4;
+const MARGIN = MARGIN_MM * MM;
+const HEADER_HEIGHT = HEADER_HEIGHT_MM * MM;
+const GRID_GAP = GRID_GAP_MM * MM;
+const TOC_ROW_HEIGHT = 12 * MM;
+const TOC_ROWS_PER_PAGE = 18;
+
+const CAPTION_STYLES: Record<CaptionBlock['kind'], { font: string; color: string }> = {
+  info: { font: 'Helvetica', color: '#505050' },
+  note: { font: 'Helvetica-Oblique', color: '#3C3C3C' },
+  transcription: { font: 'Helvetica-Oblique', color: '#3C3C3C' },
+  comment: { font: 'Helvetica', color: '#505050' },
+};
+
+type Doc = PDFKit.PDFDocument;
+
+// Page numbers are worked out before anything is drawn so the table of
+// contents and footers can print them while pages are still streaming out
+interface PagePlan {
+  tocPages: number;
+  sectionPages: number[];
+  comparisonsPage: number | null;
+  totalPages: number;
+}
+
+interface PageCounter {
+  current: number;
+  total: number;
+}
+
+/**
+ * Writes the report to `output`: a cover page, the photos of each section in
+ * a grid of `photosPerPage` per page, then one page per before/after pair.
+ * Grouped reports also get a table of contents and a divider page per section.
+ */
+export async function renderPdfReport(content: ReportContent, output: NodeJS.WritableStream): Promise<void> {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 0,
+    info: { Title: content.title, Author: content.companyName, Creator: 'ProCam360' },
+  });
+  doc.pipe(output);
+
+  const grouped = isGrouped(content);
+  const plan = planPages(content, grouped);
+  const pages: PageCounter = { current: 1, total: plan.totalPages };
+
+  addCoverPage(doc, content);
+
+  if (grouped) {
+    addTableOfContents(doc, content, plan, pages);
+  }
+
+  let number = 1;
+  for (let s = 0; s < content.sections.length; s++) {
+    const section = content.sections[s];
+    if (grouped) {
+      addSectionDivider(doc, content, s, pages);
+    }
+
+    for (const page of photoPages(content, section, number)) {
+      await addPhotoPage(doc, content, page, pages);
+    }
+    number += section.photos.length;
+  }
+
+  for (let i = 0; i < content.comparisons.length; i++) {
+    await addComparisonPage(doc, content, i, pages);
+  }
+
+  doc.end();
+  await finished(output);
+}
+
+function addCoverPage(doc: Doc, content: ReportContent) {
+  const { width, height } = doc.page;
+  const bandHeight = 40 * MM;
+  let nameWidth = width - MARGIN * 2;
+
+  doc.rect(0, 0, width, bandHeight).fill(content.accentColor);
+
+  if (content.logo) {
+    // White backing keeps any logo readable whatever the brand colour
+    const boxWidth = 60 * MM;
+    const boxHeight = bandHeight - 12 * MM;
+    const boxLeft = width - MARGIN - boxWidth;
+    doc.roundedRect(boxLeft, 6 * MM, boxWidth, boxHeight, 2 * MM).fill('#FFFFFF');
+    doc.image(content.logo.data, boxLeft + 3 * MM, 9 * MM, {
+      fit: [boxWidth - 6 * MM, boxHeight - 6 * MM],
+      align: 'center',
+      valign: 'center',
+    });
+    nameWidth -= boxWidth + 6 * MM;
+  }
+
+  doc.font('Helvetica-Bold').fontSize(24).fillColor('#FFFFFF');
+  doc.text(content.companyName, MARGIN, 16 * MM, { width: nameWidth, lineBreak: false, ellipsis: true });
+
+  doc.font('Helvetica-Bold').fontSize(28).fillColor(content.primaryColor);
+  doc.text(content.title, MARGIN, 60 * MM, { width: width - MARGIN * 2 });
+
+  doc.font('Helvetica').fontSize(14).fillColor('#646464');
+  let y = Math.max(doc.y + 8 * MM, 85 * MM);
+  for (const line of coverLines(content)) {
+    doc.text(line, MARGIN, y, { width: width - MARGIN * 2 });
+    y = doc.y + 4 * MM;
+  }
+
+  const footerTop = height - 18 * MM;
+  if (content.coverNote && footerTop - y > 20 * MM) {
+    doc.font('Helvetica').fontSize(11).fillColor('#505050');
+    doc.text(content.coverNote, MARGIN, y + 6 * MM, {
+      width: width - MARGIN * 2,
+      height: footerTop - y - 12 * MM,
+      ellipsis: true,
+    });
+  }
+
+  doc.font('Helvetica').fontSize(10).fillColor('#969696');
+  doc.text('Generated with ProCam360', MARGIN, footerTop, { lineBreak: false });
+}
+
+function planPages(content: ReportContent, grouped: boolean): PagePlan {
+  const tocEntries = content.sections.length + (content.comparisons.length > 0 ? 1 : 0);
+  const tocPages = grouped ? Math.ceil(tocEntries / TOC_ROWS_PER_PAGE) : 0;
+  let page = 1 + tocPages;
+
+  const sectionPages = content.sections.map((section) => {
+    const first = page + 1;
+    page += (grouped ? 1 : 0) + Math.ceil(section.photos.length / content.photosPerPage);
+    return first;
+  });
+
+  const comparisonsPage = content.comparisons.length > 0 ? page + 1 : null;
+  page += content.comparisons.length;
+
+  return { tocPages, sectionPages, comparisonsPage, totalPages: page };
+}
+
+// Every page after the cover carries its number in the footer
+function startPage(doc: Doc, pages: PageCounter) {
+  doc.addPage();
+  pages.current += 1;
+
+  const { width, height } = doc.page;
+  doc.font('Helvetica').fontSize(8).fillColor('#969696');
+  doc.text(`Page ${pages.current} of ${pages.total}`, MARGIN, height - 8 * MM, {
+    width: width - MARGIN * 2,
+    align: 'right',
+    lineBreak: false,
+  });
+}
+
+function addTableOfContents(doc: Doc, content: ReportContent, plan: PagePlan, pages: PageCounter) {
+  const entries = content.sections.map((section, index) => ({
+    title: sectionTitle(section),
+    detail: sectionSummary(content, section).join('  •  '),
+    page: plan.sectionPages[index],
+  }));
+  if (plan.comparisonsPage !== null) {
+    entries.push({ title: 'Before & After', detail: comparisonsSummary(content), page: plan.comparisonsPage });
+  }
+
+  for (let p = 0; p < plan.tocPages; p++) {
+    startPage(doc, pages);
+    const { width } = doc.page;
+    const contentWidth = width - MARGIN * 2;
+
+    addPageHeader(doc, content, content.project.name, 'Contents');
+    doc.font('Helvetica-Bold').fontSize(20).fillColor(content.primaryColor);
+    doc.text(p === 0 ? 'Contents' : 'Contents (continued)', MARGIN, 30 * MM, { lineBreak: false });
+
+    let y = 44 * MM;
+    for (const entry of entries.slice(p * TOC_ROWS_PER_PAGE, (p + 1) * TOC_ROWS_PER_PAGE)) {
+      doc.font('Helvetica-Bold').fontSize(12).fillColor('#1F1F1F');
+      doc.text(entry.title, MARGIN, y, { width: contentWidth - 25 * MM, lineBreak: false, ellipsis: true });
+      doc.font('Helvetica').fillColor(content.primaryColor);
+      doc.text(String(entry.page), MARGIN, y, { width: contentWidth, align: 'right', lineBreak: false });
+
+      doc.fontSize(9).fillColor('#808080');
+      doc.text(entry.detail, MARGIN, y + 5.5 * MM, { width: contentWidth - 25 * MM, lineBreak: false, ellipsis: true });
+
+      doc
+        .moveTo(MARGIN, y + TOC_ROW_HEIGHT - 2 * MM)
+        .lineTo(width - MARGIN, y + TOC_ROW_HEIGHT - 2 * MM)
+        .lineWidth(0.5)
+        .stroke('#E5E5E5');
+      y += TOC_ROW_HEIGHT;
+    }
+  }
+}
+
+function addSectionDivider(doc: Doc, content: ReportContent, index: number, pages: PageCounter) {
+  const section = content.sections[index];
+  startPage(doc, pages);
+  const { width } = doc.page;
+  const contentWidth = width - MARGIN * 2;
+
+  addPageHeader(doc, content, content.project.name, `Section ${index + 1} of ${content.sections.length}`);
+
+  doc.rect(MARGIN, 95 * MM, 2 * MM, 50 * MM).fill(content.accentColor);
+  const left = MARGIN + 8 * MM;
+
+  doc.font('Helvetica-Bold').fontSize(12).fillColor(content.accentColor);
+  doc.text(`SECTION ${index + 1}`, left, 97 * MM, { lineBreak: false });
+
+  doc.font('Helvetica-Bold').fontSize(30).fillColor(content.primaryColor);
+  doc.text(sectionTitle(section), left, 105 * MM, { width: contentWidth - 8 * MM, height: 40 * MM, ellipsis: true });
+
+  doc.font('Helvetica').fontSize(14).fillColor('#646464');
+  let y = doc.y + 6 * MM;
+  for (const line of sectionSummary(content, section)) {
+    doc.text(line, left, y, { width: contentWidth - 8 * MM, lineBreak: false, ellipsis: true });
+    y += 8 * MM;
+  }
+}
+
+async function addPhotoPage(doc: Doc, content: ReportContent, page: PhotoPage, pages: PageCounter) {
+  startPage(doc, pages);
+  const grid = photoGrid(content.photosPerPage);
+  const cellWidth = grid.cellWidth * MM;
+  const cellHeight = grid.cellHeight * MM;
+
+  addPageHeader(doc, content, photoPageTitle(content, page), photoPageCounter(content, page));
+
+  const top = HEADER_HEIGHT + 8 * MM;
+  for (let i = 0; i < page.photos.length; i++) {
+    const left = MARGIN + (i % grid.columns) * (cellWidth + GRID_GAP);
+    const cellTop = top + Math.floor(i / grid.columns) * (cellHeight + GRID_GAP);
+    const imageHeight = cellHeight - grid.captionHeight * MM;
+
+    const placed = await placeImage(doc, content, page.photos[i], left, cellTop, cellWidth, imageHeight);
+    const captionTop = placed.bottom + 3 * MM;
+    addCaption(doc, content, page.photos[i], left, captionTop, cellWidth, cellTop + cellHeight - captionTop, grid.fontSize);
+  }
+}
+
+// Caption blocks are cut short with an ellipsis once the caption box is full
+function addCaption(
+  doc: Doc,
+  content: ReportContent,
+  photo: ReportPhoto,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  fontSize: number
+) {
+  const bottom = top + height;
+  let y = top;
+
+  for (const block of captionBlocks(content, photo)) {
+    const style = CAPTION_STYLES[block.kind];
+    doc.font(style.font).fontSize(fontSize).fillColor(style.color);
+    if (bottom - y < doc.currentLineHeight(true)) break;
+
+    doc.text(block.text, left, y, { width, height: bottom - y, ellipsis: true });
+    y = doc.y + fontSize * 0.4;
+  }
+}
+
+async function addComparisonPage(doc: Doc, content: ReportContent, index: number, pages: PageCounter) {
+  const pair = content.comparisons[index];
+  startPage(doc, pages);
+  const { width, height } = doc.page;
+  const contentWidth = width - MARGIN * 2;
+  const slotHeight = (height - 50 * MM) / 2 - 12 * MM;
+
+  addPageHeader(doc, content, pair.label || 'Before & After', `Comparison ${index + 1} of ${content.comparisons.length}`);
+
+  let y = 28 * MM;
+  for (const [label, photo] of [['BEFORE', pair.before], ['AFTER', pair.after]] as const) {
+    doc.font('Helvetica-Bold').fontSize(11).fillColor(content.accentColor);
+    doc.text(label, MARGIN, y, { lineBreak: false });
+    if (content.includeDate) {
+      doc.font('Helvetica').fillColor('#505050');
+      doc.text(formatDateTime(photo.capturedAt, content.timeZone), MARGIN + 22 * MM, y, { lineBreak: false });
+    }
+    y += 7 * MM;
+
+    await placeImage(doc, content, photo, MARGIN, y, contentWidth, slotHeight);
+    y += slotHeight + 8 * MM;
+  }
+}
+
+function addPageHeader(doc: Doc, content: ReportContent, title: string, counter: string) {
+  const { width } = doc.page;
+
+  doc.rect(0, 0, width, HEADER_HEIGHT).fill(content.primaryColor);
+  doc.fontSize(12).fillColor('#FFFFFF');
+  doc.font('Helvetica').text(counter, MARGIN, 8 * MM, { width: width - MARGIN * 2, align: 'right', lineBreak: false });
+  doc.font('Helvetica-Bold').text(title, MARGIN, 8 * MM, { width: width - MARGIN * 2 - 50 * MM, lineBreak: false, ellipsis: true });
+}
+
+// Fits the photo into the box, centred horizontally, with its annotations on top
+async function placeImage(
+  doc: Doc,
+  content: ReportContent,
+  photo: ReportPhoto,
+  boxLeft: number,
+  top: number,
+  maxWidth: number,
+  maxHeight: number
+): Promise<{ bottom: number }> {
+  const image = await content.loadImage(photo);
+
+  if (!image) {
+    const placeholderHeight = Math.min(maxHeight, 150 * MM);
+    doc.rect(boxLeft, top, maxWidth, placeholderHeight).fill('#F5F5F5');
+    doc.font('Helvetica').fontSize(Math.min(14, maxWidth / 16)).fillColor('#969696');
+    doc.text('Image could not be loaded', boxLeft, top + placeholderHeight / 2 - 7, {
+      width: maxWidth,
+      align: 'center',
+      lineBreak: false,
+    });
+    return { bottom: top + placeholderHeight };
+  }
+
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const left = boxLeft + (maxWidth - width) / 2;
+
+  doc.image(image.data, left, top, { width, height });
+  drawAnnotations(doc, photo.annotations, left, top, width, height);
+
+  return { bottom: top + height };
+}
+
+function drawAnnotations(
+  doc: Doc,
+  annotations: { shape: AnnotationShape }[],
+  left: number,
+  top: number,
+  width: number,
+  height: number
+) {
+  const x = (value: number) => left + value * width;
+  const y = (value: number) => top + value * height;
+
+  for (const { shape } of annotations) {
+    doc.save();
+    doc.lineCap('round').lineJoin('round');
+
+    switch (shape.type) {
+      case 'arrow': {
+        const [tip, barbA, barbB] = arrowHead(shape, width, height).map(([px, py]) => [left + px, top + py]);
+
+        doc.lineWidth(shape.strokeWidth * width).moveTo(x(shape.x1), y(shape.y1)).lineTo(tip[0], tip[1]).stroke(shape.color);
+        doc.polygon(tip, barbA, barbB).fill(shape.color);
+        break;
+      }
+      case 'rect':
+        doc
+          .lineWidth(shape.strokeWidth * width)
+          .rect(x(shape.x), y(shape.y), shape.width * width, shape.height * height)
+          .stroke(shape.color);
+        break;
+      case 'ellipse':
+        doc
+          .lineWidth(shape.strokeWidth * width)
+          .ellipse(x(shape.x + shape.width / 2), y(shape.y + shape.height / 2), (shape.width / 2) * width, (shape.height / 2) * height)
+          .stroke(shape.color);
+        break;
+      case 'freehand': {
+        const [[firstX, firstY], ...rest] = shape.points;
+        doc.lineWidth(shape.strokeWidth * width).moveTo(x(firstX), y(firstY));
+        rest.forEach(([px, py]) => doc.lineTo(x(px), y(py)));
+        doc.stroke(shape.color);
+        break;
+      }
+      case 'text': {
+        const fontSize = shape.fontSize * width;
+        doc.font('Helvetica-Bold').fontSize(fontSize);
+        // Dark outline first keeps labels readable on busy photos
+        doc
+          .lineWidth(fontSize / 6)
+          .strokeColor('#000000', 0.6)
+          .text(shape.text, x(shape.x), y(shape.y), { lineBreak: false, stroke: true, fill: false });
+        doc.fillColor(shape.color).text(shape.text, x(shape.x), y(shape.y), { lineBreak: false });
+        break;
+      }
+    }
+
+    doc.restore();
+  }
+}
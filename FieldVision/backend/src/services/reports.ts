@@ -0,0 +1,404 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Prisma, PrismaClient, ReportFormat, ReportGrouping, ReportTemplate } from '@prisma/client';
+import sharp from 'sharp';
+import { photoTagFilter } from '../lib/tags.js';
+import { getStorageService, readStoredFile, sanitizeFileName, StorageService } from './storage.js';
+import { createEmailService, EmailService } from './email.js';
+import { reportReadyEmail } from './email-templates.js';
+import {
+  CoverField,
+  DEFAULT_ACCENT_COLOR,
+  DEFAULT_PRIMARY_COLOR,
+  ReportImage,
+  ReportPhoto,
+  ReportRenderer,
+  ReportSection,
+} from './report-layout.js';
+import { renderPdfReport } from './report-pdf.js';
+import { renderDocxReport } from './report-docx.js';
+import { renderHtmlReport } from './report-html.js';
+
+export const GENERATE_REPORT_JOB = 'report.generate';
+
+// Photos are scaled down before embedding; 1600px matches the preview size
+const REPORT_IMAGE_SIZE = 1600;
+const LOGO_IMAGE_SIZE = 600;
+
+// Every format renders the same ReportContent; only the output differs
+const RENDERERS: Record<ReportFormat, { render: ReportRenderer; contentType: string; extension: string }> = {
+  PDF: { render: renderPdfReport, contentType: 'application/pdf', extension: 'pdf' },
+  DOCX: {
+    render: renderDocxReport,
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx',
+  },
+  HTML: { render: renderHtmlReport, contentType: 'text/html', extension: 'html' },
+};
+
+export interface GenerateReportPayload {
+  reportId: string;
+}
+
+// Stored on Report.filters; every set field must match
+export interface ReportFilters {
+  folderIds?: string[];
+  startDate?: string;
+  endDate?: string;
+  tagIds?: string[];
+}
+
+// Page layout and branding, copied from the template when the report is
+// requested so later template edits do not change queued reports
+export interface ReportLayout {
+  photosPerPage: number;
+  groupBy: ReportGrouping;
+  logoUrl: string | null;
+  primaryColor: string;
+  accentColor: string;
+  coverFields: CoverField[];
+  coverNote: string | null;
+}
+
+export const DEFAULT_COVER_FIELDS: CoverField[] = ['address', 'photoCount', 'generatedAt'];
+
+// Templates a user may report with: their own, and those shared by anyone who has them as a team contact
+export function usableTemplateWhere(userId: string) {
+  return {
+    OR: [{ ownerId: userId }, { sharedWithTeam: true, owner: { teamContacts: { some: { contactId: userId } } } }],
+  };
+}
+
+export const DEFAULT_REPORT_LAYOUT: ReportLayout = {
+  photosPerPage: 1,
+  groupBy: 'NONE',
+  logoUrl: null,
+  primaryColor: DEFAULT_PRIMARY_COLOR,
+  accentColor: DEFAULT_ACCENT_COLOR,
+  coverFields: DEFAULT_COVER_FIELDS,
+  coverNote: null,
+};
+
+// Stored on Report.options
+export interface ReportOptions {
+  templateId?: string;
+  companyName?: string;
+  includeNotes: boolean;
+  includeLocation: boolean;
+  includeDate: boolean;
+  includeComparisons: boolean;
+  includeComments?: boolean;
+  includeTranscriptions?: boolean;
+  // IANA zone used for printed dates, e.g. the requesting browser's
+  timeZone?: string;
+  // Missing on reports queued before templates existed
+  layout?: ReportLayout;
+}
+
+function reportPhotoSelect(options: ReportOptions) {
+  return {
+    id: true,
+    capturedAt: true,
+    latitude: true,
+    longitude: true,
+    note: true,
+    remoteUrl: true,
+    previewUrl: true,
+    folder: { select: { id: true, name: true, sortOrder: true } },
+    annotations: {
+      select: { shape: true },
+      orderBy: { createdAt: 'asc' as const },
+    },
+    comments: options.includeComments
+      ? {
+          select: { text: true, createdAt: true, user: { select: { name: true } } },
+          orderBy: { createdAt: 'asc' as const },
+        }
+      : false,
+    voiceNotes: options.includeTranscriptions
+      ? {
+          where: { transcriptionStatus: 'DONE' as const },
+          select: { transcription: true },
+          orderBy: { createdAt: 'asc' as const },
+        }
+      : false,
+    voiceNoteTranscription: options.includeTranscriptions,
+  };
+}
+
+type LoadedPhoto = ReportPhoto & {
+  remoteUrl: string;
+  previewUrl: string | null;
+  folder: { id: string; name: string; sortOrder: number } | null;
+};
+
+export function templateLayout(template: ReportTemplate): ReportLayout {
+  return {
+    photosPerPage: template.photosPerPage,
+    groupBy: template.groupBy,
+    logoUrl: template.logoUrl,
+    primaryColor: template.primaryColor,
+    accentColor: template.accentColor,
+    coverFields: template.coverFields as CoverField[],
+    coverNote: template.coverNote,
+  };
+}
+
+export function reportPhotoWhere(projectId: string, filters: ReportFilters): Prisma.PhotoWhereInput {
+  const where: Prisma.PhotoWhereInput = {
+    projectId,
+    // Videos cannot be embedded in a report
+    mediaType: 'PHOTO',
+    AND: photoTagFilter(filters.tagIds ?? [], []),
+  };
+  if (filters.folderIds?.length) where.folderId = { in: filters.folderIds };
+  if (filters.startDate || filters.endDate) {
+    where.capturedAt = {
+      ...(filters.startDate && { gte: new Date(filters.startDate) }),
+      ...(filters.endDate && { lte: new Date(filters.endDate) }),
+    };
+  }
+
+  return where;
+}
+
+export class ReportService {
+  private prisma: PrismaClient;
+  private storage: StorageService;
+  private email: EmailService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.storage = getStorageService();
+    this.email = createEmailService(prisma);
+  }
+
+  async generateReport({ reportId }: GenerateReportPayload): Promise<void> {
+    // The report may have been deleted while this job was waiting
+    const report = await this.prisma.report.findUnique({
+      where: { id: reportId },
+      include: {
+        project: { select: { name: true, address: true, clientName: true } },
+        requestedBy: { select: { name: true, email: true } },
+      },
+    });
+
+    if (!report || report.status === 'DONE') return;
+
+    await this.prisma.report.update({
+      where: { id: reportId },
+      data: { status: 'PROCESSING', error: null },
+    });
+
+    const filters = report.filters as ReportFilters;
+    const options = report.options as unknown as ReportOptions;
+    const layout = { ...DEFAULT_REPORT_LAYOUT, ...options.layout };
+    const select = reportPhotoSelect(options);
+
+    const [rows, pairs, logo] = await Promise.all([
+      this.prisma.photo.findMany({
+        where: reportPhotoWhere(report.projectId, filters),
+        orderBy: { capturedAt: 'asc' },
+        select,
+      }),
+      options.includeComparisons
+        ? this.prisma.photoPair.findMany({
+            // Only pairs whose photos both pass the report's filters
+            where: {
+              projectId: report.projectId,
+              beforePhoto: reportPhotoWhere(report.projectId, filters),
+              afterPhoto: reportPhotoWhere(report.projectId, filters),
+            },
+            orderBy: { createdAt: 'asc' },
+            include: {
+              beforePhoto: { select },
+              afterPhoto: { select },
+            },
+          })
+        : Promise.resolve([]),
+      layout.logoUrl ? this.loadLogo(layout.logoUrl) : Promise.resolve(null),
+    ]);
+
+    const photos = rows.map(toLoadedPhoto);
+
+    const renderer = RENDERERS[report.format];
+    const tmpPath = path.join(os.tmpdir(), `report-${reportId}.${renderer.extension}`);
+
+    try {
+      await renderer.render(
+        {
+          title: report.title,
+          companyName: options.companyName || 'ProCam360',
+          project: report.project,
+          preparedBy: report.requestedBy.name,
+          sections: groupPhotos(photos, layout.groupBy, options.timeZone),
+          comparisons: pairs.map((pair: any) => ({
+            label: pair.label,
+            before: toLoadedPhoto(pair.beforePhoto),
+            after: toLoadedPhoto(pair.afterPhoto),
+          })),
+          photosPerPage: layout.photosPerPage,
+          primaryColor: layout.primaryColor,
+          accentColor: layout.accentColor,
+          logo,
+          coverFields: layout.coverFields,
+          coverNote: layout.coverNote,
+          includeNotes: options.includeNotes,
+          includeLocation: options.includeLocation,
+          includeDate: options.includeDate,
+          timeZone: options.timeZone,
+          generatedAt: new Date(),
+          loadImage: (photo) => this.loadImage(photo as LoadedPhoto),
+        },
+        fs.createWriteStream(tmpPath)
+      );
+
+      const fileName = `${sanitizeFileName(report.project.name)}_Report.${renderer.extension}`;
+      const upload = await this.storage.uploadLocalFile(
+        tmpPath,
+        fileName,
+        renderer.contentType,
+        `projects/${report.projectId}/reports`
+      );
+
+      await this.prisma.report.update({
+        where: { id: reportId },
+        data: {
+          status: 'DONE',
+          fileUrl: upload.url,
+          photoCount: photos.length,
+          completedAt: new Date(),
+        },
+      });
+
+      // The report is done either way; a failed email should not regenerate it
+      try {
+        await this.email.send({
+          message: {
+            to: report.requestedBy.email,
+            ...reportReadyEmail({ title: report.title, projectName: report.project.name, url: upload.url }),
+          },
+          category: 'reports',
+          userId: report.requestedById,
+        });
+      } catch (error) {
+        console.warn(`Report ${reportId} email could not be sent:`, error);
+      }
+    } finally {
+      await fs.promises.rm(tmpPath, { force: true });
+    }
+  }
+
+  async markFailed({ reportId }: GenerateReportPayload, error: Error): Promise<void> {
+    await this.prisma.report.updateMany({
+      where: { id: reportId },
+      data: { status: 'FAILED', error: error.message },
+    });
+  }
+
+  // A photo that cannot be read becomes a placeholder rather than failing the report
+  private async loadImage(photo: LoadedPhoto): Promise<ReportImage | null> {
+    try {
+      // The preview is smaller, but either one will do as long as it is in our storage
+      const source =
+        (photo.previewUrl && (await readStoredFile(this.storage, photo.previewUrl))) ||
+        (await this.readFile(photo.remoteUrl));
+
+      // rotate() with no arguments applies the EXIF orientation before resizing
+      const { data, info } = await sharp(source)
+        .rotate()
+        .resize(REPORT_IMAGE_SIZE, REPORT_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+      return { data, width: info.width, height: info.height };
+    } catch (error) {
+      console.warn(`Report image for photo ${photo.id} could not be loaded:`, error);
+      return null;
+    }
+  }
+
+  // PNG keeps logo transparency; a missing logo leaves the cover without one
+  private async loadLogo(url: string): Promise<ReportImage | null> {
+    try {
+      const { data, info } = await sharp(await this.readFile(url))
+        .resize(LOGO_IMAGE_SIZE, LOGO_IMAGE_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .png()
+        .toBuffer({ resolveWithObject: true });
+
+      return { data, width: info.width, height: info.height };
+    } catch (error) {
+      console.warn(`Report logo ${url} could not be loaded:`, error);
+      return null;
+    }
+  }
+
+  private async readFile(url: string): Promise<Buffer> {
+    const file = await readStoredFile(this.storage, url);
+    if (!file) throw new Error('File is not in the configured storage');
+    return file;
+  }
+}
+
+function toLoadedPhoto(row: any): LoadedPhoto {
+  return {
+    id: row.id,
+    capturedAt: row.capturedAt,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    note: row.note,
+    remoteUrl: row.remoteUrl,
+    previewUrl: row.previewUrl,
+    folder: row.folder,
+    annotations: row.annotations,
+    comments: (row.comments ?? []).map((comment: any) => ({
+      author: comment.user.name,
+      text: comment.text,
+      createdAt: comment.createdAt,
+    })),
+    // A legacy note that has not been adopted as a VoiceNote yet is still on the photo
+    transcriptions: (row.voiceNotes?.length
+      ? row.voiceNotes.map((voiceNote: any) => voiceNote.transcription)
+      : [row.voiceNoteTranscription]
+    ).filter(Boolean),
+  };
+}
+
+// Photos arrive oldest first, so day sections are already in order; folders
+// follow their sort order with unfiled photos last
+function groupPhotos(photos: LoadedPhoto[], groupBy: ReportGrouping, timeZone?: string): ReportSection[] {
+  if (groupBy === 'NONE') {
+    return [{ title: null, photos }];
+  }
+
+  const sections = new Map<string, ReportSection & { sortKey: [number, string] }>();
+  for (const photo of photos) {
+    let key: string;
+    let title: string;
+    let sortKey: [number, string];
+
+    if (groupBy === 'FOLDER') {
+      key = photo.folder?.id ?? '';
+      title = photo.folder?.name ?? 'Unfiled';
+      sortKey = photo.folder ? [photo.folder.sortOrder, photo.folder.name] : [Number.MAX_SAFE_INTEGER, ''];
+    } else {
+      // en-CA formats as YYYY-MM-DD, which also sorts correctly
+      key = photo.capturedAt.toLocaleDateString('en-CA', { timeZone });
+      title = photo.capturedAt.toLocaleDateString('en-US', { dateStyle: 'full', timeZone });
+      sortKey = [0, key];
+    }
+
+    const section = sections.get(key) ?? { title, photos: [], sortKey };
+    section.photos.push(photo);
+    sections.set(key, section);
+  }
+
+  return [...sections.values()]
+    .sort((a, b) => a.sortKey[0] - b.sortKey[0] || a.sortKey[1].localeCompare(b.sortKey[1]))
+    .map(({ title, photos }) => ({ title, photos }));
+}
+
+export function createReportService(prisma: PrismaClient): ReportService {
+  return new ReportService(prisma);
+}
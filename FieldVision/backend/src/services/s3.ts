@@ -1,25 +1,49 @@
-import { S3Client, PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import fs from 'fs';
+import { Readable } from 'stream';
+import { sanitizeFileName, type StorageService, type UploadResult } from './storage.js';
 
-export class S3Service {
+export class S3Service implements StorageService {
   private client: S3Client;
   private bucket: string;
   private region: string;
+  private endpoint: string | undefined;
+  private forcePathStyle: boolean;
+  private publicBaseUrl: string;
 
   constructor() {
     this.region = process.env.AWS_REGION || 'us-east-1';
     this.bucket = process.env.S3_BUCKET || 'fieldvision-media';
-    
+    this.endpoint = process.env.S3_ENDPOINT?.replace(/\/$/, '') || undefined;
+    // MinIO and most self-hosted S3-compatible stores only support path-style addressing
+    this.forcePathStyle = process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : !!this.endpoint;
+
     this.client = new S3Client({
       region: this.region,
+      endpoint: this.endpoint,
+      forcePathStyle: this.forcePathStyle,
+      // Otherwise presigned PUT URLs embed a checksum of an empty body and reject real uploads
+      requestChecksumCalculation: 'WHEN_REQUIRED',
       credentials: {
         accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
         secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
       },
     });
+
+    this.publicBaseUrl = (process.env.S3_PUBLIC_URL || this.defaultPublicBaseUrl()).replace(/\/$/, '');
   }
 
-  async uploadFile(buffer: Buffer, key: string, contentType: string): Promise<string> {
+  async uploadFile(
+    buffer: Buffer,
+    fileName: string,
+    contentType: string,
+    folder: string = 'photos'
+  ): Promise<UploadResult> {
+    const key = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+
     const command = new PutObjectCommand({
       Bucket: this.bucket,
       Key: key,
@@ -27,19 +51,114 @@ export class S3Service {
       ContentType: contentType,
     });
 
-    await this.client.send(command);
+    try {
+      await this.client.send(command);
+    } catch (error: any) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
 
-    return this.getPublicUrl(key);
+    return {
+      url: this.getPublicUrl(key),
+      path: key,
+    };
   }
 
-  async getPresignedUploadUrl(key: string, contentType: string): Promise<string> {
+  async uploadLocalFile(
+    localPath: string,
+    fileName: string,
+    contentType: string,
+    folder: string = 'photos'
+  ): Promise<UploadResult> {
+    const key = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+    const stat = await fs.promises.stat(localPath);
+
     const command = new PutObjectCommand({
       Bucket: this.bucket,
       Key: key,
+      Body: fs.createReadStream(localPath),
+      ContentLength: stat.size,
       ContentType: contentType,
     });
 
-    return getSignedUrl(this.client, command, { expiresIn: 3600 });
+    try {
+      await this.client.send(command);
+    } catch (error: any) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+
+    return {
+      url: this.getPublicUrl(key),
+      path: key,
+    };
+  }
+
+  async deleteFile(key: string): Promise<void> {
+    const command = new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    try {
+      await this.client.send(command);
+    } catch (error: any) {
+      console.error(`Failed to delete file: ${error.message}`);
+    }
+  }
+
+  async downloadFile(key: string): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    try {
+      const response = await this.client.send(command);
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error: any) {
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+  }
+
+  async downloadStream(key: string): Promise<Readable> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    try {
+      const response = await this.client.send(command);
+      // In Node the SDK returns the body as a readable stream
+      return response.Body as Readable;
+    } catch (error: any) {
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+  }
+
+  async getSignedUploadUrl(
+    fileName: string,
+    folder: string = 'photos'
+  ): Promise<{ signedUrl: string; path: string; publicUrl: string }> {
+    const key = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+
+    // No ContentType on the command: clients PUT the raw file without
+    // guaranteeing a matching Content-Type header, which would break the signature.
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    });
+
+    let signedUrl: string;
+    try {
+      signedUrl = await getSignedUrl(this.client, command, { expiresIn: 3600 });
+    } catch (error: any) {
+      throw new Error(`Failed to create signed upload URL: ${error.message}`);
+    }
+
+    return {
+      signedUrl,
+      path: key,
+      publicUrl: this.getPublicUrl(key),
+    };
   }
 
   async getPresignedDownloadUrl(key: string): Promise<string> {
@@ -52,6 +171,19 @@ export class S3Service {
   }
 
   getPublicUrl(key: string): string {
-    return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${key}`;
+    return `${this.publicBaseUrl}/${key}`;
+  }
+
+  getPathFromUrl(url: string): string | null {
+    return url.startsWith(`${this.publicBaseUrl}/`) ? url.slice(this.publicBaseUrl.length + 1) : null;
+  }
+
+  private defaultPublicBaseUrl(): string {
+    if (this.endpoint) {
+      return this.forcePathStyle
+        ? `${this.endpoint}/${this.bucket}`
+        : this.endpoint.replace('://', `://${this.bucket}.`);
+    }
+    return `https://${this.bucket}.s3.${this.region}.amazonaws.com`;
   }
 }
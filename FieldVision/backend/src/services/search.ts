@@ -0,0 +1,429 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { BoundingBox, boundingBoxAround, EARTH_RADIUS_METERS, GeoFilter, LatLng } from '../lib/geo.js';
+
+// Must match the configuration used by the generated columns in prisma/fulltext.sql
+const SEARCH_CONFIG = 'english';
+
+// Control characters mark the highlighted words so the text around them can be
+// HTML-escaped before the markers become <mark> tags
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+const MAX_QUERY_TERMS = 10;
+
+export type PhotoMatchSource = 'note' | 'transcription' | 'comment' | 'folder' | 'tag';
+
+export interface SearchHit {
+  id: string;
+  rank: number;
+  // HTML-safe excerpt with matched words wrapped in <mark>
+  snippet: string | null;
+}
+
+export interface PhotoSearchHit extends SearchHit {
+  matchedIn: PhotoMatchSource;
+  // Set when the search is centred on a point
+  distanceMeters: number | null;
+}
+
+export interface SearchPage {
+  skip: number;
+  take: number;
+}
+
+export interface PhotoSearchFilters {
+  tagIds?: string[];
+  tagNames?: string[];
+  location?: GeoFilter | null;
+}
+
+export interface NearbyPhotoFilters extends PhotoSearchFilters {
+  folderId?: string;
+  capturedFrom?: Date;
+  capturedTo?: Date;
+}
+
+export interface NearbyPhotoHit {
+  id: string;
+  projectId: string;
+  distanceMeters: number;
+}
+
+export interface NearbyProjectSummary {
+  projectId: string;
+  photoCount: number;
+  nearestMeters: number;
+}
+
+/**
+ * Turns free text into a tsquery string where every word must match and the
+ * last characters typed may be an unfinished word: "roof leak" becomes
+ * "roof:* & leak:*". Returns null when nothing searchable is left.
+ */
+export function buildPrefixQuery(input: string): string | null {
+  const terms = input.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (terms.length === 0) return null;
+
+  return terms
+    .slice(0, MAX_QUERY_TERMS)
+    .map((term) => `${term}:*`)
+    .join(' & ');
+}
+
+export class SearchService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async searchProjects(
+    text: string,
+    projectIds: string[],
+    page: SearchPage
+  ): Promise<{ hits: SearchHit[]; total: number }> {
+    const tsquery = buildPrefixQuery(text);
+    if (!tsquery || projectIds.length === 0) return { hits: [], total: 0 };
+
+    const query = Prisma.sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsquery})`;
+    const where = Prisma.sql`p."id" = ANY(${projectIds}) AND p."searchVector" @@ ${query}`;
+
+    const [rows, counts] = await Promise.all([
+      this.prisma.$queryRaw<{ id: string; rank: number; snippet: string | null }[]>`
+        SELECT p."id",
+               ts_rank(p."searchVector", ${query}) AS "rank",
+               ts_headline(
+                 ${SEARCH_CONFIG}::regconfig,
+                 concat_ws(' · ', p."name", p."clientName", p."address"),
+                 ${query},
+                 ${HEADLINE_OPTIONS}
+               ) AS "snippet"
+        FROM "projects" p
+        WHERE ${where}
+        ORDER BY "rank" DESC, p."updatedAt" DESC
+        LIMIT ${page.take} OFFSET ${page.skip}
+      `,
+      this.prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS "total" FROM "projects" p WHERE ${where}
+      `,
+    ]);
+
+    return {
+      hits: rows.map((row) => ({ id: row.id, rank: Number(row.rank), snippet: formatSnippet(row.snippet) })),
+      total: Number(counts[0]?.total ?? 0),
+    };
+  }
+
+  /**
+   * Ranks photos by their best match across the photo's own note and
+   * transcription, its voice notes, comments, folder name and tag names.
+   * Each source is looked up through its own GIN index; comment, folder and
+   * tag matches are weighted below matches on the photo itself. A location
+   * filter centred on a point orders by distance instead of rank.
+   */
+  async searchPhotos(
+    text: string,
+    projectIds: string[],
+    page: SearchPage,
+    filters: PhotoSearchFilters = {}
+  ): Promise<{ hits: PhotoSearchHit[]; total: number }> {
+    const tsquery = buildPrefixQuery(text);
+    if (!tsquery || projectIds.length === 0) return { hits: [], total: 0 };
+
+    const query = Prisma.sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsquery})`;
+    const near = filters.location?.near ?? null;
+    const radius = filters.location?.radius ?? null;
+
+    const ranked = Prisma.sql`
+      WITH "matches" AS (
+        SELECT p."id" AS "photoId", ts_rank(p."searchVector", ${query}) AS "rank"
+        FROM "photos" p
+        WHERE p."searchVector" @@ ${query} AND p."projectId" = ANY(${projectIds})
+        UNION ALL
+        SELECT v."photoId", ts_rank(v."searchVector", ${query})
+        FROM "voice_notes" v
+        JOIN "photos" p ON p."id" = v."photoId"
+        WHERE v."searchVector" @@ ${query} AND p."projectId" = ANY(${projectIds})
+        UNION ALL
+        SELECT c."photoId", ts_rank(c."searchVector", ${query}) * 0.8
+        FROM "comments" c
+        JOIN "photos" p ON p."id" = c."photoId"
+        WHERE c."searchVector" @@ ${query} AND p."projectId" = ANY(${projectIds})
+        UNION ALL
+        SELECT p."id", ts_rank(f."searchVector", ${query}) * 0.5
+        FROM "folders" f
+        JOIN "photos" p ON p."folderId" = f."id"
+        WHERE f."searchVector" @@ ${query} AND f."projectId" = ANY(${projectIds})
+        UNION ALL
+        SELECT pt."photoId", 0.05
+        FROM "tags" t
+        JOIN "photo_tags" pt ON pt."tagId" = t."id"
+        WHERE t."projectId" = ANY(${projectIds}) AND to_tsvector(${SEARCH_CONFIG}::regconfig, t."name") @@ ${query}
+      ),
+      "ranked" AS (
+        SELECT "photoId", MAX("rank") AS "rank" FROM "matches" GROUP BY "photoId"
+      )
+      SELECT r."photoId" AS "id", r."rank", p."capturedAt", ${near ? distanceSql(near) : Prisma.sql`NULL::float8`} AS "distance"
+      FROM "ranked" r
+      JOIN "photos" p ON p."id" = r."photoId"
+      WHERE p."projectId" = ANY(${projectIds}) ${tagFilterSql(filters)} ${locationFilterSql(filters)}
+    `;
+
+    const [rows, counts] = await Promise.all([
+      this.prisma.$queryRaw<{ id: string; rank: number; distance: number | null }[]>`
+        SELECT "id", "rank", "distance" FROM (${ranked}) hits
+        ${near ? Prisma.sql`WHERE "distance" <= ${radius}` : Prisma.empty}
+        ORDER BY ${near ? Prisma.sql`"distance" ASC,` : Prisma.empty} "rank" DESC, "capturedAt" DESC
+        LIMIT ${page.take} OFFSET ${page.skip}
+      `,
+      this.prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS "total" FROM (${ranked}) hits
+        ${near ? Prisma.sql`WHERE "distance" <= ${radius}` : Prisma.empty}
+      `,
+    ]);
+
+    if (rows.length === 0) {
+      return { hits: [], total: Number(counts[0]?.total ?? 0) };
+    }
+
+    const snippets = await this.photoSnippets(rows.map((r) => r.id), query);
+
+    return {
+      hits: rows.map((row) => ({
+        id: row.id,
+        rank: Number(row.rank),
+        snippet: formatSnippet(snippets.get(row.id)?.snippet ?? null),
+        matchedIn: snippets.get(row.id)?.matchedIn ?? 'note',
+        distanceMeters: row.distance === null ? null : Math.round(Number(row.distance) * 10) / 10,
+      })),
+      total: Number(counts[0]?.total ?? 0),
+    };
+  }
+
+  /**
+   * Pages through photos within `radius` meters of `near`, closest first
+   * (newest first on ties). The bounding box around the radius narrows the
+   * candidates through the lat/lng index before any distance is computed.
+   */
+  async findPhotosNear(
+    projectIds: string[],
+    near: LatLng,
+    radius: number,
+    page: SearchPage,
+    filters: NearbyPhotoFilters = {}
+  ): Promise<{ hits: NearbyPhotoHit[]; total: number }> {
+    if (projectIds.length === 0) return { hits: [], total: 0 };
+
+    const nearby = this.nearbyPhotosSql(projectIds, near, radius, filters);
+
+    const [rows, counts] = await Promise.all([
+      this.prisma.$queryRaw<{ id: string; projectId: string; distance: number }[]>`
+        SELECT "id", "projectId", "distance" FROM (${nearby}) hits
+        ORDER BY "distance" ASC, "capturedAt" DESC
+        LIMIT ${page.take} OFFSET ${page.skip}
+      `,
+      this.prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS "total" FROM (${nearby}) hits
+      `,
+    ]);
+
+    return {
+      hits: rows.map((row) => ({
+        id: row.id,
+        projectId: row.projectId,
+        distanceMeters: Math.round(Number(row.distance) * 10) / 10,
+      })),
+      total: Number(counts[0]?.total ?? 0),
+    };
+  }
+
+  // Photo count and nearest photo per project for the same search, nearest project first
+  async summarizePhotosNear(
+    projectIds: string[],
+    near: LatLng,
+    radius: number,
+    filters: NearbyPhotoFilters = {}
+  ): Promise<NearbyProjectSummary[]> {
+    if (projectIds.length === 0) return [];
+
+    const rows = await this.prisma.$queryRaw<{ projectId: string; photoCount: bigint; nearestMeters: number }[]>`
+      SELECT "projectId", COUNT(*) AS "photoCount", MIN("distance") AS "nearestMeters"
+      FROM (${this.nearbyPhotosSql(projectIds, near, radius, filters)}) hits
+      GROUP BY "projectId"
+      ORDER BY "nearestMeters" ASC
+    `;
+
+    return rows.map((row) => ({
+      projectId: row.projectId,
+      photoCount: Number(row.photoCount),
+      nearestMeters: Math.round(Number(row.nearestMeters) * 10) / 10,
+    }));
+  }
+
+  private nearbyPhotosSql(projectIds: string[], near: LatLng, radius: number, filters: NearbyPhotoFilters): Prisma.Sql {
+    const clauses = [
+      ...(filters.folderId ? [Prisma.sql`p."folderId" = ${filters.folderId}`] : []),
+      ...(filters.capturedFrom ? [Prisma.sql`p."capturedAt" >= ${filters.capturedFrom}`] : []),
+      ...(filters.capturedTo ? [Prisma.sql`p."capturedAt" <= ${filters.capturedTo}`] : []),
+    ];
+    const location = { box: filters.location?.box ?? null, near, radius };
+
+    return Prisma.sql`
+      SELECT "id", "projectId", "capturedAt", "distance" FROM (
+        SELECT p."id", p."projectId", p."capturedAt", ${distanceSql(near)} AS "distance"
+        FROM "photos" p
+        WHERE p."projectId" = ANY(${projectIds})
+          ${clauses.length > 0 ? Prisma.sql`AND ${Prisma.join(clauses, ' AND ')}` : Prisma.empty}
+          ${tagFilterSql(filters)} ${locationFilterSql({ location })}
+      ) candidates
+      WHERE "distance" <= ${radius}
+    `;
+  }
+
+  // Comments on photos in the given projects, ranked on the comment text alone
+  async searchComments(
+    text: string,
+    projectIds: string[],
+    page: SearchPage
+  ): Promise<{ hits: SearchHit[]; total: number }> {
+    const tsquery = buildPrefixQuery(text);
+    if (!tsquery || projectIds.length === 0) return { hits: [], total: 0 };
+
+    const query = Prisma.sql`to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsquery})`;
+    const from = Prisma.sql`
+      FROM "comments" c
+      JOIN "photos" p ON p."id" = c."photoId"
+      WHERE c."searchVector" @@ ${query} AND p."projectId" = ANY(${projectIds})
+    `;
+
+    const [rows, counts] = await Promise.all([
+      this.prisma.$queryRaw<{ id: string; rank: number; snippet: string | null }[]>`
+        SELECT c."id",
+               ts_rank(c."searchVector", ${query}) AS "rank",
+               ts_headline(${SEARCH_CONFIG}::regconfig, c."text", ${query}, ${HEADLINE_OPTIONS}) AS "snippet"
+        ${from}
+        ORDER BY "rank" DESC, c."createdAt" DESC
+        LIMIT ${page.take} OFFSET ${page.skip}
+      `,
+      this.prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS "total" ${from}
+      `,
+    ]);
+
+    return {
+      hits: rows.map((row) => ({ id: row.id, rank: Number(row.rank), snippet: formatSnippet(row.snippet) })),
+      total: Number(counts[0]?.total ?? 0),
+    };
+  }
+
+  // Highlights whichever source matched first, only for the photos on this page
+  private async photoSnippets(photoIds: string[], query: Prisma.Sql) {
+    const rows = await this.prisma.$queryRaw<{ id: string; matchedIn: PhotoMatchSource; snippet: string | null }[]>`
+      SELECT "id", "matchedIn",
+             CASE WHEN "source" IS NULL THEN NULL
+                  ELSE ts_headline(${SEARCH_CONFIG}::regconfig, "source", ${query}, ${HEADLINE_OPTIONS})
+             END AS "snippet"
+      FROM (
+        SELECT p."id",
+               CASE
+                 WHEN to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(p."note", '')) @@ ${query} THEN 'note'
+                 WHEN v."transcription" IS NOT NULL OR p."searchVector" @@ ${query} THEN 'transcription'
+                 WHEN c."text" IS NOT NULL THEN 'comment'
+                 WHEN f."searchVector" @@ ${query} THEN 'folder'
+                 ELSE 'tag'
+               END AS "matchedIn",
+               CASE
+                 WHEN to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(p."note", '')) @@ ${query} THEN p."note"
+                 WHEN v."transcription" IS NOT NULL THEN v."transcription"
+                 WHEN p."searchVector" @@ ${query} THEN p."voiceNoteTranscription"
+                 WHEN c."text" IS NOT NULL THEN c."text"
+                 WHEN f."searchVector" @@ ${query} THEN f."name"
+               END AS "source"
+        FROM "photos" p
+        LEFT JOIN "folders" f ON f."id" = p."folderId"
+        LEFT JOIN LATERAL (
+          SELECT "transcription" FROM "voice_notes"
+          WHERE "photoId" = p."id" AND "searchVector" @@ ${query}
+          ORDER BY "createdAt" DESC LIMIT 1
+        ) v ON true
+        LEFT JOIN LATERAL (
+          SELECT "text" FROM "comments"
+          WHERE "photoId" = p."id" AND "searchVector" @@ ${query}
+          ORDER BY "createdAt" DESC LIMIT 1
+        ) c ON true
+        WHERE p."id" = ANY(${photoIds})
+      ) sources
+    `;
+
+    return new Map(rows.map((row) => [row.id, row]));
+  }
+}
+
+// Photos must carry every requested tag, by id or case-insensitive name
+function tagFilterSql({ tagIds = [], tagNames = [] }: PhotoSearchFilters): Prisma.Sql {
+  const clauses = [
+    ...tagIds.map(
+      (tagId) => Prisma.sql`EXISTS (SELECT 1 FROM "photo_tags" pt WHERE pt."photoId" = p."id" AND pt."tagId" = ${tagId})`
+    ),
+    ...tagNames.map(
+      (name) => Prisma.sql`EXISTS (
+        SELECT 1 FROM "photo_tags" pt JOIN "tags" t ON t."id" = pt."tagId"
+        WHERE pt."photoId" = p."id" AND lower(t."name") = lower(${name})
+      )`
+    ),
+  ];
+
+  return clauses.length > 0 ? Prisma.sql`AND ${Prisma.join(clauses, ' AND ')}` : Prisma.empty;
+}
+
+// Photos inside the bbox and the box around the radius; the radius itself is applied on distance
+function locationFilterSql({ location }: PhotoSearchFilters): Prisma.Sql {
+  if (!location) return Prisma.empty;
+
+  const boxes = [location.box, location.near && boundingBoxAround(location.near, location.radius!)];
+  const clauses = [
+    ...boxes.filter((box): box is BoundingBox => box !== null).map(boxSql),
+    Prisma.sql`NOT (p."latitude" = 0 AND p."longitude" = 0)`,
+  ];
+
+  return Prisma.sql`AND ${Prisma.join(clauses, ' AND ')}`;
+}
+
+function boxSql(box: BoundingBox): Prisma.Sql {
+  const longitude = box.west <= box.east
+    ? Prisma.sql`p."longitude" BETWEEN ${box.west} AND ${box.east}`
+    : Prisma.sql`(p."longitude" >= ${box.west} OR p."longitude" <= ${box.east})`;
+
+  return Prisma.sql`p."latitude" BETWEEN ${box.south} AND ${box.north} AND ${longitude}`;
+}
+
+// Haversine distance in meters, matching distanceMeters in lib/geo
+function distanceSql(point: LatLng): Prisma.Sql {
+  const lat = Prisma.sql`${point.latitude}::float8`;
+  const lng = Prisma.sql`${point.longitude}::float8`;
+
+  return Prisma.sql`(2 * ${EARTH_RADIUS_METERS}::float8 * asin(sqrt(
+    power(sin(radians(p."latitude" - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(p."latitude")) * power(sin(radians(p."longitude" - ${lng}) / 2), 2)
+  )))`;
+}
+
+function formatSnippet(raw: string | null): string | null {
+  if (!raw) return null;
+
+  return raw
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .split(HIGHLIGHT_START).join('<mark>')
+    .split(HIGHLIGHT_END).join('</mark>');
+}
+
+export function createSearchService(prisma: PrismaClient): SearchService {
+  return new SearchService(prisma);
+}
@@ -1,4 +1,9 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs';
+import { Readable } from 'stream';
+import type { ReadableStream } from 'stream/web';
+import { LocalDiskStorageService } from './local-storage.js';
+import { S3Service } from './s3.js';
 
 const STORAGE_BUCKET = 'media';
 
@@ -9,9 +14,37 @@ export interface UploadResult {
 
 export interface StorageService {
   uploadFile(buffer: Buffer, fileName: string, contentType: string, folder?: string): Promise<UploadResult>;
+  uploadLocalFile(localPath: string, fileName: string, contentType: string, folder?: string): Promise<UploadResult>;
   deleteFile(path: string): Promise<void>;
+  downloadFile(path: string): Promise<Buffer>;
+  // For files too large to hold in memory, e.g. videos added to a ZIP download
+  downloadStream(path: string): Promise<Readable>;
   getSignedUploadUrl(fileName: string, folder?: string): Promise<{ signedUrl: string; path: string; publicUrl: string }>;
   getPublicUrl(path: string): string;
+  getPathFromUrl(url: string): string | null;
+}
+
+// Replace spaces and special chars with underscores so paths stay URL-safe
+export function sanitizeFileName(fileName: string): string {
+  return fileName
+    .replace(/\s+/g, '_')
+    .replace(/[^a-zA-Z0-9._-]/g, '_');
+}
+
+/**
+ * Reads a media file by its URL, but only from the configured storage. Media
+ * URLs are supplied by clients, so following anything else would let them
+ * make the server fetch arbitrary addresses. Returns null for such URLs.
+ */
+export async function readStoredFile(storage: StorageService, url: string): Promise<Buffer | null> {
+  const storagePath = storage.getPathFromUrl(url);
+  return storagePath ? storage.downloadFile(storagePath) : null;
+}
+
+// Streaming counterpart of readStoredFile, for files too large to buffer
+export async function openStoredFile(storage: StorageService, url: string): Promise<Readable | null> {
+  const storagePath = storage.getPathFromUrl(url);
+  return storagePath ? storage.downloadStream(storagePath) : null;
 }
 
 class SupabaseStorageService implements StorageService {
@@ -58,6 +91,33 @@ class SupabaseStorageService implements StorageService {
     };
   }
 
+  async uploadLocalFile(
+    localPath: string,
+    fileName: string,
+    contentType: string,
+    folder: string = 'photos'
+  ): Promise<UploadResult> {
+    const path = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
+    const file = await fs.openAsBlob(localPath, { type: contentType });
+
+    const { data, error } = await this.supabase.storage
+      .from(STORAGE_BUCKET)
+      .upload(path, file, {
+        contentType,
+        cacheControl: '3600',
+        upsert: false,
+      });
+
+    if (error) {
+      throw new Error(`Failed to upload file: ${error.message}`);
+    }
+
+    return {
+      url: this.getPublicUrl(data.path),
+      path: data.path,
+    };
+  }
+
   async deleteFile(path: string): Promise<void> {
     const { error } = await this.supabase.storage
       .from(STORAGE_BUCKET)
@@ -68,15 +128,34 @@ class SupabaseStorageService implements StorageService {
     }
   }
 
+  async downloadFile(path: string): Promise<Buffer> {
+    const { data, error } = await this.supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(path);
+
+    if (error) {
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  // The client's download() buffers the whole file, so read the public URL instead
+  async downloadStream(path: string): Promise<Readable> {
+    const response = await fetch(this.getPublicUrl(path));
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download file: HTTP ${response.status}`);
+    }
+
+    return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+  }
+
   async getSignedUploadUrl(
     fileName: string,
     folder: string = 'photos'
   ): Promise<{ signedUrl: string; path: string; publicUrl: string }> {
-    // Sanitize filename: replace spaces and special chars with underscores
-    const sanitizedFileName = fileName
-      .replace(/\s+/g, '_')
-      .replace(/[^a-zA-Z0-9._-]/g, '_');
-    const path = `${folder}/${Date.now()}-${sanitizedFileName}`;
+    const path = `${folder}/${Date.now()}-${sanitizeFileName(fileName)}`;
 
     const { data, error } = await this.supabase.storage
       .from(STORAGE_BUCKET)
@@ -96,13 +175,33 @@ class SupabaseStorageService implements StorageService {
   getPublicUrl(path: string): string {
     return `${this.bucketUrl}/${path}`;
   }
+
+  getPathFromUrl(url: string): string | null {
+    return url.startsWith(`${this.bucketUrl}/`) ? url.slice(this.bucketUrl.length + 1) : null;
+  }
 }
 
 let storageService: StorageService | null = null;
 
+export function getStorageProvider(): string {
+  return process.env.STORAGE_PROVIDER || 'supabase';
+}
+
 export function getStorageService(): StorageService {
   if (!storageService) {
-    storageService = new SupabaseStorageService();
+    switch (getStorageProvider()) {
+      case 'local':
+        storageService = new LocalDiskStorageService();
+        break;
+      case 's3':
+        storageService = new S3Service();
+        break;
+      case 'supabase':
+        storageService = new SupabaseStorageService();
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_PROVIDER: ${getStorageProvider()}`);
+    }
   }
   return storageService;
 }
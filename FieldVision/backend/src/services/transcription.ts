@@ -1,35 +1,201 @@
 import OpenAI from 'openai';
-import { Readable } from 'stream';
+import path from 'path';
+import { Photo, Prisma, PrismaClient } from '@prisma/client';
+import { getStorageService, StorageService } from './storage.js';
+import { WhisperServerTranscriptionProvider } from './whisper-server.js';
+
+export const TRANSCRIBE_VOICE_NOTE_JOB = 'voice-note.transcribe';
+
+export interface TranscribeVoiceNotePayload {
+  voiceNoteId: string;
+}
+
+export interface TranscriptionProvider {
+  transcribe(audio: Buffer, fileName: string, contentType: string): Promise<string>;
+}
+
+class OpenAITranscriptionProvider implements TranscriptionProvider {
+  private openai: OpenAI;
+
+  constructor(apiKey: string) {
+    this.openai = new OpenAI({ apiKey });
+  }
+
+  async transcribe(audio: Buffer, fileName: string, contentType: string): Promise<string> {
+    const file = new File([audio], fileName, { type: contentType });
+
+    const transcription = await this.openai.audio.transcriptions.create({
+      file,
+      model: 'whisper-1',
+      language: 'en',
+    });
+
+    return transcription.text;
+  }
+}
+
+export function getTranscriptionProviderName(): string {
+  return process.env.TRANSCRIPTION_PROVIDER || 'openai';
+}
+
+// Returns null when the selected provider has no credentials configured
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  switch (getTranscriptionProviderName()) {
+    case 'openai':
+      return process.env.OPENAI_API_KEY ? new OpenAITranscriptionProvider(process.env.OPENAI_API_KEY) : null;
+    case 'whisper':
+      return new WhisperServerTranscriptionProvider();
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${getTranscriptionProviderName()}`);
+  }
+}
 
 export class TranscriptionService {
-  private openai: OpenAI | null = null;
+  private prisma: PrismaClient;
+  private storage: StorageService;
+  private provider: TranscriptionProvider | null;
 
-  constructor() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey) {
-      this.openai = new OpenAI({ apiKey });
-    }
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.storage = getStorageService();
+    this.provider = getTranscriptionProvider();
   }
 
-  async transcribe(audioBuffer: Buffer): Promise<string | null> {
-    if (!this.openai) {
-      console.warn('OpenAI API key not configured, skipping transcription');
-      return null;
+  async transcribeVoiceNote({ voiceNoteId }: TranscribeVoiceNotePayload): Promise<void> {
+    // The note may have been deleted while this job was waiting
+    const voiceNote = await this.prisma.voiceNote.findUnique({
+      where: { id: voiceNoteId },
+    });
+
+    if (!voiceNote) return;
+
+    if (!this.provider) {
+      await this.markFailed({ voiceNoteId }, new Error('Transcription is not configured'));
+      return;
     }
 
-    try {
-      const file = new File([audioBuffer], 'audio.m4a', { type: 'audio/m4a' });
+    const audioPath = this.storage.getPathFromUrl(voiceNote.audioUrl);
+    if (!audioPath) {
+      await this.markFailed({ voiceNoteId }, new Error('Voice note is not in the configured storage'));
+      return;
+    }
+
+    // Provider errors propagate so the job queue retries with backoff
+    const audio = await this.storage.downloadFile(audioPath);
+    const fileName = path.basename(audioPath);
+    const transcription = await this.provider.transcribe(audio, fileName, audioContentType(fileName));
+
+    await this.updateVoiceNote(voiceNote.id, voiceNote.photoId, {
+      transcription,
+      transcriptionStatus: 'DONE',
+      transcriptionError: null,
+    });
+  }
+
+  async markFailed({ voiceNoteId }: TranscribeVoiceNotePayload, error: Error): Promise<void> {
+    const voiceNote = await this.prisma.voiceNote.findUnique({
+      where: { id: voiceNoteId },
+      select: { id: true, photoId: true },
+    });
 
-      const transcription = await this.openai.audio.transcriptions.create({
-        file,
-        model: 'whisper-1',
-        language: 'en',
-      });
+    if (!voiceNote) return;
 
-      return transcription.text;
-    } catch (error) {
-      console.error('Transcription error:', error);
-      return null;
+    await this.updateVoiceNote(voiceNote.id, voiceNote.photoId, {
+      transcriptionStatus: 'FAILED',
+      transcriptionError: error.message,
+    });
+  }
+
+  private async updateVoiceNote(
+    voiceNoteId: string,
+    photoId: string,
+    data: Prisma.VoiceNoteUpdateManyMutationInput
+  ): Promise<void> {
+    const { count } = await this.prisma.voiceNote.updateMany({
+      where: { id: voiceNoteId },
+      data,
+    });
+
+    if (count > 0) {
+      await syncLatestVoiceNote(this.prisma, photoId);
     }
   }
 }
+
+/**
+ * Copies the newest voice note onto the photo's legacy voiceNote* columns,
+ * which older clients still read. Clears them when no notes remain.
+ */
+export async function syncLatestVoiceNote(prisma: PrismaClient, photoId: string): Promise<void> {
+  const latest = await prisma.voiceNote.findFirst({
+    where: { photoId },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  await prisma.photo.updateMany({
+    where: { id: photoId },
+    data: {
+      voiceNoteUrl: latest?.audioUrl ?? null,
+      voiceNoteTranscription: latest?.transcription ?? null,
+      transcriptionStatus: latest?.transcriptionStatus ?? null,
+      transcriptionError: latest?.transcriptionError ?? null,
+    },
+  });
+}
+
+/**
+ * Photos recorded before VoiceNote existed keep their only note in the legacy
+ * columns. Turns that note into a VoiceNote row so it is listed and is not
+ * overwritten by syncLatestVoiceNote when a new note is added. Safe to call
+ * repeatedly: the adopted note reuses the photo's id, so a concurrent call
+ * cannot create it twice.
+ */
+export async function adoptLegacyVoiceNote(
+  prisma: PrismaClient,
+  photo: Pick<Photo, 'id' | 'uploaderId' | 'voiceNoteUrl' | 'voiceNoteTranscription' | 'transcriptionError' | 'updatedAt'>
+): Promise<void> {
+  if (!photo.voiceNoteUrl) return;
+
+  const existing = await prisma.voiceNote.count({ where: { photoId: photo.id } });
+  if (existing > 0) return;
+
+  const transcribed = photo.voiceNoteTranscription !== null;
+
+  await prisma.voiceNote.createMany({
+    data: [
+      {
+        id: photo.id,
+        photoId: photo.id,
+        authorId: photo.uploaderId,
+        audioUrl: photo.voiceNoteUrl,
+        transcription: photo.voiceNoteTranscription,
+        // Nothing is queued for an unfinished legacy transcription any more, so let it be retried
+        transcriptionStatus: transcribed ? 'DONE' : 'FAILED',
+        transcriptionError: transcribed
+          ? null
+          : photo.transcriptionError ?? 'Transcription did not finish. Retry to transcribe this note.',
+        createdAt: photo.updatedAt,
+      },
+    ],
+    skipDuplicates: true,
+  });
+}
+
+export function audioContentType(fileName: string): string {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.mp3':
+      return 'audio/mpeg';
+    case '.wav':
+      return 'audio/wav';
+    case '.webm':
+      return 'audio/webm';
+    case '.ogg':
+      return 'audio/ogg';
+    default:
+      return 'audio/m4a';
+  }
+}
+
+export function createTranscriptionService(prisma: PrismaClient): TranscriptionService {
+  return new TranscriptionService(prisma);
+}
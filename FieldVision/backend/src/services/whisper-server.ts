@@ -0,0 +1,44 @@
+import type { TranscriptionProvider } from './transcription.js';
+
+/**
+ * Talks to a self-hosted server exposing the OpenAI-compatible
+ * /v1/audio/transcriptions endpoint (faster-whisper-server, LocalAI,
+ * whisper.cpp started with --inference-path, ...).
+ */
+export class WhisperServerTranscriptionProvider implements TranscriptionProvider {
+  private baseUrl: string;
+  private model: string;
+  private apiKey: string | undefined;
+
+  constructor() {
+    this.baseUrl = (process.env.WHISPER_API_URL || 'http://localhost:8000').replace(/\/$/, '');
+    this.model = process.env.WHISPER_MODEL || 'whisper-1';
+    this.apiKey = process.env.WHISPER_API_KEY || undefined;
+  }
+
+  async transcribe(audio: Buffer, fileName: string, contentType: string): Promise<string> {
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: contentType }), fileName);
+    form.append('model', this.model);
+    form.append('language', 'en');
+    form.append('response_format', 'json');
+
+    const response = await fetch(`${this.baseUrl}/v1/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : undefined,
+      body: form,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Whisper server returned ${response.status}: ${error}`);
+    }
+
+    const result = await response.json() as { text?: unknown };
+    if (typeof result.text !== 'string') {
+      throw new Error('Whisper server response did not include text');
+    }
+
+    return result.text.trim();
+  }
+}
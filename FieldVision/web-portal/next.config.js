@@ -1,3 +1,6 @@
+// Self-hosted media (local disk storage, MinIO, a CDN) is served from its own host
+const mediaUrl = process.env.NEXT_PUBLIC_MEDIA_URL ? new URL(process.env.NEXT_PUBLIC_MEDIA_URL) : null;
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   images: {
@@ -10,6 +13,13 @@ const nextConfig = {
         protocol: 'https',
         hostname: '**.supabase.co',
       },
+      ...(mediaUrl
+        ? [{
+            protocol: mediaUrl.protocol.replace(':', ''),
+            hostname: mediaUrl.hostname,
+            port: mediaUrl.port,
+          }]
+        : []),
     ],
   },
 };
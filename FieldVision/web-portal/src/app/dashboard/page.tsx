@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
 import { DashboardLayout } from '@/components/DashboardLayout';
+import { PendingInvitations } from '@/components/PendingInvitations';
 import { getProjects, Project } from '@/lib/projects-api';
 import {
   Loader2,
@@ -74,6 +75,8 @@ export default function DashboardPage() {
           </Link>
         </div>
 
+        <PendingInvitations onAccepted={loadProjects} />
+
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="w-8 h-8 animate-spin text-fieldvision-blue" />
@@ -0,0 +1,555 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth-context';
+import { DashboardLayout } from '@/components/DashboardLayout';
+import {
+  getReportTemplates,
+  createReportTemplate,
+  updateReportTemplate,
+  deleteReportTemplate,
+  uploadReportTemplateLogo,
+  removeReportTemplateLogo,
+  ReportTemplate,
+  ReportTemplateSettings,
+  ReportCoverField,
+  ReportGrouping,
+} from '@/lib/projects-api';
+import { FileText, ImagePlus, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const DEFAULT_SETTINGS: ReportTemplateSettings = {
+  name: '',
+  companyName: null,
+  primaryColor: '#004E89',
+  accentColor: '#FF6B35',
+  photosPerPage: 1,
+  groupBy: 'NONE',
+  coverFields: ['address', 'photoCount', 'generatedAt'],
+  coverNote: null,
+  includeNotes: true,
+  includeLocation: true,
+  includeDate: true,
+  includeComparisons: true,
+  includeComments: false,
+  includeTranscriptions: false,
+  sharedWithTeam: false,
+};
+
+const COVER_FIELD_LABELS: Record<ReportCoverField, string> = {
+  address: 'Project address',
+  client: 'Client name',
+  photoCount: 'Number of photos',
+  dateRange: 'Dates the photos were taken',
+  preparedBy: 'Prepared by',
+  generatedAt: 'Report date',
+};
+
+const CONTENT_LABELS: { key: keyof ReportTemplateSettings; label: string }[] = [
+  { key: 'includeDate', label: 'Date and time taken' },
+  { key: 'includeLocation', label: 'GPS location' },
+  { key: 'includeNotes', label: 'Photo notes' },
+  { key: 'includeTranscriptions', label: 'Voice note transcriptions' },
+  { key: 'includeComments', label: 'Comments' },
+  { key: 'includeComparisons', label: 'Before/after comparison pages' },
+];
+
+const GRID_COLUMNS: Record<ReportTemplateSettings['photosPerPage'], string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1',
+  4: 'grid-cols-2',
+  6: 'grid-cols-2',
+};
+
+function settingsOf(template: ReportTemplate): ReportTemplateSettings {
+  const { id, logoUrl, ownerName, isOwner, createdAt, updatedAt, ...settings } = template;
+  return settings;
+}
+
+export default function ReportTemplatesPage() {
+  const router = useRouter();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // null while creating a template that has not been saved yet
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<ReportTemplateSettings>(DEFAULT_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = templates.find((t) => t.id === selectedId) ?? null;
+  // Templates shared by a teammate can be used for reports but only their owner can change them
+  const readOnly = selected !== null && !selected.isOwner;
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [authLoading, isAuthenticated, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadTemplates();
+    }
+  }, [isAuthenticated]);
+
+  async function loadTemplates() {
+    setIsLoading(true);
+    try {
+      const data = await getReportTemplates();
+      setTemplates(data);
+      if (data.length > 0) {
+        selectTemplate(data[0]);
+      }
+    } catch (err) {
+      console.error('Failed to load report templates:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function selectTemplate(template: ReportTemplate) {
+    setSelectedId(template.id);
+    setDraft(settingsOf(template));
+    setIsEditing(true);
+  }
+
+  function startNewTemplate() {
+    setSelectedId(null);
+    setDraft(DEFAULT_SETTINGS);
+    setIsEditing(true);
+  }
+
+  function updateDraft(changes: Partial<ReportTemplateSettings>) {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  }
+
+  function toggleCoverField(field: ReportCoverField) {
+    setDraft((prev) => ({
+      ...prev,
+      coverFields: prev.coverFields.includes(field)
+        ? prev.coverFields.filter((f) => f !== field)
+        : [...prev.coverFields, field],
+    }));
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const settings = {
+        ...draft,
+        name: draft.name.trim(),
+        companyName: draft.companyName?.trim() || null,
+        coverNote: draft.coverNote?.trim() || null,
+      };
+
+      if (selectedId) {
+        const updated = await updateReportTemplate(selectedId, settings);
+        setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+        setDraft(settingsOf(updated));
+      } else {
+        const created = await createReportTemplate(settings);
+        setTemplates((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+        selectTemplate(created);
+      }
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!selected || !confirm(`Delete the "${selected.name}" template?`)) return;
+
+    setIsSaving(true);
+    try {
+      await deleteReportTemplate(selected.id);
+      const remaining = templates.filter((t) => t.id !== selected.id);
+      setTemplates(remaining);
+      if (remaining.length > 0) {
+        selectTemplate(remaining[0]);
+      } else {
+        setSelectedId(null);
+        setIsEditing(false);
+      }
+    } catch (err) {
+      console.error('Failed to delete template:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete template');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleLogoChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selectedId) return;
+
+    setIsUploadingLogo(true);
+    try {
+      const updated = await uploadReportTemplateLogo(selectedId, file);
+      setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+    } catch (err) {
+      console.error('Failed to upload logo:', err);
+      alert(err instanceof Error ? err.message : 'Failed to upload logo');
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  }
+
+  async function handleRemoveLogo() {
+    if (!selectedId) return;
+
+    setIsUploadingLogo(true);
+    try {
+      const updated = await removeReportTemplateLogo(selectedId);
+      setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+    } catch (err) {
+      console.error('Failed to remove logo:', err);
+      alert(err instanceof Error ? err.message : 'Failed to remove logo');
+    } finally {
+      setIsUploadingLogo(false);
+    }
+  }
+
+  if (authLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-fieldvision-blue" />
+      </div>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Report Templates</h1>
+            <p className="text-gray-500 mt-1">
+              Save a layout and branding for each client, then pick it when generating a report
+            </p>
+          </div>
+          <button
+            onClick={startNewTemplate}
+            className="flex items-center gap-2 px-4 py-2 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span className="hidden sm:inline">New Template</span>
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-fieldvision-blue" />
+          </div>
+        ) : !isEditing ? (
+          <div className="bg-white rounded-xl border p-8 text-center">
+            <FileText className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No report templates yet</p>
+            <p className="text-sm text-gray-400 mt-1">
+              Reports use the standard ProCam360 layout until you create one
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Template list */}
+            <div className="bg-white rounded-xl border divide-y self-start">
+              {templates.map((template) => (
+                <button
+                  key={template.id}
+                  onClick={() => selectTemplate(template)}
+                  className={cn(
+                    'w-full flex items-center gap-3 p-4 text-left hover:bg-gray-50',
+                    template.id === selectedId && 'bg-fieldvision-blue/5'
+                  )}
+                >
+                  <span
+                    className="w-3 h-8 rounded-full shrink-0"
+                    style={{ backgroundColor: template.accentColor }}
+                  />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{template.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {template.isOwner
+                        ? `${template.photosPerPage} photo${template.photosPerPage === 1 ? '' : 's'} per page${template.sharedWithTeam ? ' · Shared with team' : ''}`
+                        : `Shared by ${template.ownerName}`}
+                    </p>
+                  </div>
+                </button>
+              ))}
+              {!selectedId && (
+                <div className="flex items-center gap-3 p-4 bg-fieldvision-blue/5">
+                  <span className="w-3 h-8 rounded-full shrink-0 bg-gray-200" />
+                  <p className="font-medium text-gray-500">New template</p>
+                </div>
+              )}
+            </div>
+
+            {/* Editor */}
+            <form onSubmit={handleSave} className="lg:col-span-2 bg-white rounded-xl border p-6 space-y-6">
+              {readOnly && selected && (
+                <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg text-sm">
+                  Shared by {selected.ownerName}. You can use it for reports, but only they can change it.
+                </div>
+              )}
+
+              <fieldset disabled={readOnly} className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Template Name *</label>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => updateDraft({ name: e.target.value })}
+                      placeholder="e.g., Acme Insurance"
+                      className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Company / Inspector Name</label>
+                    <input
+                      type="text"
+                      value={draft.companyName ?? ''}
+                      onChange={(e) => updateDraft({ companyName: e.target.value })}
+                      placeholder="Shown on the cover page"
+                      className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                    />
+                  </div>
+                </div>
+
+                {/* Branding */}
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Branding</h3>
+                  <div className="flex flex-wrap items-start gap-6">
+                    <div>
+                      <p className="text-sm font-medium text-gray-700 mb-1">Logo</p>
+                      <div className="flex items-center gap-3">
+                        <div className="w-32 h-16 border rounded-lg bg-gray-50 flex items-center justify-center overflow-hidden">
+                          {selected?.logoUrl ? (
+                            <img src={selected.logoUrl} alt="Logo" className="max-w-full max-h-full object-contain" />
+                          ) : (
+                            <ImagePlus className="w-6 h-6 text-gray-300" />
+                          )}
+                        </div>
+                        <div className="space-y-1">
+                          <button
+                            type="button"
+                            onClick={() => logoInputRef.current?.click()}
+                            disabled={!selectedId || isUploadingLogo}
+                            className="flex items-center gap-1 px-3 py-1.5 border rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            {isUploadingLogo && <Loader2 className="w-4 h-4 animate-spin" />}
+                            {selected?.logoUrl ? 'Replace' : 'Upload'}
+                          </button>
+                          {selected?.logoUrl && (
+                            <button
+                              type="button"
+                              onClick={handleRemoveLogo}
+                              disabled={isUploadingLogo}
+                              className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                            >
+                              <X className="w-4 h-4" />
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                        <input
+                          ref={logoInputRef}
+                          type="file"
+                          accept="image/*"
+                          onChange={handleLogoChange}
+                          className="hidden"
+                        />
+                      </div>
+                      {!selectedId && (
+                        <p className="text-xs text-gray-500 mt-1">Save the template to add a logo</p>
+                      )}
+                    </div>
+
+                    <label className="text-sm font-medium text-gray-700">
+                      Header color
+                      <input
+                        type="color"
+                        value={draft.primaryColor}
+                        onChange={(e) => updateDraft({ primaryColor: e.target.value.toUpperCase() })}
+                        className="block mt-1 w-16 h-10 border rounded-lg cursor-pointer"
+                      />
+                    </label>
+                    <label className="text-sm font-medium text-gray-700">
+                      Accent color
+                      <input
+                        type="color"
+                        value={draft.accentColor}
+                        onChange={(e) => updateDraft({ accentColor: e.target.value.toUpperCase() })}
+                        className="block mt-1 w-16 h-10 border rounded-lg cursor-pointer"
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                {/* Layout */}
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Layout</h3>
+                  <div className="flex flex-wrap items-start gap-6">
+                    <div>
+                      <p className="text-sm font-medium text-gray-700 mb-1">Photos per page</p>
+                      <div className="flex gap-2">
+                        {([1, 2, 4, 6] as const).map((count) => (
+                          <button
+                            key={count}
+                            type="button"
+                            onClick={() => updateDraft({ photosPerPage: count })}
+                            className={cn(
+                              'w-10 h-10 rounded-lg border text-sm font-semibold',
+                              draft.photosPerPage === count
+                                ? 'bg-fieldvision-blue text-white border-fieldvision-blue'
+                                : 'text-gray-700 hover:bg-gray-50'
+                            )}
+                          >
+                            {count}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <label className="text-sm font-medium text-gray-700">
+                      Group photos by
+                      <select
+                        value={draft.groupBy}
+                        onChange={(e) => updateDraft({ groupBy: e.target.value as ReportGrouping })}
+                        className="block mt-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                      >
+                        <option value="NONE">Nothing (date order)</option>
+                        <option value="FOLDER">Folder</option>
+                        <option value="DATE">Day taken</option>
+                      </select>
+                      {draft.groupBy !== 'NONE' && (
+                        <span className="block mt-1 text-xs font-normal text-gray-500">
+                          Adds a contents page and a divider page per section
+                        </span>
+                      )}
+                    </label>
+
+                    {/* Page preview */}
+                    <div className="ml-auto w-24 h-32 border rounded shadow-sm bg-white overflow-hidden flex flex-col">
+                      <div className="h-3 shrink-0" style={{ backgroundColor: draft.primaryColor }} />
+                      <div className={cn('flex-1 grid gap-1 p-1.5', GRID_COLUMNS[draft.photosPerPage])}>
+                        {Array.from({ length: draft.photosPerPage }, (_, i) => (
+                          <div key={i} className="bg-gray-200 rounded-sm" />
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Cover page */}
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Cover Page</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-3">
+                    {(Object.keys(COVER_FIELD_LABELS) as ReportCoverField[]).map((field) => (
+                      <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={draft.coverFields.includes(field)}
+                          onChange={() => toggleCoverField(field)}
+                          className="rounded border-gray-300 text-fieldvision-blue focus:ring-fieldvision-blue"
+                        />
+                        {COVER_FIELD_LABELS[field]}
+                      </label>
+                    ))}
+                  </div>
+                  <textarea
+                    value={draft.coverNote ?? ''}
+                    onChange={(e) => updateDraft({ coverNote: e.target.value })}
+                    placeholder="Optional text for the cover, e.g. a scope statement or disclaimer"
+                    rows={3}
+                    maxLength={2000}
+                    className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                  />
+                </div>
+
+                {/* Content */}
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-3">Under Each Photo</h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {CONTENT_LABELS.map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={draft[key] as boolean}
+                          onChange={(e) => updateDraft({ [key]: e.target.checked })}
+                          className="rounded border-gray-300 text-fieldvision-blue focus:ring-fieldvision-blue"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Sharing */}
+                {!readOnly && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-3">Sharing</h3>
+                    <label className="flex items-start gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={draft.sharedWithTeam}
+                        onChange={(e) => updateDraft({ sharedWithTeam: e.target.checked })}
+                        className="mt-0.5 rounded border-gray-300 text-fieldvision-blue focus:ring-fieldvision-blue"
+                      />
+                      <span>
+                        Share with my team
+                        <span className="block text-xs text-gray-500">
+                          Your team contacts can pick this template for their reports, but only you can change it
+                        </span>
+                      </span>
+                    </label>
+                  </div>
+                )}
+              </fieldset>
+
+              {!readOnly && (
+                <div className="flex justify-between gap-3 pt-2 border-t">
+                  {selectedId ? (
+                    <button
+                      type="button"
+                      onClick={handleDelete}
+                      disabled={isSaving}
+                      className="flex items-center gap-2 px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Delete
+                    </button>
+                  ) : (
+                    <span />
+                  )}
+                  <button
+                    type="submit"
+                    disabled={isSaving || !draft.name.trim()}
+                    className="px-4 py-2 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {selectedId ? 'Save Changes' : 'Create Template'}
+                  </button>
+                </div>
+              )}
+            </form>
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -43,6 +43,7 @@ export default function TeamPage() {
   const [newRole, setNewRole] = useState<Role>('CREW');
   const [isAdding, setIsAdding] = useState(false);
   const [addError, setAddError] = useState<string | null>(null);
+  const [inviteNotice, setInviteNotice] = useState<string | null>(null);
 
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editNickname, setEditNickname] = useState('');
@@ -85,16 +86,22 @@ export default function TeamPage() {
 
     setIsAdding(true);
     setAddError(null);
+    setInviteNotice(null);
 
     try {
-      const contact = await addTeamContact(newEmail.trim(), newNickname.trim() || undefined, newRole);
-      setContacts((prev) => [contact, ...prev]);
+      const result = await addTeamContact(newEmail.trim(), newNickname.trim() || undefined, newRole);
+      if ('invitation' in result) {
+        // No account yet; they join the team when they sign up
+        setInviteNotice(`${result.invitation.email} doesn't have an account yet. We've emailed them an invitation.`);
+      } else {
+        setContacts((prev) => [result, ...prev]);
+        // Remove from collaborators if present
+        setCollaborators((prev) => prev.filter((c) => c.userId !== result.contactId));
+      }
       setNewEmail('');
       setNewNickname('');
       setNewRole('CREW');
       setShowAddContact(false);
-      // Remove from collaborators if present
-      setCollaborators((prev) => prev.filter((c) => c.userId !== contact.contactId));
     } catch (err) {
       setAddError(err instanceof Error ? err.message : 'Failed to add contact');
     } finally {
@@ -106,7 +113,9 @@ export default function TeamPage() {
     setIsUpdating(collaborator.userId);
     try {
       const contact = await addTeamContact(collaborator.email, undefined, 'CREW');
-      setContacts((prev) => [contact, ...prev]);
+      if (!('invitation' in contact)) {
+        setContacts((prev) => [contact, ...prev]);
+      }
       setCollaborators((prev) => prev.filter((c) => c.userId !== collaborator.userId));
     } catch (err) {
       console.error('Failed to add collaborator:', err);
@@ -184,6 +193,18 @@ export default function TeamPage() {
           </button>
         </div>
 
+        {inviteNotice && (
+          <div className="flex items-start justify-between gap-3 p-3 mb-6 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+            <div className="flex items-center gap-2">
+              <Mail className="w-4 h-4 flex-shrink-0" />
+              {inviteNotice}
+            </div>
+            <button onClick={() => setInviteNotice(null)} className="p-0.5 hover:bg-green-100 rounded">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Add Contact Form */}
         {showAddContact && (
           <div className="bg-white rounded-xl border p-4 mb-6">
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { requestPasswordReset } from '@/lib/auth-context';
+import { Loader2, Camera, MailCheck } from 'lucide-react';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      setSentMessage(await requestPasswordReset(email));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send reset email');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="mx-auto w-16 h-16 bg-fieldvision-orange rounded-2xl flex items-center justify-center mb-4">
+            <Camera className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-3xl font-bold text-gray-900">
+            Forgot your password?
+          </h2>
+          <p className="mt-2 text-gray-600">
+            Enter your email and we&apos;ll send you a link to choose a new one
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <div className="mt-8 space-y-6">
+            <div className="flex items-start gap-3 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg text-sm">
+              <MailCheck className="w-5 h-5 flex-shrink-0" />
+              <p>{sentMessage} Check your inbox and spam folder.</p>
+            </div>
+            <p className="text-center text-sm text-gray-600">
+              <Link href="/login" className="font-semibold text-fieldvision-blue hover:text-fieldvision-blue/80">
+                Back to sign in
+              </Link>
+            </p>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email address
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="appearance-none block w-full px-4 py-3 border border-gray-300 rounded-lg placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-fieldvision-blue focus:border-transparent"
+                placeholder="you@example.com"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full flex justify-center items-center py-3 px-4 border border-transparent rounded-lg text-white bg-fieldvision-blue hover:bg-fieldvision-blue/90 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-fieldvision-blue font-semibold disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                  Sending...
+                </>
+              ) : (
+                'Send reset link'
+              )}
+            </button>
+
+            <p className="text-center text-sm text-gray-600">
+              Remembered it?{' '}
+              <Link href="/login" className="font-semibold text-fieldvision-blue hover:text-fieldvision-blue/80">
+                Sign in
+              </Link>
+            </p>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,13 +15,38 @@ import {
   createFolder,
   deletePhoto,
   getProjectMembers,
+  getTags,
+  createTag,
+  tagPhotos,
+  untagPhotos,
+  getPhotoPairs,
+  createPhotoPair,
+  getPhoto,
+  getPhotoLocations,
+  createReport,
+  downloadPhotoArchive,
+  waitForReport,
+  getReportTemplates,
   Project,
   Photo,
   Folder,
   ProjectMember,
+  Annotation,
+  Tag,
+  PhotoTag,
+  PhotoPair,
+  Report,
+  ReportFormat,
+  ReportTemplate,
 } from '@/lib/projects-api';
 import { ProjectMembersPanel } from '@/components/ProjectMembersPanel';
+import { AnnotatedImage } from '@/components/AnnotationLayer';
+import { AnnotationEditor } from '@/components/AnnotationEditor';
+import { TagChip, TagPicker, TAG_COLORS } from '@/components/TagPicker';
+import { PhotoPairsPanel } from '@/components/PhotoPairsPanel';
 import { ShareWithTeamModal } from '@/components/ShareWithTeamModal';
+import { PhotoMap } from '@/components/PhotoMap';
+import { MapPoint } from '@/lib/map';
 import {
   Loader2,
   ArrowLeft,
@@ -41,11 +66,25 @@ import {
   FileText,
   Users,
   UserPlus,
+  PenLine,
+  Tags,
+  CheckSquare,
+  CheckCircle2,
+  Circle,
+  Columns2,
+  Link2,
+  LayoutGrid,
+  Map as MapIcon,
 } from 'lucide-react';
-import { generateProjectReport, downloadReport } from '@/lib/report-generator';
 import { format, formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
 
+const REPORT_FORMATS: { value: ReportFormat; label: string }[] = [
+  { value: 'PDF', label: 'PDF' },
+  { value: 'DOCX', label: 'Word' },
+  { value: 'HTML', label: 'HTML' },
+];
+
 export default function ProjectDetailPage() {
   const router = useRouter();
   const params = useParams();
@@ -60,6 +99,7 @@ export default function ProjectDetailPage() {
 
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [isAnnotating, setIsAnnotating] = useState(false);
 
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -69,6 +109,23 @@ export default function ProjectDetailPage() {
 
   const [activeFolder, setActiveFolder] = useState<string | null>(null);
 
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedPhotoIds, setSelectedPhotoIds] = useState<string[]>([]);
+  const [isTagging, setIsTagging] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const [pairs, setPairs] = useState<PhotoPair[]>([]);
+  const [showPairs, setShowPairs] = useState(false);
+  const [includeComparisons, setIncludeComparisons] = useState(true);
+
+  const [viewMode, setViewMode] = useState<'grid' | 'map'>('grid');
+  const [mapPoints, setMapPoints] = useState<MapPoint[]>([]);
+  const [mapStartDate, setMapStartDate] = useState('');
+  const [mapEndDate, setMapEndDate] = useState('');
+  const [isLoadingMap, setIsLoadingMap] = useState(false);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const [batchMode, setBatchMode] = useState(false);
@@ -76,6 +133,10 @@ export default function ProjectDetailPage() {
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
   const [showReportOptions, setShowReportOptions] = useState(false);
   const [reportCompanyName, setReportCompanyName] = useState('');
+  const [reportTemplates, setReportTemplates] = useState<ReportTemplate[]>([]);
+  const [reportTemplateId, setReportTemplateId] = useState('');
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('PDF');
+  const [readyReport, setReadyReport] = useState<Report | null>(null);
 
   const [showMembersPanel, setShowMembersPanel] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
@@ -94,16 +155,50 @@ export default function ProjectDetailPage() {
     }
   }, [isAuthenticated, projectId]);
 
+  useEffect(() => {
+    if (viewMode !== 'map' || !projectId) return;
+
+    let cancelled = false;
+    setIsLoadingMap(true);
+    getPhotoLocations(projectId, {
+      folderId: activeFolder,
+      tagIds: activeTags,
+      startDate: mapStartDate || undefined,
+      endDate: mapEndDate || undefined,
+    })
+      .then((features) => {
+        if (cancelled) return;
+        setMapPoints(
+          features.map((f) => ({
+            id: f.id,
+            latitude: f.geometry.coordinates[1],
+            longitude: f.geometry.coordinates[0],
+            thumbnailUrl: f.properties.thumbnailUrl,
+          }))
+        );
+      })
+      .catch((err) => console.error('Failed to load photo locations:', err))
+      .finally(() => !cancelled && setIsLoadingMap(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [viewMode, projectId, activeFolder, activeTags, mapStartDate, mapEndDate]);
+
   async function loadProjectData() {
     try {
-      const [projectData, photosData, membersData] = await Promise.all([
+      const [projectData, photosData, membersData, tagsData, pairsData] = await Promise.all([
         getProject(projectId),
         getPhotos(projectId),
         getProjectMembers(projectId),
+        getTags(projectId),
+        getPhotoPairs(projectId),
       ]);
       setProject(projectData);
       setPhotos(photosData.data);
       setMembers(membersData);
+      setTags(tagsData);
+      setPairs(pairsData);
       // Check if current user is admin
       const currentUserMember = membersData.find((m) => m.isCurrentUser);
       setIsAdmin(currentUserMember?.role === 'ADMIN');
@@ -123,7 +218,7 @@ export default function ProjectDetailPage() {
     }
   }
 
-  async function handleFileUpload(files: FileList | File[] | null) {
+  async function handleFileUpload(files: FileList | File[] | null, isLiveCapture = false) {
     if (!files || files.length === 0) return;
     const fileArray = Array.from(files);
 
@@ -150,16 +245,18 @@ export default function ProjectDetailPage() {
         // Upload to S3
         await uploadToS3(uploadUrl, file);
 
-        // Get current location for the photo
-        let latitude = 0;
-        let longitude = 0;
-        if (navigator.geolocation) {
+        // Capture time and GPS come from the photo's EXIF data on the server.
+        // Fresh camera captures fall back to the device's current location.
+        let location: { latitude: number; longitude: number } | undefined;
+        if (isLiveCapture && navigator.geolocation) {
           try {
             const position = await new Promise<GeolocationPosition>((resolve, reject) => {
               navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 5000 });
             });
-            latitude = position.coords.latitude;
-            longitude = position.coords.longitude;
+            location = {
+              latitude: position.coords.latitude,
+              longitude: position.coords.longitude,
+            };
           } catch (e) {
             console.log('Could not get location');
           }
@@ -169,9 +266,8 @@ export default function ProjectDetailPage() {
         const photo = await createPhoto({
           projectId,
           remoteUrl: mediaUrl,
-          capturedAt: new Date().toISOString(),
-          latitude,
-          longitude,
+          ...(isLiveCapture && { capturedAt: new Date().toISOString() }),
+          ...location,
           ...(activeFolder && { folderId: activeFolder }),
         });
 
@@ -206,6 +302,7 @@ export default function ProjectDetailPage() {
     try {
       await deletePhoto(photoId);
       setPhotos((prev) => prev.filter((p) => p.id !== photoId));
+      setPairs((prev) => prev.filter((p) => p.beforePhoto.id !== photoId && p.afterPhoto.id !== photoId));
       setSelectedPhoto(null);
       setSelectedIndex(null);
     } catch (err) {
@@ -213,13 +310,156 @@ export default function ProjectDetailPage() {
     }
   }
 
-  const filteredPhotos = activeFolder
-    ? photos.filter((p) => p.folderId === activeFolder)
-    : photos;
+  function handleAnnotationsChange(photoId: string, annotations: Annotation[]) {
+    setPhotos((prev) => prev.map((p) => (p.id === photoId ? { ...p, annotations } : p)));
+    setSelectedPhoto((prev) => (prev && prev.id === photoId ? { ...prev, annotations } : prev));
+  }
+
+  async function handleSetTag(photoIds: string[], tag: PhotoTag, add: boolean) {
+    setIsTagging(true);
+    try {
+      if (add) {
+        await tagPhotos(projectId, photoIds, [tag.id]);
+      } else {
+        await untagPhotos(projectId, photoIds, [tag.id]);
+      }
+
+      const updateTags = (p: Photo): Photo => {
+        if (!photoIds.includes(p.id)) return p;
+        const others = (p.tags || []).filter((t) => t.id !== tag.id);
+        return {
+          ...p,
+          tags: add ? [...others, tag].sort((a, b) => a.name.localeCompare(b.name)) : others,
+        };
+      };
+      setPhotos((prev) => prev.map(updateTags));
+      setSelectedPhoto((prev) => (prev ? updateTags(prev) : prev));
+    } catch (err) {
+      console.error('Failed to update tags:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update tags');
+    } finally {
+      setIsTagging(false);
+    }
+  }
+
+  async function handleCreateTag(name: string, photoIds: string[]) {
+    try {
+      const tag = await createTag(projectId, name, TAG_COLORS[tags.length % TAG_COLORS.length]);
+      setTags((prev) => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      if (photoIds.length > 0) {
+        await handleSetTag(photoIds, tag, true);
+      }
+    } catch (err) {
+      console.error('Failed to create tag:', err);
+      alert(err instanceof Error ? err.message : 'Failed to create tag');
+    }
+  }
+
+  // Pairs the two selected photos, the earlier one as "before"
+  async function handlePairSelected() {
+    const [before, after] = [...selectedPhotos].sort(
+      (a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime()
+    );
+
+    try {
+      const pair = await createPhotoPair(projectId, before.id, after.id);
+      setPairs((prev) => [pair, ...prev]);
+      exitSelectMode();
+      setShowPairs(true);
+    } catch (err) {
+      console.error('Failed to pair photos:', err);
+      alert(err instanceof Error ? err.message : 'Failed to pair photos');
+    }
+  }
+
+  // Photo ids when given, otherwise everything matching the current folder and tag filters
+  async function handleDownloadArchive(photoIds?: string[]) {
+    if (!project) return;
+
+    setIsDownloading(true);
+    try {
+      const blob = await downloadPhotoArchive(projectId, {
+        photoIds,
+        folderIds: !photoIds && activeFolder ? [activeFolder] : undefined,
+        tagIds: !photoIds && activeTags.length > 0 ? activeTags : undefined,
+        manifest: 'csv',
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.name.replace(/[^a-zA-Z0-9._-]+/g, '_')}_Photos.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download photos:', err);
+      alert(err instanceof Error ? err.message : 'Failed to download photos');
+    } finally {
+      setIsDownloading(false);
+    }
+  }
+
+  // Map markers can point at photos beyond the loaded page, which are fetched on demand
+  async function handleMapSelect(photoId: string) {
+    const index = filteredPhotos.findIndex((p) => p.id === photoId);
+    if (index >= 0) {
+      setSelectedPhoto(filteredPhotos[index]);
+      setSelectedIndex(index);
+      return;
+    }
+
+    try {
+      setSelectedPhoto(photos.find((p) => p.id === photoId) ?? (await getPhoto(photoId)));
+      setSelectedIndex(null);
+    } catch (err) {
+      console.error('Failed to load photo:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load photo');
+    }
+  }
+
+  async function openReportOptions() {
+    setShowReportOptions(true);
+    try {
+      setReportTemplates(await getReportTemplates());
+    } catch (err) {
+      console.error('Failed to load report templates:', err);
+    }
+  }
+
+  function selectReportTemplate(templateId: string) {
+    setReportTemplateId(templateId);
+    const template = reportTemplates.find((t) => t.id === templateId);
+    setIncludeComparisons(template ? template.includeComparisons : true);
+  }
+
+  function togglePhotoSelection(photoId: string) {
+    setSelectedPhotoIds((prev) =>
+      prev.includes(photoId) ? prev.filter((id) => id !== photoId) : [...prev, photoId]
+    );
+  }
+
+  function exitSelectMode() {
+    setSelectMode(false);
+    setSelectedPhotoIds([]);
+  }
+
+  const hasTag = (photo: Photo, tagId: string) => !!photo.tags?.some((t) => t.id === tagId);
+
+  const filteredPhotos = photos.filter(
+    (p) =>
+      (!activeFolder || p.folderId === activeFolder) &&
+      activeTags.every((tagId) => hasTag(p, tagId))
+  );
+
+  const selectedPhotos = photos.filter((p) => selectedPhotoIds.includes(p.id));
+  const reportTemplate = reportTemplates.find((t) => t.id === reportTemplateId) ?? null;
 
   const handlePrevious = () => {
     if (selectedIndex !== null && selectedIndex > 0) {
       const newIndex = selectedIndex - 1;
+      setIsAnnotating(false);
       setSelectedIndex(newIndex);
       setSelectedPhoto(filteredPhotos[newIndex]);
     }
@@ -228,6 +468,7 @@ export default function ProjectDetailPage() {
   const handleNext = () => {
     if (selectedIndex !== null && selectedIndex < filteredPhotos.length - 1) {
       const newIndex = selectedIndex + 1;
+      setIsAnnotating(false);
       setSelectedIndex(newIndex);
       setSelectedPhoto(filteredPhotos[newIndex]);
     }
@@ -266,7 +507,7 @@ export default function ProjectDetailPage() {
 
   return (
     <DashboardLayout>
-      <div className="max-w-6xl mx-auto">
+      <div className={cn('max-w-6xl mx-auto', selectMode && 'pb-24')}>
         {/* Header */}
         <div className="mb-6">
           <Link
@@ -327,7 +568,31 @@ export default function ProjectDetailPage() {
               </button>
               {photos.length > 0 && (
                 <button
-                  onClick={() => setShowReportOptions(true)}
+                  onClick={() => (selectMode ? exitSelectMode() : setSelectMode(true))}
+                  className={cn(
+                    'flex items-center gap-2 px-4 py-2 border rounded-lg font-semibold transition-colors',
+                    selectMode
+                      ? 'border-fieldvision-blue text-fieldvision-blue bg-fieldvision-blue/5'
+                      : 'border-gray-300 hover:bg-gray-50'
+                  )}
+                >
+                  <CheckSquare className="w-5 h-5" />
+                  <span className="hidden sm:inline">{selectMode ? 'Done' : 'Select'}</span>
+                </button>
+              )}
+              {photos.length > 0 && (
+                <button
+                  onClick={() => setShowPairs(true)}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg font-semibold hover:bg-gray-50 transition-colors"
+                >
+                  <Columns2 className="w-5 h-5" />
+                  <span className="hidden sm:inline">Before/After</span>
+                  {pairs.length > 0 && <span className="text-sm text-gray-500">({pairs.length})</span>}
+                </button>
+              )}
+              {photos.length > 0 && (
+                <button
+                  onClick={openReportOptions}
                   disabled={isGeneratingReport}
                   className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50"
                 >
@@ -339,6 +604,17 @@ export default function ProjectDetailPage() {
                   <span className="hidden sm:inline">Report</span>
                 </button>
               )}
+              {photos.length > 0 && (
+                <button
+                  onClick={() => handleDownloadArchive()}
+                  disabled={isDownloading}
+                  title={activeFolder || activeTags.length > 0 ? 'Download the filtered photos as a ZIP' : 'Download all photos as a ZIP'}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg font-semibold hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  {isDownloading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Download className="w-5 h-5" />}
+                  <span className="hidden sm:inline">Download</span>
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -358,7 +634,7 @@ export default function ProjectDetailPage() {
           accept="image/*"
           capture="environment"
           className="hidden"
-          onChange={(e) => handleFileUpload(e.target.files)}
+          onChange={(e) => handleFileUpload(e.target.files, true)}
         />
 
         {/* Upload progress */}
@@ -451,8 +727,100 @@ export default function ProjectDetailPage() {
           )}
         </div>
 
-        {/* Photo grid */}
-        {filteredPhotos.length === 0 ? (
+        {/* Tag filters */}
+        {tags.length > 0 && (
+          <div className="mb-6 flex flex-wrap items-center gap-2">
+            <Tags className="w-4 h-4 text-gray-400" />
+            <TagPicker
+              tags={tags}
+              isActive={(tag) => activeTags.includes(tag.id)}
+              onToggle={(tag) =>
+                setActiveTags((prev) =>
+                  prev.includes(tag.id) ? prev.filter((id) => id !== tag.id) : [...prev, tag.id]
+                )
+              }
+            />
+            {activeTags.length > 0 && (
+              <button
+                onClick={() => setActiveTags([])}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* View toggle */}
+        {photos.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-3">
+            <div className="inline-flex bg-white border rounded-lg p-1">
+              {([
+                { id: 'grid', label: 'Grid', icon: LayoutGrid },
+                { id: 'map', label: 'Map', icon: MapIcon },
+              ] as const).map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setViewMode(id)}
+                  className={cn(
+                    'flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors',
+                    viewMode === id ? 'bg-fieldvision-blue text-white' : 'text-gray-700 hover:bg-gray-100'
+                  )}
+                >
+                  <Icon className="w-4 h-4" />
+                  {label}
+                </button>
+              ))}
+            </div>
+            {viewMode === 'map' && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Calendar className="w-4 h-4 text-gray-400" />
+                <input
+                  type="date"
+                  value={mapStartDate}
+                  max={mapEndDate || undefined}
+                  onChange={(e) => setMapStartDate(e.target.value)}
+                  className="px-2 py-1 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                />
+                <span>to</span>
+                <input
+                  type="date"
+                  value={mapEndDate}
+                  min={mapStartDate || undefined}
+                  onChange={(e) => setMapEndDate(e.target.value)}
+                  className="px-2 py-1 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                />
+                {(mapStartDate || mapEndDate) && (
+                  <button
+                    onClick={() => {
+                      setMapStartDate('');
+                      setMapEndDate('');
+                    }}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    Clear
+                  </button>
+                )}
+                {isLoadingMap && <Loader2 className="w-4 h-4 animate-spin text-fieldvision-blue" />}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Photo map */}
+        {viewMode === 'map' && photos.length > 0 ? (
+          <div className="relative">
+            <PhotoMap points={mapPoints} onSelect={handleMapSelect} className="h-[60vh] min-h-[400px]" />
+            {!isLoadingMap && mapPoints.length === 0 && (
+              <div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none">
+                <div className="flex items-center gap-2 bg-white/90 rounded-lg px-4 py-3 shadow text-gray-600">
+                  <MapPin className="w-5 h-5 text-gray-400" />
+                  No photos with a location match these filters
+                </div>
+              </div>
+            )}
+          </div>
+        ) : filteredPhotos.length === 0 ? (
           <div className="text-center py-12 bg-white rounded-xl border-2 border-dashed border-gray-200">
             <ImageIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-semibold text-gray-900 mb-2">No photos yet</h3>
@@ -480,10 +848,17 @@ export default function ProjectDetailPage() {
               <div
                 key={photo.id}
                 onClick={() => {
+                  if (selectMode) {
+                    togglePhotoSelection(photo.id);
+                    return;
+                  }
                   setSelectedPhoto(photo);
                   setSelectedIndex(index);
                 }}
-                className="relative aspect-square cursor-pointer group overflow-hidden rounded-lg bg-gray-100"
+                className={cn(
+                  'relative aspect-square cursor-pointer group overflow-hidden rounded-lg bg-gray-100',
+                  selectedPhotoIds.includes(photo.id) && 'ring-4 ring-fieldvision-blue'
+                )}
               >
                 <Image
                   src={photo.thumbnailUrl || photo.remoteUrl}
@@ -493,6 +868,25 @@ export default function ProjectDetailPage() {
                   sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 25vw"
                 />
                 <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors" />
+                {photo.tags && photo.tags.length > 0 && (
+                  <div className="absolute top-2 left-2 right-10 flex flex-wrap gap-1">
+                    {photo.tags.slice(0, 3).map((tag) => (
+                      <TagChip key={tag.id} tag={tag} className="max-w-full" />
+                    ))}
+                    {photo.tags.length > 3 && (
+                      <TagChip tag={{ id: 'more', name: `+${photo.tags.length - 3}`, color: '#374151' }} />
+                    )}
+                  </div>
+                )}
+                {selectMode && (
+                  <div className="absolute top-2 right-2 text-white drop-shadow">
+                    {selectedPhotoIds.includes(photo.id) ? (
+                      <CheckCircle2 className="w-6 h-6 fill-fieldvision-blue" />
+                    ) : (
+                      <Circle className="w-6 h-6" />
+                    )}
+                  </div>
+                )}
                 {photo.note && (
                   <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/60 to-transparent">
                     <p className="text-white text-xs truncate">{photo.note}</p>
@@ -504,13 +898,120 @@ export default function ProjectDetailPage() {
         )}
       </div>
 
+      {/* Bulk tagging bar */}
+      {selectMode && (
+        <div className="fixed bottom-0 inset-x-0 z-40 bg-white border-t shadow-lg">
+          <div className="max-w-6xl mx-auto px-4 py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="flex items-center gap-3 shrink-0">
+              <span className="font-semibold text-gray-900">{selectedPhotoIds.length} selected</span>
+              <button
+                onClick={() =>
+                  setSelectedPhotoIds(
+                    selectedPhotoIds.length === filteredPhotos.length ? [] : filteredPhotos.map((p) => p.id)
+                  )
+                }
+                className="text-sm text-fieldvision-blue hover:underline"
+              >
+                {selectedPhotoIds.length === filteredPhotos.length ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            {selectedPhotoIds.length > 0 && (
+              <div className="flex-1">
+                <TagPicker
+                  tags={tags}
+                  isActive={(tag) => selectedPhotos.every((p) => hasTag(p, tag.id))}
+                  onToggle={(tag) =>
+                    handleSetTag(selectedPhotoIds, tag, !selectedPhotos.every((p) => hasTag(p, tag.id)))
+                  }
+                  onCreate={(name) => handleCreateTag(name, selectedPhotoIds)}
+                  disabled={isTagging}
+                />
+              </div>
+            )}
+            {selectedPhotoIds.length > 0 && (
+              <button
+                onClick={() => handleDownloadArchive(selectedPhotoIds)}
+                disabled={isDownloading}
+                className="shrink-0 flex items-center gap-2 px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download ZIP
+              </button>
+            )}
+            {selectedPhotoIds.length === 2 && (
+              <button
+                onClick={handlePairSelected}
+                className="shrink-0 flex items-center gap-2 px-4 py-2 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90"
+              >
+                <Link2 className="w-4 h-4" />
+                Pair as Before/After
+              </button>
+            )}
+            <button
+              onClick={exitSelectMode}
+              className="shrink-0 px-4 py-2 border rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Report Options Modal */}
       {showReportOptions && project && (
         <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
           <div className="bg-white rounded-xl p-6 max-w-md w-full">
-            <h3 className="text-xl font-bold mb-4">Generate PDF Report</h3>
+            <h3 className="text-xl font-bold mb-4">Generate Report</h3>
 
             <div className="space-y-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {REPORT_FORMATS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setReportFormat(value)}
+                      className={`py-2 border rounded-lg text-sm font-medium ${
+                        reportFormat === value
+                          ? 'border-fieldvision-blue bg-fieldvision-blue/10 text-fieldvision-blue'
+                          : 'text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {reportFormat !== 'PDF' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {reportFormat === 'DOCX'
+                      ? 'Editable in Word; annotations are drawn into the photos.'
+                      : 'A single file that opens in any browser and prints to A4.'}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Template</label>
+                  <Link href="/dashboard/report-templates" className="text-xs text-fieldvision-blue hover:underline">
+                    Manage templates
+                  </Link>
+                </div>
+                <select
+                  value={reportTemplateId}
+                  onChange={(e) => selectReportTemplate(e.target.value)}
+                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                >
+                  <option value="">Standard layout</option>
+                  {reportTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Company / Inspector Name
@@ -519,7 +1020,7 @@ export default function ProjectDetailPage() {
                   type="text"
                   value={reportCompanyName}
                   onChange={(e) => setReportCompanyName(e.target.value)}
-                  placeholder="Your Company Name"
+                  placeholder={reportTemplate?.companyName || 'Your Company Name'}
                   className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
                 />
               </div>
@@ -530,11 +1031,51 @@ export default function ProjectDetailPage() {
                 </p>
                 <ul className="text-sm text-gray-600 mt-2 space-y-1">
                   <li>• Cover page with project details</li>
-                  <li>• All {photos.length} photos</li>
-                  <li>• Photo dates and locations</li>
-                  <li>• Notes for each photo</li>
+                  <li>
+                    • {activeFolder || activeTags.length > 0 ? 'Photos matching the current folder and tag filters' : 'All photos'}
+                  </li>
+                  {reportTemplate ? (
+                    <>
+                      <li>
+                        • {reportTemplate.photosPerPage} photo{reportTemplate.photosPerPage === 1 ? '' : 's'} per page
+                        {reportTemplate.groupBy === 'FOLDER' && ', grouped by folder'}
+                        {reportTemplate.groupBy === 'DATE' && ', grouped by day'}
+                      </li>
+                      {(reportTemplate.includeDate || reportTemplate.includeLocation) && (
+                        <li>
+                          • Photo{' '}
+                          {[reportTemplate.includeDate && 'dates', reportTemplate.includeLocation && 'locations']
+                            .filter(Boolean)
+                            .join(' and ')}
+                        </li>
+                      )}
+                      {reportTemplate.includeNotes && <li>• Notes for each photo</li>}
+                      {reportTemplate.includeTranscriptions && <li>• Voice note transcriptions</li>}
+                      {reportTemplate.includeComments && <li>• Comments</li>}
+                    </>
+                  ) : (
+                    <>
+                      <li>• Photo dates and locations</li>
+                      <li>• Notes for each photo</li>
+                    </>
+                  )}
+                  {pairs.length > 0 && includeComparisons && (
+                    <li>• {pairs.length} before/after comparisons</li>
+                  )}
                 </ul>
               </div>
+
+              {pairs.length > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeComparisons}
+                    onChange={(e) => setIncludeComparisons(e.target.checked)}
+                    className="rounded border-gray-300 text-fieldvision-blue focus:ring-fieldvision-blue"
+                  />
+                  Include before/after comparison pages
+                </label>
+              )}
             </div>
 
             <div className="flex gap-3">
@@ -548,28 +1089,60 @@ export default function ProjectDetailPage() {
                 onClick={async () => {
                   setShowReportOptions(false);
                   setIsGeneratingReport(true);
+                  setReadyReport(null);
                   try {
-                    const blob = await generateProjectReport(project, photos, {
-                      companyName: reportCompanyName || 'ProCam360',
+                    // Rendered on the server; large projects can take a minute
+                    const report = await createReport(projectId, {
+                      format: reportFormat,
+                      templateId: reportTemplateId || undefined,
+                      companyName: reportCompanyName || undefined,
+                      includeComparisons,
+                      folderIds: activeFolder ? [activeFolder] : undefined,
+                      tagIds: activeTags.length > 0 ? activeTags : undefined,
+                      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
                     });
-                    const filename = `${project.name.replace(/\s+/g, '_')}_Report_${format(new Date(), 'yyyy-MM-dd')}.pdf`;
-                    downloadReport(blob, filename);
+                    setReadyReport(await waitForReport(projectId, report.id));
                   } catch (err) {
                     console.error('Failed to generate report:', err);
-                    alert('Failed to generate report. Please try again.');
+                    alert(err instanceof Error ? err.message : 'Failed to generate report. Please try again.');
                   } finally {
                     setIsGeneratingReport(false);
                   }
                 }}
                 className="flex-1 py-2 bg-fieldvision-blue text-white rounded-lg hover:bg-fieldvision-blue/90 font-semibold"
               >
-                Generate PDF
+                Generate {REPORT_FORMATS.find((f) => f.value === reportFormat)?.label}
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {/* Finished report */}
+      {readyReport?.downloadUrl && (
+        <div className="fixed bottom-4 right-4 z-40 bg-white rounded-xl shadow-lg border p-4 flex items-center gap-4">
+          <FileText className="w-8 h-8 text-fieldvision-blue" />
+          <div>
+            <p className="font-semibold text-gray-900">
+              {REPORT_FORMATS.find((f) => f.value === readyReport.format)?.label} report ready
+            </p>
+            <p className="text-sm text-gray-500">{readyReport.photoCount} photos</p>
+          </div>
+          <a
+            href={readyReport.downloadUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 px-4 py-2 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90"
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </a>
+          <button onClick={() => setReadyReport(null)} className="p-1 text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Batch Capture Modal */}
       {batchMode && (
         <div className="fixed inset-0 z-50 bg-black flex flex-col">
@@ -584,7 +1157,8 @@ export default function ProjectDetailPage() {
                   onClick={async () => {
                     setBatchMode(false);
                     await handleFileUpload(
-                      Object.assign(batchPhotos, { length: batchPhotos.length, item: (i: number) => batchPhotos[i] }) as unknown as FileList
+                      Object.assign(batchPhotos, { length: batchPhotos.length, item: (i: number) => batchPhotos[i] }) as unknown as FileList,
+                      true
                     );
                     setBatchPhotos([]);
                   }}
@@ -665,6 +1239,7 @@ export default function ProjectDetailPage() {
             onClick={() => {
               setSelectedPhoto(null);
               setSelectedIndex(null);
+              setIsAnnotating(false);
             }}
             className="absolute top-4 right-4 text-white p-2 hover:bg-white/10 rounded-full transition-colors z-10"
           >
@@ -690,14 +1265,24 @@ export default function ProjectDetailPage() {
           )}
 
           <div className="max-w-5xl w-full mx-4 flex flex-col lg:flex-row gap-4">
-            <div className="relative flex-1 aspect-[4/3] lg:aspect-auto lg:h-[70vh]">
-              <Image
-                src={selectedPhoto.remoteUrl}
-                alt={selectedPhoto.note || 'Project photo'}
-                fill
-                className="object-contain"
-                sizes="(max-width: 1024px) 100vw, 70vw"
-              />
+            <div className="flex-1 flex items-center justify-center lg:h-[70vh]">
+              {isAnnotating ? (
+                <AnnotationEditor
+                  photoId={selectedPhoto.id}
+                  src={selectedPhoto.previewUrl || selectedPhoto.remoteUrl}
+                  alt={selectedPhoto.note || 'Project photo'}
+                  annotations={selectedPhoto.annotations || []}
+                  onChange={(annotations) => handleAnnotationsChange(selectedPhoto.id, annotations)}
+                  onDone={() => setIsAnnotating(false)}
+                />
+              ) : (
+                <AnnotatedImage
+                  src={selectedPhoto.previewUrl || selectedPhoto.remoteUrl}
+                  alt={selectedPhoto.note || 'Project photo'}
+                  annotations={selectedPhoto.annotations}
+                  className="max-h-[70vh] object-contain"
+                />
+              )}
             </div>
 
             <div className="lg:w-80 bg-white rounded-lg p-4 max-h-[70vh] overflow-y-auto">
@@ -711,7 +1296,30 @@ export default function ProjectDetailPage() {
                 )}
               </div>
 
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Tags</h3>
+                <TagPicker
+                  tags={tags}
+                  isActive={(tag) => hasTag(selectedPhoto, tag.id)}
+                  onToggle={(tag) => handleSetTag([selectedPhoto.id], tag, !hasTag(selectedPhoto, tag.id))}
+                  onCreate={(name) => handleCreateTag(name, [selectedPhoto.id])}
+                  disabled={isTagging}
+                />
+              </div>
+
               <div className="space-y-2">
+                {!isAnnotating && (
+                  <button
+                    onClick={() => setIsAnnotating(true)}
+                    className="flex items-center justify-center gap-2 w-full py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <PenLine className="w-4 h-4" />
+                    Annotate
+                    {!!selectedPhoto.annotations?.length && (
+                      <span className="text-sm text-gray-500">({selectedPhoto.annotations.length})</span>
+                    )}
+                  </button>
+                )}
                 <a
                   href={selectedPhoto.remoteUrl}
                   download
@@ -747,9 +1355,16 @@ export default function ProjectDetailPage() {
           projectId={projectId}
           existingMemberIds={members.map((m) => m.userId)}
           onClose={() => setShowShareModal(false)}
-          onMembersAdded={(newMembers) => {
-            setMembers((prev) => [...prev, ...newMembers]);
-          }}
+        />
+      )}
+
+      {/* Before/after pairs */}
+      {showPairs && (
+        <PhotoPairsPanel
+          projectId={projectId}
+          pairs={pairs}
+          onPairsChange={setPairs}
+          onClose={() => setShowPairs(false)}
         />
       )}
     </DashboardLayout>
@@ -2,11 +2,11 @@
 
 import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
-import { getSharedProject, addComment, SharedProject } from '@/lib/api';
+import { getSharedProject, addComment, getSharedArchiveUrl, SharedProject } from '@/lib/api';
 import { PhotoGrid } from '@/components/PhotoGrid';
 import { PasswordPrompt } from '@/components/PasswordPrompt';
 import { ProjectHeader } from '@/components/ProjectHeader';
-import { Loader2, AlertCircle, FolderOpen } from 'lucide-react';
+import { Loader2, AlertCircle, FolderOpen, Download } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 type ViewMode = 'all' | 'folder';
@@ -20,6 +20,8 @@ export default function SharePage() {
   const [error, setError] = useState<string | null>(null);
   const [requiresPassword, setRequiresPassword] = useState(false);
   const [passwordError, setPasswordError] = useState<string | undefined>();
+  // Kept for the ZIP download link, which cannot send the password header
+  const [password, setPassword] = useState<string | undefined>();
   const [viewMode, setViewMode] = useState<ViewMode>('all');
   const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
   const [guestName, setGuestName] = useState('');
@@ -44,6 +46,7 @@ export default function SharePage() {
         }
       } else {
         setProject(result);
+        setPassword(password);
         setRequiresPassword(false);
         setPasswordError(undefined);
       }
@@ -171,6 +174,21 @@ export default function SharePage() {
           </div>
         )}
 
+        {project.allowDownload && filteredPhotos.length > 0 && (
+          <div className="mb-4 flex justify-end">
+            <a
+              href={getSharedArchiveUrl(token, {
+                folderId: viewMode === 'folder' ? selectedFolderId : null,
+                password,
+              })}
+              className="flex items-center gap-2 px-4 py-2 bg-fieldvision-blue text-white rounded-lg text-sm font-semibold hover:bg-fieldvision-blue/90 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              {viewMode === 'folder' ? 'Download folder' : 'Download all'} ({filteredPhotos.length})
+            </a>
+          </div>
+        )}
+
         {filteredPhotos.length === 0 ? (
           <div className="text-center py-16">
             <p className="text-gray-500">No photos in this view</p>
@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useAuth, verifyEmail } from '@/lib/auth-context';
+import { Loader2, Camera, CheckCircle, XCircle } from 'lucide-react';
+
+type Status = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [status, setStatus] = useState<Status>('verifying');
+  const [error, setError] = useState('');
+  // Links are single-use, so the request must not repeat when effects run twice in development
+  const requested = useRef(false);
+
+  // Verification emails link here with ?token=<token>
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setError('This verification link is incomplete. Please open the link from your email again.');
+      setStatus('failed');
+      return;
+    }
+
+    verifyEmail(token)
+      .then(() => {
+        setStatus('verified');
+        refreshUser();
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'Failed to verify email');
+        setStatus('failed');
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8 text-center">
+        <div className="mx-auto w-16 h-16 bg-fieldvision-orange rounded-2xl flex items-center justify-center mb-4">
+          <Camera className="w-8 h-8 text-white" />
+        </div>
+
+        {status === 'verifying' ? (
+          <div className="flex items-center justify-center gap-2 text-gray-600">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Confirming your email...
+          </div>
+        ) : status === 'verified' ? (
+          <div className="space-y-4">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto" />
+            <h2 className="text-3xl font-bold text-gray-900">Email confirmed</h2>
+            <p className="text-gray-600">Thanks! Your email address is verified.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <XCircle className="w-12 h-12 text-red-500 mx-auto" />
+            <h2 className="text-3xl font-bold text-gray-900">Couldn&apos;t confirm your email</h2>
+            <p className="text-gray-600">{error}</p>
+            {isAuthenticated && (
+              <p className="text-sm text-gray-500">You can send a new link from the banner on your dashboard.</p>
+            )}
+          </div>
+        )}
+
+        {status !== 'verifying' && (
+          <Link
+            href={isAuthenticated ? '/dashboard' : '/login'}
+            className="inline-flex justify-center py-3 px-6 rounded-lg text-white bg-fieldvision-blue hover:bg-fieldvision-blue/90 font-semibold transition-colors"
+          >
+            {isAuthenticated ? 'Go to dashboard' : 'Sign in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
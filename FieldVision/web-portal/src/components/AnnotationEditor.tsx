@@ -0,0 +1,312 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import {
+  MousePointer2,
+  ArrowUpRight,
+  Square,
+  Circle,
+  Pencil,
+  Type,
+  Trash2,
+  Check,
+  Loader2,
+} from 'lucide-react';
+import {
+  Annotation,
+  AnnotationShape,
+  createAnnotation,
+  updateAnnotation,
+  deleteAnnotation,
+} from '@/lib/projects-api';
+import {
+  ANNOTATION_COLORS,
+  DEFAULT_FONT_SIZE,
+  DEFAULT_STROKE_WIDTH,
+  translateShape,
+} from '@/lib/annotations';
+import { AnnotatedImage, AnnotationLayer } from './AnnotationLayer';
+import { cn } from '@/lib/utils';
+
+type Tool = 'select' | 'arrow' | 'rect' | 'ellipse' | 'freehand' | 'text';
+
+const TOOLS: { id: Tool; label: string; icon: typeof Square }[] = [
+  { id: 'select', label: 'Select', icon: MousePointer2 },
+  { id: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { id: 'rect', label: 'Box', icon: Square },
+  { id: 'ellipse', label: 'Circle', icon: Circle },
+  { id: 'freehand', label: 'Draw', icon: Pencil },
+  { id: 'text', label: 'Text', icon: Type },
+];
+
+// Shapes smaller than this (as a fraction of the image) are treated as stray clicks
+const MIN_SHAPE_SIZE = 0.01;
+
+interface AnnotationEditorProps {
+  photoId: string;
+  src: string;
+  alt: string;
+  annotations: Annotation[];
+  onChange: (annotations: Annotation[]) => void;
+  onDone: () => void;
+}
+
+export function AnnotationEditor({ photoId, src, alt, annotations, onChange, onDone }: AnnotationEditorProps) {
+  const [tool, setTool] = useState<Tool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [moving, setMoving] = useState<{ id: string; shape: AnnotationShape } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<[number, number] | null>(null);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+        e.preventDefault();
+        handleDelete();
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedId, annotations]);
+
+  function toPoint(e: ReactPointerEvent): [number, number] {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    return [round(x), round(y)];
+  }
+
+  function buildShape(start: [number, number], end: [number, number], previous: AnnotationShape | null): AnnotationShape | null {
+    const [x1, y1] = start;
+    const [x2, y2] = end;
+
+    switch (tool) {
+      case 'arrow':
+        return { type: 'arrow', x1, y1, x2, y2, color, strokeWidth: DEFAULT_STROKE_WIDTH };
+      case 'rect':
+      case 'ellipse':
+        return {
+          type: tool,
+          x: Math.min(x1, x2),
+          y: Math.min(y1, y2),
+          width: round(Math.abs(x2 - x1)),
+          height: round(Math.abs(y2 - y1)),
+          color,
+          strokeWidth: DEFAULT_STROKE_WIDTH,
+        };
+      case 'freehand': {
+        const points = previous?.type === 'freehand' ? previous.points : [start];
+        const [lastX, lastY] = points[points.length - 1];
+        if (Math.hypot(x2 - lastX, y2 - lastY) < 0.003) return previous;
+        return { type: 'freehand', points: [...points, end], color, strokeWidth: DEFAULT_STROKE_WIDTH };
+      }
+      default:
+        return null;
+    }
+  }
+
+  async function handleSurfacePointerDown(e: ReactPointerEvent) {
+    if (tool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+
+    const point = toPoint(e);
+
+    if (tool === 'text') {
+      const text = prompt('Label text');
+      if (text?.trim()) {
+        await save({ type: 'text', x: point[0], y: point[1], text: text.trim(), color, fontSize: DEFAULT_FONT_SIZE });
+      }
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = point;
+    setDraft(null);
+  }
+
+  function handleShapePointerDown(annotation: Annotation, e: ReactPointerEvent) {
+    if (tool !== 'select') return;
+
+    e.stopPropagation();
+    surfaceRef.current?.setPointerCapture(e.pointerId);
+    setSelectedId(annotation.id);
+    startRef.current = toPoint(e);
+    setMoving({ id: annotation.id, shape: annotation.shape });
+  }
+
+  function handlePointerMove(e: ReactPointerEvent) {
+    const start = startRef.current;
+    if (!start) return;
+
+    const point = toPoint(e);
+
+    if (moving) {
+      const original = annotations.find((a) => a.id === moving.id);
+      if (original) {
+        setMoving({ id: moving.id, shape: translateShape(original.shape, point[0] - start[0], point[1] - start[1]) });
+      }
+      return;
+    }
+
+    setDraft((previous) => buildShape(start, point, previous));
+  }
+
+  async function handlePointerUp() {
+    startRef.current = null;
+
+    if (moving) {
+      const original = annotations.find((a) => a.id === moving.id);
+      setMoving(null);
+      if (original && JSON.stringify(original.shape) !== JSON.stringify(moving.shape)) {
+        await run(async () => {
+          const updated = await updateAnnotation(photoId, moving.id, moving.shape);
+          onChange(annotations.map((a) => (a.id === updated.id ? updated : a)));
+        });
+      }
+      return;
+    }
+
+    const shape = draft;
+    setDraft(null);
+    if (shape && isLargeEnough(shape)) {
+      await save(shape);
+    }
+  }
+
+  async function save(shape: AnnotationShape) {
+    await run(async () => {
+      const created = await createAnnotation(photoId, shape);
+      onChange([...annotations, created]);
+    });
+  }
+
+  async function handleDelete() {
+    if (!selectedId) return;
+    const id = selectedId;
+
+    await run(async () => {
+      await deleteAnnotation(photoId, id);
+      setSelectedId(null);
+      onChange(annotations.filter((a) => a.id !== id));
+    });
+  }
+
+  async function run(action: () => Promise<void>) {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to save annotation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save annotation');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const visibleAnnotations = moving
+    ? annotations.map((a) => (a.id === moving.id ? { ...a, shape: moving.shape } : a))
+    : annotations;
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full">
+      <div className="flex flex-wrap items-center gap-2 bg-white rounded-lg p-2 shadow">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => {
+              setTool(id);
+              setSelectedId(null);
+            }}
+            title={label}
+            className={cn(
+              'p-2 rounded-lg transition-colors',
+              tool === id ? 'bg-fieldvision-blue text-white' : 'text-gray-700 hover:bg-gray-100'
+            )}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+
+        {ANNOTATION_COLORS.map((swatch) => (
+          <button
+            key={swatch}
+            onClick={() => setColor(swatch)}
+            title={swatch}
+            className={cn(
+              'w-6 h-6 rounded-full border-2 transition-transform',
+              color === swatch ? 'border-gray-900 scale-110' : 'border-gray-200'
+            )}
+            style={{ backgroundColor: swatch }}
+          />
+        ))}
+
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+
+        <button
+          onClick={handleDelete}
+          disabled={!selectedId}
+          title="Delete selected"
+          className="p-2 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onDone}
+          className="flex items-center gap-1 px-3 py-1.5 bg-fieldvision-orange text-white rounded-lg text-sm font-semibold hover:bg-fieldvision-orange/90"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+          Done
+        </button>
+      </div>
+
+      <AnnotatedImage src={src} alt={alt} className="max-h-[62vh]">
+        {({ width, height }) => (
+          <div
+            ref={surfaceRef}
+            className={cn('absolute inset-0 touch-none', tool === 'select' ? 'cursor-default' : 'cursor-crosshair')}
+            onPointerDown={handleSurfacePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <AnnotationLayer
+              annotations={visibleAnnotations}
+              width={width}
+              height={height}
+              draft={draft}
+              selectedId={selectedId}
+              onShapePointerDown={tool === 'select' ? handleShapePointerDown : undefined}
+            />
+          </div>
+        )}
+      </AnnotatedImage>
+    </div>
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function isLargeEnough(shape: AnnotationShape): boolean {
+  switch (shape.type) {
+    case 'arrow':
+      return Math.hypot(shape.x2 - shape.x1, shape.y2 - shape.y1) >= MIN_SHAPE_SIZE;
+    case 'rect':
+    case 'ellipse':
+      return shape.width >= MIN_SHAPE_SIZE && shape.height >= MIN_SHAPE_SIZE;
+    case 'freehand':
+      return shape.points.length >= 2;
+    case 'text':
+      return true;
+  }
+}
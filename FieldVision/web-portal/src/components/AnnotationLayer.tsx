@@ -0,0 +1,162 @@
+'use client';
+
+import { useState } from 'react';
+import type { PointerEvent as ReactPointerEvent, ReactNode } from 'react';
+import { Annotation, AnnotationShape } from '@/lib/projects-api';
+import { arrowHead } from '@/lib/annotations';
+import { cn } from '@/lib/utils';
+
+interface AnnotationLayerProps {
+  annotations: Annotation[];
+  width: number;
+  height: number;
+  draft?: AnnotationShape | null;
+  selectedId?: string | null;
+  onShapePointerDown?: (annotation: Annotation, event: ReactPointerEvent) => void;
+}
+
+// SVG overlay drawn in the image's own pixel space, stretched over the image
+export function AnnotationLayer({
+  annotations,
+  width,
+  height,
+  draft,
+  selectedId,
+  onShapePointerDown,
+}: AnnotationLayerProps) {
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className={cn('absolute inset-0 w-full h-full', !onShapePointerDown && 'pointer-events-none')}
+    >
+      {annotations.map((annotation) => (
+        <g
+          key={annotation.id}
+          onPointerDown={onShapePointerDown && ((e) => onShapePointerDown(annotation, e))}
+          className={cn(onShapePointerDown && 'cursor-move')}
+          style={selectedId === annotation.id ? { filter: 'drop-shadow(0 0 6px rgba(255,255,255,0.9))' } : undefined}
+        >
+          <ShapeElement shape={annotation.shape} width={width} height={height} />
+        </g>
+      ))}
+      {draft && <ShapeElement shape={draft} width={width} height={height} />}
+    </svg>
+  );
+}
+
+function ShapeElement({ shape, width, height }: { shape: AnnotationShape; width: number; height: number }) {
+  const stroke = {
+    stroke: shape.color,
+    fill: 'none',
+    strokeLinecap: 'round' as const,
+    strokeLinejoin: 'round' as const,
+    // Only the drawn outline is clickable, not a shape's interior
+    pointerEvents: 'visibleStroke' as const,
+  };
+
+  switch (shape.type) {
+    case 'arrow':
+      return (
+        <>
+          <line
+            x1={shape.x1 * width}
+            y1={shape.y1 * height}
+            x2={shape.x2 * width}
+            y2={shape.y2 * height}
+            strokeWidth={shape.strokeWidth * width}
+            {...stroke}
+          />
+          <polygon
+            points={arrowHead(shape, width, height).map((p) => p.join(',')).join(' ')}
+            fill={shape.color}
+          />
+        </>
+      );
+    case 'rect':
+      return (
+        <rect
+          x={shape.x * width}
+          y={shape.y * height}
+          width={shape.width * width}
+          height={shape.height * height}
+          strokeWidth={shape.strokeWidth * width}
+          {...stroke}
+        />
+      );
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={(shape.x + shape.width / 2) * width}
+          cy={(shape.y + shape.height / 2) * height}
+          rx={(shape.width / 2) * width}
+          ry={(shape.height / 2) * height}
+          strokeWidth={shape.strokeWidth * width}
+          {...stroke}
+        />
+      );
+    case 'freehand':
+      return (
+        <polyline
+          points={shape.points.map(([x, y]) => `${x * width},${y * height}`).join(' ')}
+          strokeWidth={shape.strokeWidth * width}
+          {...stroke}
+        />
+      );
+    case 'text':
+      return (
+        <text
+          x={shape.x * width}
+          y={shape.y * height}
+          fill={shape.color}
+          fontSize={shape.fontSize * width}
+          fontWeight="bold"
+          fontFamily="helvetica, arial, sans-serif"
+          dominantBaseline="hanging"
+          stroke="rgba(0, 0, 0, 0.6)"
+          strokeWidth={(shape.fontSize * width) / 6}
+          paintOrder="stroke"
+        >
+          {shape.text}
+        </text>
+      );
+  }
+}
+
+interface AnnotatedImageProps {
+  src: string;
+  alt: string;
+  annotations?: Annotation[];
+  className?: string;
+  children?: (size: { width: number; height: number }) => ReactNode;
+}
+
+/**
+ * Photo with its annotations drawn on top. The wrapper shrinks to the rendered
+ * image so the overlay lines up regardless of the image's aspect ratio.
+ */
+export function AnnotatedImage({ src, alt, annotations = [], className, children }: AnnotatedImageProps) {
+  const [loaded, setLoaded] = useState<{ src: string; width: number; height: number } | null>(null);
+  // Ignore the previous image's size while a new src is loading
+  const size = loaded?.src === src ? loaded : null;
+
+  return (
+    <div className="relative inline-block max-w-full select-none">
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className={cn('block max-w-full', className)}
+        onLoad={(e) => {
+          const img = e.currentTarget;
+          setLoaded({ src, width: img.naturalWidth, height: img.naturalHeight });
+        }}
+      />
+      {size && (children
+        ? children(size)
+        : annotations.length > 0 && (
+            <AnnotationLayer annotations={annotations} width={size.width} height={size.height} />
+          ))}
+    </div>
+  );
+}
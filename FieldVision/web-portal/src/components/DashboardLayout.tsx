@@ -3,7 +3,7 @@
 import { ReactNode, useState } from 'react';
 import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
-import { useAuth } from '@/lib/auth-context';
+import { useAuth, resendVerificationEmail } from '@/lib/auth-context';
 import {
   Camera,
   FolderOpen,
@@ -15,6 +15,8 @@ import {
   User,
   ChevronDown,
   Users,
+  FileText,
+  MailWarning,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -28,10 +30,12 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   const { user, logout } = useAuth();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
 
   const navigation = [
     { name: 'Projects', href: '/dashboard', icon: FolderOpen },
     { name: 'Team', href: '/dashboard/team', icon: Users },
+    { name: 'Report Templates', href: '/dashboard/report-templates', icon: FileText },
   ];
 
   const handleLogout = () => {
@@ -39,6 +43,16 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
     router.push('/login');
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await resendVerificationEmail();
+      setVerificationSent(true);
+    } catch (err) {
+      console.error('Failed to resend verification email:', err);
+      alert(err instanceof Error ? err.message : 'Failed to resend verification email');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Mobile sidebar backdrop */}
@@ -176,6 +190,21 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           </div>
         </header>
 
+        {/* Unverified email notice */}
+        {user && !user.emailVerified && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 px-4 sm:px-6 lg:px-8 py-2 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+            <MailWarning className="w-4 h-4 flex-shrink-0" />
+            <span>Please confirm your email address, {user.email}, using the link we sent you.</span>
+            {verificationSent ? (
+              <span className="font-medium">Email sent</span>
+            ) : (
+              <button onClick={handleResendVerification} className="font-medium underline hover:no-underline">
+                Resend email
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Page content */}
         <main className="p-4 sm:p-6 lg:p-8">
           {children}
@@ -1,22 +1,23 @@
 'use client';
 
 import { useState } from 'react';
-import { X, Mail, Loader2, UserPlus } from 'lucide-react';
-import { inviteMember, ProjectMember } from '@/lib/projects-api';
+import { X, Mail, Loader2, UserPlus, Send } from 'lucide-react';
+import { inviteMember, Invitation } from '@/lib/projects-api';
 
 type Role = 'ADMIN' | 'CREW' | 'VIEWER';
 
 interface InviteMemberModalProps {
   projectId: string;
   onClose: () => void;
-  onMemberAdded: (member: ProjectMember) => void;
+  onInvited: (invitation: Invitation) => void;
 }
 
-export function InviteMemberModal({ projectId, onClose, onMemberAdded }: InviteMemberModalProps) {
+export function InviteMemberModal({ projectId, onClose, onInvited }: InviteMemberModalProps) {
   const [email, setEmail] = useState('');
   const [role, setRole] = useState<Role>('CREW');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [invitedEmail, setInvitedEmail] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,9 +27,9 @@ export function InviteMemberModal({ projectId, onClose, onMemberAdded }: InviteM
     setError(null);
 
     try {
-      const member = await inviteMember(projectId, email.trim(), role);
-      onMemberAdded(member);
-      onClose();
+      const { invitation } = await inviteMember(projectId, email.trim(), role);
+      onInvited(invitation);
+      setInvitedEmail(invitation.email);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to invite member');
     } finally {
@@ -52,70 +53,91 @@ export function InviteMemberModal({ projectId, onClose, onMemberAdded }: InviteM
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-4 space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Email Address
-            </label>
-            <div className="relative">
-              <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="colleague@company.com"
-                className="w-full pl-10 pr-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
-                required
-                autoFocus
-              />
+        {invitedEmail ? (
+          <div className="p-4 space-y-4">
+            <div className="flex items-start gap-3 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <Send className="w-5 h-5 text-green-600 flex-shrink-0 mt-0.5" />
+              <div className="text-sm text-green-800">
+                <p className="font-medium">Invitation sent to {invitedEmail}</p>
+                <p className="mt-1">
+                  They&apos;ll join this project once they accept. If they don&apos;t have an account yet,
+                  we&apos;ve emailed them a link to sign up.
+                </p>
+              </div>
             </div>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Role
-            </label>
-            <select
-              value={role}
-              onChange={(e) => setRole(e.target.value as Role)}
-              className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
-            >
-              <option value="ADMIN">Admin - Full control, can invite/remove members</option>
-              <option value="CREW">Editor - Can add/edit photos, folders, comments</option>
-              <option value="VIEWER">Viewer - Read-only access</option>
-            </select>
-          </div>
-
-          {error && (
-            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
-              {error}
-            </div>
-          )}
-
-          <div className="flex gap-3 pt-2">
             <button
-              type="button"
               onClick={onClose}
-              className="flex-1 py-2.5 border rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={isLoading || !email.trim()}
-              className="flex-1 py-2.5 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              className="w-full py-2.5 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90 transition-colors"
             >
-              {isLoading ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  Inviting...
-                </>
-              ) : (
-                'Send Invite'
-              )}
+              Done
             </button>
           </div>
-        </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Email Address
+              </label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="colleague@company.com"
+                  className="w-full pl-10 pr-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+                  required
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Role
+              </label>
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as Role)}
+                className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+              >
+                <option value="ADMIN">Admin - Full control, can invite/remove members</option>
+                <option value="CREW">Editor - Can add/edit photos, folders, comments</option>
+                <option value="VIEWER">Viewer - Read-only access</option>
+              </select>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-2.5 border rounded-lg text-gray-700 font-medium hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isLoading || !email.trim()}
+                className="flex-1 py-2.5 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Inviting...
+                  </>
+                ) : (
+                  'Send Invite'
+                )}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Mail, Check, X } from 'lucide-react';
+import { RoleBadge } from './RoleBadge';
+import {
+  getMyInvitations,
+  acceptInvitation,
+  declineInvitation,
+  Invitation,
+} from '@/lib/projects-api';
+import { useAuth } from '@/lib/auth-context';
+
+interface PendingInvitationsProps {
+  onAccepted: () => void;
+}
+
+export function PendingInvitations({ onAccepted }: PendingInvitationsProps) {
+  const { user } = useAuth();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [respondingTo, setRespondingTo] = useState<string | null>(null);
+
+  // Invitations only show once the email they were sent to is verified
+  const emailVerified = user?.emailVerified ?? false;
+
+  useEffect(() => {
+    if (emailVerified) {
+      loadInvitations();
+    }
+  }, [emailVerified]);
+
+  async function loadInvitations() {
+    try {
+      setInvitations(await getMyInvitations());
+    } catch (err) {
+      console.error('Failed to load invitations:', err);
+    }
+  }
+
+  async function handleRespond(invitation: Invitation, accept: boolean) {
+    setRespondingTo(invitation.id);
+    try {
+      if (accept) {
+        await acceptInvitation(invitation.id);
+        onAccepted();
+      } else {
+        await declineInvitation(invitation.id);
+      }
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      console.error('Failed to respond to invitation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to respond to invitation');
+    } finally {
+      setRespondingTo(null);
+    }
+  }
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {invitations.map((invitation) => (
+        <div
+          key={invitation.id}
+          className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-white rounded-xl border border-fieldvision-blue/30"
+        >
+          <div className="flex items-center gap-3 flex-1 min-w-0">
+            <div className="w-10 h-10 bg-fieldvision-blue/10 rounded-full flex items-center justify-center flex-shrink-0">
+              <Mail className="w-5 h-5 text-fieldvision-blue" />
+            </div>
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">
+                {invitation.invitedByName} invited you to &quot;{invitation.projectName}&quot;
+              </p>
+              <div className="mt-1">
+                <RoleBadge role={invitation.role} size="sm" />
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleRespond(invitation, false)}
+              disabled={respondingTo === invitation.id}
+              className="flex items-center gap-1.5 px-3 py-2 border rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <X className="w-4 h-4" />
+              Decline
+            </button>
+            <button
+              onClick={() => handleRespond(invitation, true)}
+              disabled={respondingTo === invitation.id}
+              className="flex items-center gap-1.5 px-3 py-2 bg-fieldvision-blue text-white rounded-lg font-semibold hover:bg-fieldvision-blue/90 disabled:opacity-50"
+            >
+              {respondingTo === invitation.id ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Check className="w-4 h-4" />
+              )}
+              Accept
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import Image from 'next/image';
+import { Columns2, SplitSquareHorizontal } from 'lucide-react';
+import { format } from 'date-fns';
+import { PairPhoto } from '@/lib/projects-api';
+import { cn } from '@/lib/utils';
+
+type Mode = 'side-by-side' | 'slider';
+
+interface PhotoComparisonProps {
+  before: PairPhoto;
+  after: PairPhoto;
+}
+
+export function PhotoComparison({ before, after }: PhotoComparisonProps) {
+  const [mode, setMode] = useState<Mode>('slider');
+  // Percentage of the frame showing the before photo
+  const [position, setPosition] = useState(50);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  function updatePosition(e: ReactPointerEvent) {
+    const rect = frameRef.current!.getBoundingClientRect();
+    const percent = ((e.clientX - rect.left) / rect.width) * 100;
+    setPosition(Math.min(100, Math.max(0, percent)));
+  }
+
+  return (
+    <div className="flex flex-col gap-3 w-full">
+      <div className="flex justify-center">
+        <div className="inline-flex bg-white rounded-lg p-1 shadow">
+          {([
+            { id: 'slider', label: 'Slider', icon: SplitSquareHorizontal },
+            { id: 'side-by-side', label: 'Side by side', icon: Columns2 },
+          ] as const).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setMode(id)}
+              className={cn(
+                'flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors',
+                mode === id ? 'bg-fieldvision-blue text-white' : 'text-gray-700 hover:bg-gray-100'
+              )}
+            >
+              <Icon className="w-4 h-4" />
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <ComparisonFrame photo={before} label="Before" />
+          <ComparisonFrame photo={after} label="After" />
+        </div>
+      ) : (
+        <div
+          ref={frameRef}
+          className="relative aspect-[4/3] w-full bg-black rounded-lg overflow-hidden select-none touch-none cursor-ew-resize"
+          onPointerDown={(e) => {
+            draggingRef.current = true;
+            e.currentTarget.setPointerCapture(e.pointerId);
+            updatePosition(e);
+          }}
+          onPointerMove={(e) => draggingRef.current && updatePosition(e)}
+          onPointerUp={() => (draggingRef.current = false)}
+        >
+          <PhotoFill photo={after} />
+          <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}>
+            <PhotoFill photo={before} />
+          </div>
+
+          <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}>
+            <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white shadow flex items-center justify-center">
+              <SplitSquareHorizontal className="w-4 h-4 text-gray-700" />
+            </div>
+          </div>
+
+          <CaptionBadge photo={before} label="Before" className="left-3" />
+          <CaptionBadge photo={after} label="After" className="right-3" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PhotoFill({ photo }: { photo: PairPhoto }) {
+  return (
+    <Image
+      src={photo.previewUrl || photo.remoteUrl}
+      alt={photo.note || 'Project photo'}
+      fill
+      draggable={false}
+      className="object-contain"
+      sizes="(max-width: 1024px) 100vw, 70vw"
+    />
+  );
+}
+
+function ComparisonFrame({ photo, label }: { photo: PairPhoto; label: string }) {
+  return (
+    <div className="relative aspect-[4/3] bg-black rounded-lg overflow-hidden">
+      <PhotoFill photo={photo} />
+      <CaptionBadge photo={photo} label={label} className="left-3" />
+    </div>
+  );
+}
+
+function CaptionBadge({ photo, label, className }: { photo: PairPhoto; label: string; className?: string }) {
+  return (
+    <div className={cn('absolute top-3 px-2 py-1 rounded bg-black/60 text-white text-xs pointer-events-none', className)}>
+      <span className="font-semibold uppercase tracking-wide">{label}</span>
+      <span className="text-white/70 ml-2">{format(new Date(photo.capturedAt), 'MMM d, yyyy')}</span>
+    </div>
+  );
+}
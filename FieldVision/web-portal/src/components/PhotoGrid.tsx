@@ -6,6 +6,7 @@ import { Download, MessageCircle, X, ChevronLeft, ChevronRight } from 'lucide-re
 import { SharedPhoto } from '@/lib/api';
 import { formatDateTime } from '@/lib/utils';
 import { cn } from '@/lib/utils';
+import { AnnotatedImage } from './AnnotationLayer';
 
 interface PhotoGridProps {
   photos: SharedPhoto[];
@@ -111,13 +112,12 @@ export function PhotoGrid({
           )}
 
           <div className="max-w-5xl w-full mx-4 flex flex-col lg:flex-row gap-4">
-            <div className="relative flex-1 aspect-[4/3] lg:aspect-auto lg:h-[70vh]">
-              <Image
-                src={selectedPhoto.remoteUrl}
+            <div className="flex-1 flex items-center justify-center lg:h-[70vh]">
+              <AnnotatedImage
+                src={selectedPhoto.previewUrl || selectedPhoto.remoteUrl}
                 alt={selectedPhoto.note || 'Project photo'}
-                fill
-                className="object-contain"
-                sizes="(max-width: 1024px) 100vw, 70vw"
+                annotations={selectedPhoto.annotations}
+                className="max-h-[70vh] object-contain"
               />
             </div>
 
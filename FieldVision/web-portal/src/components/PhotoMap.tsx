@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type * as Leaflet from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { clusterPoints, MapCluster, MapPoint, MAP_ATTRIBUTION, MAP_MAX_ZOOM, MAP_TILE_URL } from '@/lib/map';
+import { cn } from '@/lib/utils';
+
+interface PhotoMapProps {
+  points: MapPoint[];
+  onSelect: (photoId: string) => void;
+  className?: string;
+}
+
+interface MapState {
+  L: typeof Leaflet;
+  map: Leaflet.Map;
+  markers: Leaflet.LayerGroup;
+}
+
+export function PhotoMap({ points, onSelect, className }: PhotoMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stateRef = useRef<MapState | null>(null);
+  const onSelectRef = useRef(onSelect);
+  const [isReady, setIsReady] = useState(false);
+
+  onSelectRef.current = onSelect;
+
+  // Leaflet needs `window` when it loads, so it is imported in the browser only
+  useEffect(() => {
+    let cancelled = false;
+
+    import('leaflet').then((L) => {
+      if (cancelled || !containerRef.current) return;
+
+      const map = L.map(containerRef.current, { worldCopyJump: true }).setView([0, 0], 2);
+      L.tileLayer(MAP_TILE_URL, { attribution: MAP_ATTRIBUTION, maxZoom: MAP_MAX_ZOOM }).addTo(map);
+      stateRef.current = { L, map, markers: L.layerGroup().addTo(map) };
+      setIsReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+      stateRef.current?.map.remove();
+      stateRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isReady || points.length === 0) return;
+
+    const { L, map } = stateRef.current!;
+    map.fitBounds(L.latLngBounds(points.map((p) => [p.latitude, p.longitude])), {
+      padding: [40, 40],
+      maxZoom: 18,
+    });
+  }, [isReady, points]);
+
+  // Clusters depend only on zoom, so they are rebuilt when it changes
+  useEffect(() => {
+    if (!isReady) return;
+
+    const { L, map, markers } = stateRef.current!;
+
+    function render() {
+      markers.clearLayers();
+      const zoom = map.getZoom();
+      const clusters = clusterPoints(points, (p) => map.project([p.latitude, p.longitude], zoom));
+
+      for (const cluster of clusters) {
+        const marker = L.marker([cluster.latitude, cluster.longitude], {
+          icon: L.divIcon({
+            html: markerElement(cluster),
+            className: '',
+            iconSize: [44, 44],
+            iconAnchor: [22, 22],
+          }),
+          title: cluster.points.length === 1 ? 'Open photo' : `${cluster.points.length} photos`,
+        });
+
+        marker.on('click', () => {
+          const bounds = L.latLngBounds(cluster.points.map((p) => [p.latitude, p.longitude]));
+          // A single photo, or a stack at one spot that zooming cannot split, opens directly
+          if (cluster.points.length === 1 || zoom >= map.getMaxZoom() || bounds.getNorthEast().equals(bounds.getSouthWest())) {
+            onSelectRef.current(cluster.points[0].id);
+          } else {
+            map.fitBounds(bounds, { padding: [40, 40] });
+          }
+        });
+
+        markers.addLayer(marker);
+      }
+    }
+
+    render();
+    map.on('zoomend', render);
+    return () => {
+      map.off('zoomend', render);
+    };
+  }, [isReady, points]);
+
+  return <div ref={containerRef} className={cn('isolate rounded-xl overflow-hidden bg-gray-100', className)} />;
+}
+
+function markerElement(cluster: MapCluster): HTMLElement {
+  const element = document.createElement('div');
+  element.className =
+    'relative w-11 h-11 rounded-full border-2 border-white shadow-lg overflow-hidden bg-fieldvision-blue flex items-center justify-center';
+
+  const thumbnailUrl = cluster.points[0].thumbnailUrl;
+  if (thumbnailUrl) {
+    const img = document.createElement('img');
+    img.src = thumbnailUrl;
+    img.alt = '';
+    img.className = 'absolute inset-0 w-full h-full object-cover';
+    element.appendChild(img);
+  }
+
+  if (cluster.points.length > 1) {
+    const count = document.createElement('span');
+    count.textContent = cluster.points.length > 99 ? '99+' : String(cluster.points.length);
+    count.className = cn(
+      'relative text-white text-xs font-bold',
+      thumbnailUrl && 'px-1.5 py-0.5 rounded-full bg-fieldvision-orange'
+    );
+    element.appendChild(count);
+  }
+
+  return element;
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { X, ArrowLeft, ArrowRight, Loader2, Sparkles, Trash2, Link2, MapPin, Folder } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  getPhotoPairSuggestions,
+  createPhotoPair,
+  deletePhotoPair,
+  PairPhoto,
+  PhotoPair,
+  PhotoPairSuggestion,
+} from '@/lib/projects-api';
+import { PhotoComparison } from './PhotoComparison';
+
+interface PhotoPairsPanelProps {
+  projectId: string;
+  pairs: PhotoPair[];
+  onPairsChange: (pairs: PhotoPair[]) => void;
+  onClose: () => void;
+}
+
+export function PhotoPairsPanel({ projectId, pairs, onPairsChange, onClose }: PhotoPairsPanelProps) {
+  const [activePairId, setActivePairId] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<PhotoPairSuggestion[] | null>(null);
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activePair = pairs.find((p) => p.id === activePairId);
+
+  async function handleLoadSuggestions() {
+    setIsLoadingSuggestions(true);
+    try {
+      setSuggestions(await getPhotoPairSuggestions(projectId));
+    } catch (err) {
+      console.error('Failed to load suggestions:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load suggestions');
+    } finally {
+      setIsLoadingSuggestions(false);
+    }
+  }
+
+  async function handleAcceptSuggestion(suggestion: PhotoPairSuggestion) {
+    setIsSaving(true);
+    try {
+      const pair = await createPhotoPair(projectId, suggestion.beforePhoto.id, suggestion.afterPhoto.id);
+      onPairsChange([pair, ...pairs]);
+      setSuggestions((prev) => prev && prev.filter((s) => s !== suggestion));
+    } catch (err) {
+      console.error('Failed to pair photos:', err);
+      alert(err instanceof Error ? err.message : 'Failed to pair photos');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDeletePair(pairId: string) {
+    if (!confirm('Unpair these photos? The photos themselves are kept.')) return;
+
+    setIsSaving(true);
+    try {
+      await deletePhotoPair(projectId, pairId);
+      onPairsChange(pairs.filter((p) => p.id !== pairId));
+      setActivePairId(null);
+    } catch (err) {
+      console.error('Failed to unpair photos:', err);
+      alert(err instanceof Error ? err.message : 'Failed to unpair photos');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/90 overflow-y-auto">
+      <div className="max-w-5xl mx-auto p-4">
+        <div className="flex items-center justify-between mb-4 text-white">
+          {activePair ? (
+            <button
+              onClick={() => setActivePairId(null)}
+              className="flex items-center gap-2 hover:text-white/80"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              All pairs
+            </button>
+          ) : (
+            <h2 className="text-xl font-semibold">Before &amp; After</h2>
+          )}
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {activePair ? (
+          <div className="space-y-4">
+            <PhotoComparison before={activePair.beforePhoto} after={activePair.afterPhoto} />
+            <div className="flex items-center justify-between bg-white rounded-lg p-4">
+              <div>
+                {activePair.label && <p className="font-semibold text-gray-900">{activePair.label}</p>}
+                <p className="text-sm text-gray-500">
+                  {format(new Date(activePair.beforePhoto.capturedAt), 'PPP')} to{' '}
+                  {format(new Date(activePair.afterPhoto.capturedAt), 'PPP')}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDeletePair(activePair.id)}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                Unpair
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl p-4">
+              {pairs.length === 0 ? (
+                <p className="text-gray-500 text-sm text-center py-6">
+                  No pairs yet. Select two photos of the same spot and choose &quot;Pair&quot;, or use suggestions below.
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {pairs.map((pair) => (
+                    <button
+                      key={pair.id}
+                      onClick={() => setActivePairId(pair.id)}
+                      className="text-left rounded-lg border hover:border-fieldvision-blue hover:shadow transition-all p-2"
+                    >
+                      <PairThumbnails before={pair.beforePhoto} after={pair.afterPhoto} />
+                      <p className="mt-2 text-sm font-medium text-gray-900 truncate">
+                        {pair.label || format(new Date(pair.afterPhoto.capturedAt), 'PPP')}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-gray-900">Suggested pairs</h3>
+                <button
+                  onClick={handleLoadSuggestions}
+                  disabled={isLoadingSuggestions}
+                  className="flex items-center gap-2 px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {isLoadingSuggestions ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                  {suggestions ? 'Refresh' : 'Find matches'}
+                </button>
+              </div>
+              {suggestions === null ? (
+                <p className="text-sm text-gray-500">
+                  Finds photos taken at the same spot (by GPS or folder) on different visits.
+                </p>
+              ) : suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">No likely pairs found.</p>
+              ) : (
+                <div className="space-y-3">
+                  {suggestions.map((suggestion) => (
+                    <div
+                      key={`${suggestion.beforePhoto.id}:${suggestion.afterPhoto.id}`}
+                      className="flex flex-col sm:flex-row sm:items-center gap-3 p-2 rounded-lg bg-gray-50"
+                    >
+                      <div className="sm:w-72">
+                        <PairThumbnails before={suggestion.beforePhoto} after={suggestion.afterPhoto} />
+                      </div>
+                      <div className="flex-1 text-sm text-gray-600 space-y-1">
+                        {suggestion.distanceMeters !== null && (
+                          <p className="flex items-center gap-1">
+                            <MapPin className="w-4 h-4" />
+                            {suggestion.distanceMeters} m apart
+                          </p>
+                        )}
+                        {suggestion.sameFolder && (
+                          <p className="flex items-center gap-1">
+                            <Folder className="w-4 h-4" />
+                            Same folder
+                          </p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleAcceptSuggestion(suggestion)}
+                        disabled={isSaving}
+                        className="flex items-center justify-center gap-2 px-4 py-2 bg-fieldvision-blue text-white rounded-lg text-sm font-semibold hover:bg-fieldvision-blue/90 disabled:opacity-50"
+                      >
+                        <Link2 className="w-4 h-4" />
+                        Pair
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PairThumbnails({ before, after }: { before: PairPhoto; after: PairPhoto }) {
+  return (
+    <div className="flex items-center gap-1">
+      {[before, after].map((photo, index) => (
+        <div key={photo.id} className="contents">
+          {index === 1 && <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+          <div className="relative flex-1 aspect-[4/3] rounded overflow-hidden bg-gray-100">
+            <Image
+              src={photo.thumbnailUrl || photo.remoteUrl}
+              alt={photo.note || 'Project photo'}
+              fill
+              className="object-cover"
+              sizes="160px"
+            />
+            <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-white text-[10px] uppercase">
+              {index === 0 ? 'Before' : 'After'} · {format(new Date(photo.capturedAt), 'MMM d')}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
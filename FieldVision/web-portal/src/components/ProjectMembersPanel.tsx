@@ -1,13 +1,16 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, UserPlus, Loader2, MoreVertical, Trash2, Shield } from 'lucide-react';
+import { X, UserPlus, Loader2, MoreVertical, Trash2, Shield, Clock } from 'lucide-react';
 import { RoleBadge } from './RoleBadge';
 import { InviteMemberModal } from './InviteMemberModal';
 import {
   getProjectMembers,
+  getProjectInvitations,
   updateMemberRole,
   removeMember,
+  withdrawInvitation,
+  Invitation,
   ProjectMember,
 } from '@/lib/projects-api';
 
@@ -22,6 +25,7 @@ interface ProjectMembersPanelProps {
 
 export function ProjectMembersPanel({ projectId, isOpen, onClose, isAdmin }: ProjectMembersPanelProps) {
   const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [menuOpenFor, setMenuOpenFor] = useState<string | null>(null);
@@ -36,8 +40,12 @@ export function ProjectMembersPanel({ projectId, isOpen, onClose, isAdmin }: Pro
   async function loadMembers() {
     setIsLoading(true);
     try {
-      const data = await getProjectMembers(projectId);
-      setMembers(data);
+      const [membersData, invitationsData] = await Promise.all([
+        getProjectMembers(projectId),
+        getProjectInvitations(projectId),
+      ]);
+      setMembers(membersData);
+      setInvitations(invitationsData);
     } catch (err) {
       console.error('Failed to load members:', err);
     } finally {
@@ -75,6 +83,21 @@ export function ProjectMembersPanel({ projectId, isOpen, onClose, isAdmin }: Pro
     }
   }
 
+  async function handleWithdrawInvitation(invitation: Invitation) {
+    if (!confirm(`Withdraw the invitation to ${invitation.email}?`)) return;
+
+    setIsUpdating(invitation.id);
+    try {
+      await withdrawInvitation(projectId, invitation.id);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    } catch (err) {
+      console.error('Failed to withdraw invitation:', err);
+      alert(err instanceof Error ? err.message : 'Failed to withdraw invitation');
+    } finally {
+      setIsUpdating(null);
+    }
+  }
+
   if (!isOpen) return null;
 
   return (
@@ -190,6 +213,45 @@ export function ProjectMembersPanel({ projectId, isOpen, onClose, isAdmin }: Pro
                   )}
                 </div>
               ))}
+
+              {invitations.length > 0 && (
+                <>
+                  <div className="pt-4 pb-1 text-xs font-medium text-gray-500 uppercase">
+                    Pending Invitations
+                  </div>
+                  {invitations.map((invitation) => (
+                    <div
+                      key={invitation.id}
+                      className="flex items-center gap-3 p-3 border border-dashed rounded-lg"
+                    >
+                      <div className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center flex-shrink-0">
+                        <Clock className="w-5 h-5 text-gray-400" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{invitation.email}</p>
+                        <p className="text-sm text-gray-500 truncate">
+                          Invited by {invitation.invitedByName}
+                        </p>
+                      </div>
+                      <RoleBadge role={invitation.role} size="sm" />
+                      {isAdmin && (
+                        <button
+                          onClick={() => handleWithdrawInvitation(invitation)}
+                          className="p-1 hover:bg-gray-100 rounded transition-colors"
+                          disabled={isUpdating === invitation.id}
+                          title="Withdraw invitation"
+                        >
+                          {isUpdating === invitation.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <X className="w-4 h-4 text-gray-400" />
+                          )}
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </>
+              )}
             </div>
           )}
         </div>
@@ -213,8 +275,8 @@ export function ProjectMembersPanel({ projectId, isOpen, onClose, isAdmin }: Pro
         <InviteMemberModal
           projectId={projectId}
           onClose={() => setShowInviteModal(false)}
-          onMemberAdded={(member) => {
-            setMembers(prev => [...prev, member]);
+          onInvited={(invitation) => {
+            setInvitations(prev => [...prev.filter(i => i.id !== invitation.id), invitation]);
           }}
         />
       )}
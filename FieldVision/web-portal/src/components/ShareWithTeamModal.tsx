@@ -7,7 +7,6 @@ import {
   getTeamContacts,
   bulkInviteMembers,
   TeamContact,
-  ProjectMember,
 } from '@/lib/projects-api';
 
 type Role = 'ADMIN' | 'CREW' | 'VIEWER';
@@ -16,7 +15,6 @@ interface ShareWithTeamModalProps {
   projectId: string;
   existingMemberIds: string[];
   onClose: () => void;
-  onMembersAdded: (members: ProjectMember[]) => void;
 }
 
 interface SelectedContact {
@@ -29,7 +27,6 @@ export function ShareWithTeamModal({
   projectId,
   existingMemberIds,
   onClose,
-  onMembersAdded,
 }: ShareWithTeamModalProps) {
   const [contacts, setContacts] = useState<TeamContact[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -98,10 +95,6 @@ export function ShareWithTeamModal({
 
       const response = await bulkInviteMembers(projectId, invites);
 
-      const newMembers = response.results
-        .filter((r) => r.success && r.member)
-        .map((r) => r.member as ProjectMember);
-
       const errors = response.results
         .filter((r) => !r.success)
         .map((r) => `${r.email}: ${r.error}`);
@@ -111,10 +104,6 @@ export function ShareWithTeamModal({
         failed: response.summary.failed,
         errors,
       });
-
-      if (newMembers.length > 0) {
-        onMembersAdded(newMembers);
-      }
     } catch (err) {
       setResults({
         success: 0,
@@ -149,7 +138,7 @@ export function ShareWithTeamModal({
             <div className="space-y-4">
               <div className={`p-4 rounded-lg ${results.failed === 0 ? 'bg-green-50 border border-green-200' : 'bg-yellow-50 border border-yellow-200'}`}>
                 <p className="font-medium">
-                  {results.success > 0 && `${results.success} member${results.success !== 1 ? 's' : ''} invited successfully`}
+                  {results.success > 0 && `${results.success} invitation${results.success !== 1 ? 's' : ''} sent`}
                   {results.success > 0 && results.failed > 0 && ', '}
                   {results.failed > 0 && `${results.failed} failed`}
                 </p>
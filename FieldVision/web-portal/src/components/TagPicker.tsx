@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { PhotoTag } from '@/lib/projects-api';
+import { cn } from '@/lib/utils';
+
+// Cycled through as new tags are created so neighbouring chips stay distinct
+export const TAG_COLORS = ['#004E89', '#FF6B35', '#DC2626', '#16A34A', '#9333EA', '#CA8A04', '#0891B2', '#DB2777'];
+
+export function TagChip({ tag, className }: { tag: PhotoTag; className?: string }) {
+  return (
+    <span
+      className={cn('inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white truncate', className)}
+      style={{ backgroundColor: tag.color }}
+    >
+      {tag.name}
+    </span>
+  );
+}
+
+interface TagPickerProps {
+  tags: PhotoTag[];
+  isActive: (tag: PhotoTag) => boolean;
+  onToggle: (tag: PhotoTag) => void;
+  onCreate?: (name: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Toggleable chips for the project's tags, with an inline field for new ones
+export function TagPicker({ tags, isActive, onToggle, onCreate, disabled }: TagPickerProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newTagName, setNewTagName] = useState('');
+
+  async function handleCreate() {
+    const name = newTagName.trim();
+    if (!name || !onCreate) return;
+
+    await onCreate(name);
+    setNewTagName('');
+    setIsAdding(false);
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map((tag) => {
+        const active = isActive(tag);
+        return (
+          <button
+            key={tag.id}
+            onClick={() => onToggle(tag)}
+            disabled={disabled}
+            className={cn(
+              'flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium border transition-colors disabled:opacity-50',
+              active ? 'text-white border-transparent' : 'bg-white text-gray-700 hover:bg-gray-50'
+            )}
+            style={active ? { backgroundColor: tag.color } : undefined}
+          >
+            {!active && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />}
+            {tag.name}
+          </button>
+        );
+      })}
+
+      {onCreate &&
+        (isAdding ? (
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+              placeholder="Tag name"
+              maxLength={50}
+              className="w-28 px-2 py-1 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-fieldvision-blue"
+              autoFocus
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate();
+                if (e.key === 'Escape') {
+                  setIsAdding(false);
+                  setNewTagName('');
+                }
+              }}
+            />
+            <button
+              onClick={() => {
+                setIsAdding(false);
+                setNewTagName('');
+              }}
+              className="p-1 text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            disabled={disabled}
+            className="flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium border border-dashed text-gray-500 hover:border-fieldvision-blue hover:text-fieldvision-blue transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            New Tag
+          </button>
+        ))}
+    </div>
+  );
+}
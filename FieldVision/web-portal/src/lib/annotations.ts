@@ -0,0 +1,125 @@
+import type { Annotation, AnnotationShape } from './projects-api';
+
+export const ANNOTATION_COLORS = ['#EF4444', '#FF6B35', '#FACC15', '#22C55E', '#004E89', '#FFFFFF'];
+export const DEFAULT_STROKE_WIDTH = 0.006;
+export const DEFAULT_FONT_SIZE = 0.04;
+
+// Arrowhead as three points (tip, left barb, right barb) in pixel space
+export function arrowHead(
+  shape: Extract<AnnotationShape, { type: 'arrow' }>,
+  width: number,
+  height: number
+): [number, number][] {
+  const x1 = shape.x1 * width;
+  const y1 = shape.y1 * height;
+  const x2 = shape.x2 * width;
+  const y2 = shape.y2 * height;
+  const angle = Math.atan2(y2 - y1, x2 - x1);
+  const size = Math.max(shape.strokeWidth * width * 4, 8);
+
+  return [
+    [x2, y2],
+    [x2 - size * Math.cos(angle - Math.PI / 6), y2 - size * Math.sin(angle - Math.PI / 6)],
+    [x2 - size * Math.cos(angle + Math.PI / 6), y2 - size * Math.sin(angle + Math.PI / 6)],
+  ];
+}
+
+// Moves a shape by a normalized offset, keeping it inside the image
+export function translateShape(shape: AnnotationShape, dx: number, dy: number): AnnotationShape {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+  switch (shape.type) {
+    case 'arrow':
+      return { ...shape, x1: clamp(shape.x1 + dx), y1: clamp(shape.y1 + dy), x2: clamp(shape.x2 + dx), y2: clamp(shape.y2 + dy) };
+    case 'rect':
+    case 'ellipse':
+      return {
+        ...shape,
+        x: clamp(Math.min(shape.x + dx, 1 - shape.width)),
+        y: clamp(Math.min(shape.y + dy, 1 - shape.height)),
+      };
+    case 'freehand':
+      return { ...shape, points: shape.points.map(([x, y]) => [clamp(x + dx), clamp(y + dy)]) };
+    case 'text':
+      return { ...shape, x: clamp(shape.x + dx), y: clamp(shape.y + dy) };
+  }
+}
+
+/**
+ * Paints annotations onto a canvas that already holds the photo at
+ * width x height pixels. Used when flattening photos into reports.
+ */
+export function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  width: number,
+  height: number
+) {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  for (const { shape } of annotations) {
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+
+    switch (shape.type) {
+      case 'arrow': {
+        ctx.lineWidth = shape.strokeWidth * width;
+        ctx.beginPath();
+        ctx.moveTo(shape.x1 * width, shape.y1 * height);
+        ctx.lineTo(shape.x2 * width, shape.y2 * height);
+        ctx.stroke();
+
+        const [tip, left, right] = arrowHead(shape, width, height);
+        ctx.beginPath();
+        ctx.moveTo(...tip);
+        ctx.lineTo(...left);
+        ctx.lineTo(...right);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+      case 'rect':
+        ctx.lineWidth = shape.strokeWidth * width;
+        ctx.strokeRect(shape.x * width, shape.y * height, shape.width * width, shape.height * height);
+        break;
+      case 'ellipse':
+        ctx.lineWidth = shape.strokeWidth * width;
+        ctx.beginPath();
+        ctx.ellipse(
+          (shape.x + shape.width / 2) * width,
+          (shape.y + shape.height / 2) * height,
+          (shape.width / 2) * width,
+          (shape.height / 2) * height,
+          0,
+          0,
+          Math.PI * 2
+        );
+        ctx.stroke();
+        break;
+      case 'freehand':
+        ctx.lineWidth = shape.strokeWidth * width;
+        ctx.beginPath();
+        shape.points.forEach(([x, y], index) => {
+          if (index === 0) ctx.moveTo(x * width, y * height);
+          else ctx.lineTo(x * width, y * height);
+        });
+        ctx.stroke();
+        break;
+      case 'text': {
+        const fontSize = shape.fontSize * width;
+        ctx.font = `bold ${fontSize}px helvetica, arial, sans-serif`;
+        ctx.textBaseline = 'top';
+        // Dark outline keeps labels readable on busy photos
+        ctx.lineWidth = fontSize / 6;
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.strokeText(shape.text, shape.x * width, shape.y * height);
+        ctx.fillText(shape.text, shape.x * width, shape.y * height);
+        break;
+      }
+    }
+  }
+
+  ctx.restore();
+}
@@ -1,3 +1,5 @@
+import type { Annotation } from './projects-api';
+
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/v1';
 
 export interface SharedProject {
@@ -14,12 +16,14 @@ export interface SharedPhoto {
   id: string;
   remoteUrl: string;
   thumbnailUrl: string | null;
+  previewUrl: string | null;
   capturedAt: string;
   latitude: number;
   longitude: number;
   note: string | null;
   folderId: string | null;
   comments: PhotoComment[];
+  annotations: Annotation[];
 }
 
 export interface SharedFolder {
@@ -87,3 +91,15 @@ export async function addComment(
 
   return response.json();
 }
+
+// A plain link so the browser streams the ZIP straight to disk
+export function getSharedArchiveUrl(token: string, options: { folderId?: string | null; password?: string } = {}): string {
+  const params = new URLSearchParams({
+    manifest: 'csv',
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  if (options.folderId) params.set('folderId', options.folderId);
+  if (options.password) params.set('password', options.password);
+
+  return `${API_BASE}/share/${token}/archive?${params}`;
+}
@@ -0,0 +1,50 @@
+// Tiles default to openstreetmap.org; point NEXT_PUBLIC_MAP_TILE_URL at a
+// self-hosted tile server (any {z}/{x}/{y} raster source) for offline setups
+export const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const MAP_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+export const MAP_MAX_ZOOM = Number(process.env.NEXT_PUBLIC_MAP_MAX_ZOOM) || 19;
+
+export interface MapPoint {
+  id: string;
+  latitude: number;
+  longitude: number;
+  thumbnailUrl?: string | null;
+}
+
+export interface MapCluster {
+  latitude: number;
+  longitude: number;
+  points: MapPoint[];
+}
+
+/**
+ * Groups points that land in the same square of `cellSize` screen pixels.
+ * `project` maps a point to pixel coordinates at the current zoom, so
+ * clusters split apart as the map zooms in. Points keep their input order.
+ */
+export function clusterPoints(
+  points: MapPoint[],
+  project: (point: MapPoint) => { x: number; y: number },
+  cellSize = 60
+): MapCluster[] {
+  const cells = new Map<string, MapPoint[]>();
+
+  for (const point of points) {
+    const { x, y } = project(point);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return Array.from(cells.values()).map((cellPoints) => ({
+    latitude: cellPoints.reduce((sum, p) => sum + p.latitude, 0) / cellPoints.length,
+    longitude: cellPoints.reduce((sum, p) => sum + p.longitude, 0) / cellPoints.length,
+    points: cellPoints,
+  }));
+}
@@ -32,6 +32,21 @@ export interface ProjectMember {
   isCurrentUser?: boolean;
 }
 
+// Pending until the invitee accepts; people without an account get a sign-up link by email
+export interface Invitation {
+  id: string;
+  email: string;
+  projectId: string | null;
+  projectName: string | null;
+  role: 'ADMIN' | 'CREW' | 'VIEWER';
+  nickname: string | null;
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED';
+  invitedById: string;
+  invitedByName: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
 export interface TeamContact {
   id: string;
   contactId: string;
@@ -54,6 +69,7 @@ export interface Photo {
   id: string;
   remoteUrl: string;
   thumbnailUrl: string | null;
+  previewUrl: string | null;
   capturedAt: string;
   latitude: number | null;
   longitude: number | null;
@@ -64,6 +80,60 @@ export interface Photo {
   folder?: Folder | null;
   uploaderId: string;
   comments: Comment[];
+  annotations?: Annotation[];
+  tags?: PhotoTag[];
+}
+
+// Coordinates are fractions of the image size (0-1); stroke widths and font
+// sizes are fractions of the image width
+export type AnnotationShape =
+  | { type: 'arrow'; x1: number; y1: number; x2: number; y2: number; color: string; strokeWidth: number }
+  | { type: 'rect' | 'ellipse'; x: number; y: number; width: number; height: number; color: string; strokeWidth: number }
+  | { type: 'freehand'; points: [number, number][]; color: string; strokeWidth: number }
+  | { type: 'text'; x: number; y: number; text: string; color: string; fontSize: number };
+
+export interface Annotation {
+  id: string;
+  authorId?: string;
+  authorName?: string;
+  shape: AnnotationShape;
+}
+
+export interface PhotoTag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface Tag extends PhotoTag {
+  photoCount: number;
+}
+
+export interface PairPhoto {
+  id: string;
+  folderId: string | null;
+  capturedAt: string;
+  latitude: number;
+  longitude: number;
+  remoteUrl: string;
+  thumbnailUrl: string | null;
+  previewUrl: string | null;
+  note: string | null;
+}
+
+export interface PhotoPair {
+  id: string;
+  label: string | null;
+  beforePhoto: PairPhoto;
+  afterPhoto: PairPhoto;
+  createdAt: string;
+}
+
+export interface PhotoPairSuggestion {
+  beforePhoto: PairPhoto;
+  afterPhoto: PairPhoto;
+  distanceMeters: number | null;
+  sameFolder: boolean;
 }
 
 export interface Folder {
@@ -183,7 +253,76 @@ export async function getPhotos(projectId: string, page = 1, limit = 50): Promis
   return response.json();
 }
 
-export async function getUploadUrl(projectId: string, filename: string, contentType: string): Promise<{ uploadUrl: string; mediaUrl: string; thumbnailUploadUrl: string; thumbnailUrl: string }> {
+export interface PhotoLocationFeature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: 'Point'; coordinates: [number, number] }; // [longitude, latitude]
+  properties: {
+    capturedAt: string;
+    mediaType: string;
+    thumbnailUrl: string | null;
+    folderId: string | null;
+  };
+}
+
+export interface PhotoLocationFilters {
+  folderId?: string | null;
+  tagIds?: string[];
+  startDate?: string; // yyyy-MM-dd, inclusive
+  endDate?: string;
+}
+
+export async function getPhotoLocations(
+  projectId: string,
+  filters: PhotoLocationFilters = {}
+): Promise<PhotoLocationFeature[]> {
+  const params = new URLSearchParams();
+  if (filters.folderId) params.set('folderId', filters.folderId);
+  if (filters.tagIds?.length) params.set('tagIds', filters.tagIds.join(','));
+  if (filters.startDate) params.set('startDate', new Date(`${filters.startDate}T00:00:00`).toISOString());
+  if (filters.endDate) params.set('endDate', new Date(`${filters.endDate}T23:59:59.999`).toISOString());
+
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photos/geojson?${params}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch photo locations');
+  }
+
+  const data = await response.json();
+  return data.features;
+}
+
+// Filters combine; leaving them all out downloads the whole project
+export interface PhotoArchiveRequest {
+  photoIds?: string[];
+  folderIds?: string[];
+  tagIds?: string[];
+  startDate?: string;
+  endDate?: string;
+  manifest?: 'csv' | 'json';
+  timeZone?: string;
+}
+
+// The ZIP is streamed by the server but collected in memory here before saving
+export async function downloadPhotoArchive(projectId: string, request: PhotoArchiveRequest): Promise<Blob> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photos/archive`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to download photos');
+  }
+
+  return response.blob();
+}
+
+export async function getUploadUrl(projectId: string, filename: string, contentType: string): Promise<{ uploadUrl: string; mediaUrl: string }> {
   const response = await fetch(`${API_BASE}/photos/upload-url`, {
     method: 'POST',
     headers: getAuthHeaders(),
@@ -215,10 +354,9 @@ export async function uploadToS3(uploadUrl: string, file: File): Promise<void> {
 export async function createPhoto(data: {
   projectId: string;
   remoteUrl: string;
-  thumbnailUrl?: string;
-  capturedAt: string;
-  latitude: number;
-  longitude: number;
+  capturedAt?: string;
+  latitude?: number;
+  longitude?: number;
   note?: string;
   folderId?: string;
 }): Promise<Photo> {
@@ -235,6 +373,19 @@ export async function createPhoto(data: {
   return response.json();
 }
 
+export async function getPhoto(photoId: string): Promise<Photo> {
+  const response = await fetch(`${API_BASE}/photos/${photoId}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch photo');
+  }
+
+  return response.json();
+}
+
 export async function deletePhoto(photoId: string): Promise<void> {
   const response = await fetch(`${API_BASE}/photos/${photoId}`, {
     method: 'DELETE',
@@ -260,6 +411,49 @@ export async function addComment(photoId: string, text: string): Promise<Comment
   return response.json();
 }
 
+// Annotations
+export async function createAnnotation(photoId: string, shape: AnnotationShape): Promise<Annotation> {
+  const response = await fetch(`${API_BASE}/photos/${photoId}/annotations`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ shape }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to save annotation');
+  }
+
+  return response.json();
+}
+
+export async function updateAnnotation(photoId: string, annotationId: string, shape: AnnotationShape): Promise<Annotation> {
+  const response = await fetch(`${API_BASE}/photos/${photoId}/annotations/${annotationId}`, {
+    method: 'PATCH',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ shape }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update annotation');
+  }
+
+  return response.json();
+}
+
+export async function deleteAnnotation(photoId: string, annotationId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/photos/${photoId}/annotations/${annotationId}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to delete annotation');
+  }
+}
+
 // Folders
 export async function createFolder(projectId: string, name: string): Promise<Folder> {
   const response = await fetch(`${API_BASE}/projects/${projectId}/folders`, {
@@ -275,6 +469,335 @@ export async function createFolder(projectId: string, name: string): Promise<Fol
   return response.json();
 }
 
+// Tags
+export async function getTags(projectId: string): Promise<Tag[]> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/tags`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch tags');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export async function createTag(projectId: string, name: string, color?: string): Promise<Tag> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/tags`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ name, color }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to create tag');
+  }
+
+  return response.json();
+}
+
+export async function deleteTag(projectId: string, tagId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/tags/${tagId}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to delete tag');
+  }
+}
+
+export async function tagPhotos(projectId: string, photoIds: string[], tagIds: string[]): Promise<void> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photos/tags`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ photoIds, tagIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to tag photos');
+  }
+}
+
+export async function untagPhotos(projectId: string, photoIds: string[], tagIds: string[]): Promise<void> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photos/tags/remove`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ photoIds, tagIds }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to remove tags');
+  }
+}
+
+// Before/after pairs
+export async function getPhotoPairs(projectId: string): Promise<PhotoPair[]> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photo-pairs`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch photo pairs');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export async function getPhotoPairSuggestions(projectId: string, photoId?: string): Promise<PhotoPairSuggestion[]> {
+  const query = photoId ? `?photoId=${photoId}` : '';
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photo-pairs/suggestions${query}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch pair suggestions');
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+export async function createPhotoPair(
+  projectId: string,
+  beforePhotoId: string,
+  afterPhotoId: string,
+  label?: string
+): Promise<PhotoPair> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photo-pairs`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({ beforePhotoId, afterPhotoId, label }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to pair photos');
+  }
+
+  return response.json();
+}
+
+export async function deletePhotoPair(projectId: string, pairId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/photo-pairs/${pairId}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to unpair photos');
+  }
+}
+
+// Reports
+
+export type ReportStatus = 'PENDING' | 'PROCESSING' | 'DONE' | 'FAILED';
+
+export type ReportFormat = 'PDF' | 'DOCX' | 'HTML';
+
+export interface ReportRequest {
+  title?: string;
+  format?: ReportFormat;
+  // Settings left out here come from the template
+  templateId?: string;
+  companyName?: string;
+  includeNotes?: boolean;
+  includeLocation?: boolean;
+  includeDate?: boolean;
+  includeComparisons?: boolean;
+  includeComments?: boolean;
+  includeTranscriptions?: boolean;
+  timeZone?: string;
+  folderIds?: string[];
+  tagIds?: string[];
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface Report {
+  id: string;
+  projectId: string;
+  title: string;
+  format: ReportFormat;
+  status: ReportStatus;
+  photoCount: number | null;
+  downloadUrl: string | null;
+  error: string | null;
+  requestedById: string;
+  requestedByName: string;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export async function createReport(projectId: string, request: ReportRequest): Promise<Report> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/reports`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to start report');
+  }
+
+  return response.json();
+}
+
+export async function getReport(projectId: string, reportId: string): Promise<Report> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/reports/${reportId}`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch report');
+  }
+
+  return response.json();
+}
+
+// Polls until the report job finishes; rejects if it failed
+export async function waitForReport(projectId: string, reportId: string, intervalMs = 2000): Promise<Report> {
+  for (;;) {
+    const report = await getReport(projectId, reportId);
+    if (report.status === 'DONE') return report;
+    if (report.status === 'FAILED') throw new Error(report.error || 'Report generation failed');
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+// Report Templates
+
+export type ReportCoverField = 'address' | 'client' | 'photoCount' | 'dateRange' | 'preparedBy' | 'generatedAt';
+export type ReportGrouping = 'NONE' | 'FOLDER' | 'DATE';
+
+export interface ReportTemplateSettings {
+  name: string;
+  companyName: string | null;
+  primaryColor: string;
+  accentColor: string;
+  photosPerPage: 1 | 2 | 4 | 6;
+  groupBy: ReportGrouping;
+  coverFields: ReportCoverField[];
+  coverNote: string | null;
+  includeNotes: boolean;
+  includeLocation: boolean;
+  includeDate: boolean;
+  includeComparisons: boolean;
+  includeComments: boolean;
+  includeTranscriptions: boolean;
+  // Lets the owner's team contacts use the template too
+  sharedWithTeam: boolean;
+}
+
+export interface ReportTemplate extends ReportTemplateSettings {
+  id: string;
+  logoUrl: string | null;
+  ownerName: string;
+  // False for templates shared by someone else, which are read-only
+  isOwner: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export async function getReportTemplates(): Promise<ReportTemplate[]> {
+  const response = await fetch(`${API_BASE}/report-templates`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch report templates');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+export async function createReportTemplate(settings: Partial<ReportTemplateSettings> & { name: string }): Promise<ReportTemplate> {
+  const response = await fetch(`${API_BASE}/report-templates`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to create template');
+  }
+
+  return response.json();
+}
+
+export async function updateReportTemplate(id: string, settings: Partial<ReportTemplateSettings>): Promise<ReportTemplate> {
+  const response = await fetch(`${API_BASE}/report-templates/${id}`, {
+    method: 'PATCH',
+    headers: getAuthHeaders(),
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to update template');
+  }
+
+  return response.json();
+}
+
+export async function deleteReportTemplate(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/report-templates/${id}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to delete template');
+  }
+}
+
+export async function uploadReportTemplateLogo(id: string, file: File): Promise<ReportTemplate> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  // The browser sets the multipart Content-Type and boundary itself
+  const headers = getAuthHeaders();
+  delete headers['Content-Type'];
+  const response = await fetch(`${API_BASE}/report-templates/${id}/logo`, {
+    method: 'PUT',
+    headers,
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to upload logo');
+  }
+
+  return response.json();
+}
+
+export async function removeReportTemplateLogo(id: string): Promise<ReportTemplate> {
+  const response = await fetch(`${API_BASE}/report-templates/${id}/logo`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to remove logo');
+  }
+
+  return response.json();
+}
+
 // Share Links
 export async function createShareLink(projectId: string, options: {
   folderIds?: string[];
@@ -309,7 +832,7 @@ export async function getProjectMembers(projectId: string): Promise<ProjectMembe
   return response.json();
 }
 
-export async function inviteMember(projectId: string, email: string, role: 'ADMIN' | 'CREW' | 'VIEWER' = 'CREW'): Promise<ProjectMember> {
+export async function inviteMember(projectId: string, email: string, role: 'ADMIN' | 'CREW' | 'VIEWER' = 'CREW'): Promise<{ invitation: Invitation }> {
   const response = await fetch(`${API_BASE}/projects/${projectId}/members`, {
     method: 'POST',
     headers: getAuthHeaders(),
@@ -353,7 +876,7 @@ export async function removeMember(projectId: string, memberId: string): Promise
 
 export async function bulkInviteMembers(projectId: string, invites: Array<{ email: string; role: 'ADMIN' | 'CREW' | 'VIEWER' }>): Promise<{
   summary: { total: number; successful: number; failed: number };
-  results: Array<{ email: string; success: boolean; error?: string; member?: ProjectMember }>;
+  results: Array<{ email: string; success: boolean; error?: string; invitation?: Invitation }>;
 }> {
   const response = await fetch(`${API_BASE}/projects/${projectId}/members/bulk`, {
     method: 'POST',
@@ -369,6 +892,72 @@ export async function bulkInviteMembers(projectId: string, invites: Array<{ emai
   return response.json();
 }
 
+export async function getProjectInvitations(projectId: string): Promise<Invitation[]> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/invitations`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch invitations');
+  }
+
+  return response.json();
+}
+
+export async function withdrawInvitation(projectId: string, invitationId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/projects/${projectId}/invitations/${invitationId}`, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to withdraw invitation');
+  }
+}
+
+// Invitations addressed to the current user
+export async function getMyInvitations(): Promise<Invitation[]> {
+  const response = await fetch(`${API_BASE}/invitations`, {
+    headers: getAuthHeaders(),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch invitations');
+  }
+
+  return response.json();
+}
+
+export async function acceptInvitation(invitationId: string): Promise<{ projectId: string; projectName: string; role: 'ADMIN' | 'CREW' | 'VIEWER' }> {
+  const response = await fetch(`${API_BASE}/invitations/${invitationId}/accept`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    // Fastify rejects an empty body sent as JSON
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to accept invitation');
+  }
+
+  return response.json();
+}
+
+export async function declineInvitation(invitationId: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/invitations/${invitationId}/decline`, {
+    method: 'POST',
+    headers: getAuthHeaders(),
+    body: JSON.stringify({}),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to decline invitation');
+  }
+}
+
 // Team Contacts
 export async function getTeamContacts(): Promise<TeamContact[]> {
   const response = await fetch(`${API_BASE}/team/contacts`, {
@@ -382,7 +971,7 @@ export async function getTeamContacts(): Promise<TeamContact[]> {
   return response.json();
 }
 
-export async function addTeamContact(email: string, nickname?: string, defaultRole: 'ADMIN' | 'CREW' | 'VIEWER' = 'CREW'): Promise<TeamContact> {
+export async function addTeamContact(email: string, nickname?: string, defaultRole: 'ADMIN' | 'CREW' | 'VIEWER' = 'CREW'): Promise<TeamContact | { invitation: Invitation }> {
   const response = await fetch(`${API_BASE}/team/contacts`, {
     method: 'POST',
     headers: getAuthHeaders(),